@@ -0,0 +1,162 @@
+import { Cell } from "./cells";
+import { CellLattice } from "./lattice";
+
+// What a cell senses around its voxel, one entry per species
+export interface CellEnvironment {
+    concentrations: number[];
+    gradients: { x: number, y: number, z: number }[];
+}
+
+// Rules read the environment and update the cell in place: production rates, state, die, divide and move
+export type CellRule = (cell: Cell, environment: CellEnvironment) => void;
+
+const neighbourOffsets = [
+    { x: -1, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+    { x: 0, y: -1, z: 0 }, { x: 0, y: 1, z: 0 },
+    { x: 0, y: 0, z: -1 }, { x: 0, y: 0, z: 1 },
+];
+
+// Samples the field around a cell. The cell's own voxel holds no concentration, so the local
+// concentration is the mean over open neighbours and the gradient uses differences between them.
+export function sampleEnvironment(
+    field: Float32Array,
+    dimensions: { x: number, y: number, z: number },
+    numSpecies: number,
+    lattice: CellLattice,
+    cell: Cell): CellEnvironment {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const concentrations: number[] = [];
+    const gradients: { x: number, y: number, z: number }[] = [];
+
+    // -1 for out of bounds or occupied neighbours
+    const open = neighbourOffsets.map((offset) => {
+        const neighbour = { x: cell.position.x + offset.x, y: cell.position.y + offset.y, z: cell.position.z + offset.z };
+        if (!lattice.isFree(neighbour)) {
+            return -1;
+        }
+        return neighbour.x + neighbour.y * dimensions.x + neighbour.z * dimensions.x * dimensions.y;
+    });
+
+    for (let s = 0; s < numSpecies; s++) {
+        const offset = s * numVoxels;
+        let sum = 0;
+        let numOpen = 0;
+        for (const idx of open) {
+            if (idx != -1) {
+                sum += field[offset + idx];
+                numOpen += 1;
+            }
+        }
+        const mean = numOpen > 0 ? sum / numOpen : 0;
+
+        // central difference where both sides are open, one sided against the mean otherwise
+        const axisGradient = (prev: number, next: number) => {
+            if (prev != -1 && next != -1) {
+                return (field[offset + next] - field[offset + prev]) / 2;
+            } else if (next != -1) {
+                return field[offset + next] - mean;
+            } else if (prev != -1) {
+                return mean - field[offset + prev];
+            }
+            return 0;
+        };
+
+        concentrations.push(mean);
+        gradients.push({
+            x: axisGradient(open[0], open[1]),
+            y: axisGradient(open[2], open[3]),
+            z: axisGradient(open[4], open[5]),
+        });
+    }
+
+    return { concentrations, gradients };
+}
+
+// Cells run their rules and lifecycle after every ruleInterval-th simulation step, in the browser
+// and in headless runs alike, so the outcome doesn't depend on how many steps a frame or an
+// advance takes. 1 reacts after every step, larger intervals save field read backs.
+export function rulesDue(step: number, ruleInterval: number) {
+    return step % Math.max(1, Math.floor(ruleInterval)) == 0;
+}
+
+// Runs every cell's rule against the field, returns true if any production or uptake rate changed
+export function applyCellRules(
+    cells: Cell[],
+    field: Float32Array,
+    dimensions: { x: number, y: number, z: number },
+    numSpecies: number,
+    lattice: CellLattice): boolean {
+    let ratesChanged = false;
+
+    for (const cell of cells) {
+        // intents only last for the step they were set in
+        cell.die = false;
+        cell.divide = false;
+        cell.move = null;
+
+        if (!cell.rule) {
+            continue;
+        }
+
+        const previousProduction = [...cell.productionRates];
+        const previousUptake = [...cell.uptakeRates];
+        cell.rule(cell, sampleEnvironment(field, dimensions, numSpecies, lattice, cell));
+
+        if (cell.productionRates.some((rate, i) => rate != previousProduction[i]) ||
+            cell.uptakeRates.some((rate, i) => rate != previousUptake[i])) {
+            ratesChanged = true;
+        }
+    }
+    return ratesChanged;
+}
+
+// unit step along the axis with the steepest gradient, in the direction of increase
+function steepestStep(gradient: { x: number, y: number, z: number }) {
+    const ax = Math.abs(gradient.x), ay = Math.abs(gradient.y), az = Math.abs(gradient.z);
+    if (ax == 0 && ay == 0 && az == 0) {
+        return null;
+    }
+    if (ax >= ay && ax >= az) {
+        return { x: Math.sign(gradient.x), y: 0, z: 0 };
+    } else if (ay >= az) {
+        return { x: 0, y: Math.sign(gradient.y), z: 0 };
+    }
+    return { x: 0, y: 0, z: Math.sign(gradient.z) };
+}
+
+// Example rules, all reading the first species
+export const cellRules: Record<string, CellRule | null> = {
+    'None': null,
+
+    // stop producing above a threshold, resume below half of it
+    'Negative Feedback': (cell, environment) => {
+        if (cell.state.baseRate === undefined) {
+            cell.state.baseRate = cell.productionRates[0];
+        }
+        if (environment.concentrations[0] > 1.0) {
+            cell.productionRates[0] = 0;
+        } else if (environment.concentrations[0] < 0.5) {
+            cell.productionRates[0] = cell.state.baseRate;
+        }
+    },
+
+    // move up the gradient
+    'Chemotaxis': (cell, environment) => {
+        cell.move = steepestStep(environment.gradients[0]);
+    },
+
+    // integrate exposure over time and divide once enough has been collected
+    'Divide On Exposure': (cell, environment) => {
+        cell.state.exposure = (cell.state.exposure ?? 0) + environment.concentrations[0];
+        if (cell.state.exposure > 100.0) {
+            cell.state.exposure = 0;
+            cell.divide = true;
+        }
+    },
+
+    // die after starving for too many steps in a row
+    'Die Without Signal': (cell, environment) => {
+        cell.state.starvation = environment.concentrations[0] < 0.1 ? (cell.state.starvation ?? 0) + 1 : 0;
+        cell.die = cell.state.starvation > 50;
+    },
+};
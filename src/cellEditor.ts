@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { Cell } from './cells';
+import { CellRenderer } from './cellRenderer';
+import { CellLattice, relocateCell, removeCell } from './lattice';
+import { SlicePlane, planeAxes } from './slices';
+
+type Position = { x: number, y: number, z: number };
+
+// What the editor needs from the app, the cell list and lattice are replaced on every reset
+export interface CellEditorHost {
+    cells: () => Cell[];
+    lattice: () => CellLattice;
+    dimensions: () => Position;
+    createCell: (position: Position) => Cell; // a new cell with the current default rates and rule
+    cellsChanged: () => void; // called after every edit, pushes the cells to the simulation and redraws them
+    selectionChanged: (cell: Cell | null) => void;
+}
+
+const clickTolerance = 4; // pixels the pointer may move for a press to still count as a click
+
+// Raycast editing in the 3D view while enabled:
+//   click on empty space      places a cell on the placement plane
+//   click on a cell           selects it
+//   shift click on a cell     places a cell against the face that was clicked
+//   drag the selected cell    moves it within the plane through it, parallel to the placement plane
+//   delete or backspace       removes the selected cell
+export class CellEditor {
+    public enabled = false;
+    public plane: SlicePlane = 'xy';
+    public planeIndex = 0;
+    public selected: Cell | null = null;
+
+    private raycaster = new THREE.Raycaster();
+    private planeHelper: THREE.Mesh;
+    private pressed: { x: number, y: number } | null = null;
+    private dragging = false;
+    private dragTarget: Position | null = null;
+
+    constructor(
+        private camera: THREE.Camera,
+        private domElement: HTMLElement,
+        private controls: OrbitControls,
+        private scene: THREE.Scene,
+        private cellRenderer: CellRenderer,
+        private host: CellEditorHost) {
+        this.planeHelper = new THREE.Mesh(
+            new THREE.PlaneGeometry(1, 1),
+            new THREE.MeshBasicMaterial({ color: 0x0090ff, transparent: true, opacity: 0.1, side: THREE.DoubleSide, depthWrite: false }));
+
+        domElement.addEventListener('pointerdown', (event) => this.onPointerDown(event));
+        domElement.addEventListener('pointermove', (event) => this.onPointerMove(event));
+        domElement.addEventListener('pointerup', (event) => this.onPointerUp(event));
+        window.addEventListener('keydown', (event) => {
+            if (this.enabled && (event.key == 'Delete' || event.key == 'Backspace') && !(event.target instanceof HTMLInputElement)) {
+                this.deleteSelected();
+            }
+        });
+    }
+
+    setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.select(null);
+        }
+        this.updatePlaneHelper();
+    }
+
+    // Shows the placement plane, call after changing plane, planeIndex or the dimensions
+    updatePlaneHelper() {
+        const dimensions = this.host.dimensions();
+        const { u, v, normal } = planeAxes[this.plane];
+        this.planeIndex = Math.min(Math.max(this.planeIndex, 0), dimensions[normal] - 1);
+
+        this.scene.remove(this.planeHelper);
+        if (!this.enabled) {
+            return;
+        }
+        this.planeHelper.scale.set(dimensions[u], dimensions[v], 1);
+        this.planeHelper.rotation.set(0, 0, 0);
+        if (this.plane == 'xz') {
+            this.planeHelper.rotation.x = Math.PI / 2;
+        } else if (this.plane == 'yz') {
+            this.planeHelper.rotation.y = Math.PI / 2;
+        }
+        const centre = { x: dimensions.x / 2, y: dimensions.y / 2, z: dimensions.z / 2 };
+        centre[normal] = this.planeIndex + 0.5;
+        this.planeHelper.position.set(centre.x, centre.y, centre.z);
+        this.scene.add(this.planeHelper);
+    }
+
+    select(cell: Cell | null) {
+        this.selected = cell;
+        this.cellRenderer.highlight(cell);
+        this.host.selectionChanged(cell);
+    }
+
+    deleteSelected() {
+        const cell = this.selected;
+        if (!cell) {
+            return;
+        }
+        this.select(null);
+        removeCell(cell, this.host.cells(), this.host.lattice());
+        this.host.cellsChanged();
+    }
+
+    // Adds a cell if the voxel is free, returns it
+    place(position: Position): Cell | null {
+        if (!this.host.lattice().isFree(position)) {
+            return null;
+        }
+        const cell = this.host.createCell(position);
+        this.host.cells().push(cell);
+        this.host.lattice().add(cell);
+        this.host.cellsChanged();
+        return cell;
+    }
+
+    private setRay(event: PointerEvent) {
+        const rect = this.domElement.getBoundingClientRect();
+        const pointer = new THREE.Vector2(
+            (event.clientX - rect.left) / rect.width * 2 - 1,
+            -(event.clientY - rect.top) / rect.height * 2 + 1);
+        this.raycaster.setFromCamera(pointer, this.camera);
+    }
+
+    private cellUnderPointer(event: PointerEvent) {
+        this.setRay(event);
+        return this.cellRenderer.raycast(this.raycaster);
+    }
+
+    // The voxel where the pointer ray crosses the plane with the given normal axis at index
+    private voxelOnPlane(event: PointerEvent, normal: 'x' | 'y' | 'z', index: number): Position | null {
+        this.setRay(event);
+        const normalVector = new THREE.Vector3(normal == 'x' ? 1 : 0, normal == 'y' ? 1 : 0, normal == 'z' ? 1 : 0);
+        const point = this.raycaster.ray.intersectPlane(new THREE.Plane(normalVector, -(index + 0.5)), new THREE.Vector3());
+        if (!point) {
+            return null;
+        }
+        const voxel = { x: Math.floor(point.x), y: Math.floor(point.y), z: Math.floor(point.z) };
+        voxel[normal] = index;
+        return this.host.lattice().inBounds(voxel) ? voxel : null;
+    }
+
+    private onPointerDown(event: PointerEvent) {
+        if (!this.enabled || event.button != 0) {
+            return;
+        }
+        this.pressed = { x: event.clientX, y: event.clientY };
+        if (this.selected && this.cellUnderPointer(event)?.cell === this.selected) {
+            // keep the camera still while dragging a cell
+            this.dragging = true;
+            this.controls.enabled = false;
+        }
+    }
+
+    private onPointerMove(event: PointerEvent) {
+        if (!this.dragging || !this.selected) {
+            return;
+        }
+        const normal = planeAxes[this.plane].normal;
+        const voxel = this.voxelOnPlane(event, normal, this.selected.position[normal]);
+        if (voxel) {
+            this.dragTarget = voxel;
+            this.cellRenderer.preview(this.selected, voxel);
+        }
+    }
+
+    private onPointerUp(event: PointerEvent) {
+        if (!this.enabled || !this.pressed) {
+            return;
+        }
+        const moved = Math.hypot(event.clientX - this.pressed.x, event.clientY - this.pressed.y);
+        this.pressed = null;
+
+        if (this.dragging) {
+            this.dragging = false;
+            this.controls.enabled = true;
+            const cell = this.selected!;
+            const target = this.dragTarget;
+            this.dragTarget = null;
+            if (moved > clickTolerance) {
+                if (target && relocateCell(cell, target, this.host.lattice())) {
+                    this.host.cellsChanged();
+                    this.host.selectionChanged(cell);
+                } else {
+                    // back to where it was, the target was taken or outside the domain
+                    this.cellRenderer.preview(cell, cell.position);
+                }
+                return;
+            }
+        }
+
+        if (moved <= clickTolerance) {
+            this.onClick(event);
+        }
+    }
+
+    private onClick(event: PointerEvent) {
+        const hit = this.cellUnderPointer(event);
+        if (hit && event.shiftKey) {
+            // the direction from the centre of the sphere to the point hit, snapped to the nearest axis
+            const { x, y, z } = hit.cell.position;
+            const normal = hit.point.clone().sub(new THREE.Vector3(x + 0.5, y + 0.5, z + 0.5));
+            const axis = (['x', 'y', 'z'] as const).reduce((best, axis) => Math.abs(normal[axis]) > Math.abs(normal[best]) ? axis : best, 'x' as 'x' | 'y' | 'z');
+            const position = { ...hit.cell.position };
+            position[axis] += Math.sign(normal[axis]);
+            this.select(this.place(position) ?? hit.cell);
+        } else if (hit) {
+            this.select(hit.cell);
+        } else {
+            const voxel = this.voxelOnPlane(event, planeAxes[this.plane].normal, this.planeIndex);
+            this.select(voxel ? this.place(voxel) : null);
+        }
+    }
+}
@@ -0,0 +1,218 @@
+import * as THREE from 'three';
+import { Cell } from './cells';
+import { cellRules, sampleEnvironment } from './behaviour';
+import { CellLattice } from './lattice';
+
+type Position = { x: number, y: number, z: number };
+
+export type CellColouring = 'uniform' | 'production' | 'concentration' | 'rule';
+
+// The field the cells are shown in, for colouring by local concentration
+export interface CellEnvironmentSource {
+    field: Float32Array;
+    dimensions: Position;
+    numSpecies: number;
+    lattice: CellLattice;
+}
+
+const uniformColour = new THREE.Color(0xf00000);
+const selectedColour = new THREE.Color(0x0090ff);
+// one per cell rule, in the order of cellRules
+const ruleColours = [0xf00000, 0x1f77b4, 0x2ca02c, 0xff7f0e, 0x9467bd, 0x8c564b, 0xe377c2, 0x17becf].map((hex) => new THREE.Color(hex));
+
+// Draws every cell in one draw call: instanced spheres, or points beyond lodThreshold cells.
+// Both keep spare capacity and are only rebuilt when the population outgrows it.
+export class CellRenderer {
+    public colouring: CellColouring = 'uniform';
+    public species = 0; // for production and concentration colouring
+    public lodThreshold = 20000;
+    public pointSize = 3; // pixels
+
+    private cells: Cell[] = [];
+    private environment: CellEnvironmentSource | null = null;
+    private highlighted: Cell | null = null;
+    private material = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.2, depthTest: true, depthWrite: false });
+    private pointsMaterial = new THREE.PointsMaterial({ vertexColors: true, transparent: true, opacity: 0.6, sizeAttenuation: false, depthWrite: false });
+    private instanced: THREE.InstancedMesh;
+    private points: THREE.Points;
+    private matrix = new THREE.Matrix4();
+    private colour = new THREE.Color();
+
+    constructor(private scene: THREE.Scene) {
+        this.instanced = this.createInstanced(256);
+        this.points = this.createPoints(256);
+        this.scene.add(this.instanced, this.points);
+    }
+
+    get opacity() {
+        return this.material.opacity;
+    }
+
+    set opacity(value: number) {
+        this.material.opacity = value;
+    }
+
+    private createInstanced(capacity: number) {
+        const instanced = new THREE.InstancedMesh(new THREE.SphereGeometry(0.5, 16, 12), this.material, capacity);
+        instanced.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        instanced.setColorAt(0, uniformColour); // creates the colour attribute
+        instanced.count = 0;
+        instanced.renderOrder = 1;
+        instanced.frustumCulled = false;
+        return instanced;
+    }
+
+    private createPoints(capacity: number) {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage));
+        geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage));
+        geometry.setDrawRange(0, 0);
+        const points = new THREE.Points(geometry, this.pointsMaterial);
+        points.renderOrder = 1;
+        points.frustumCulled = false;
+        return points;
+    }
+
+    private get usePoints() {
+        return this.cells.length > this.lodThreshold;
+    }
+
+    // Shows the given cells, call whenever they, their rates or the field they are coloured by change
+    update(cells: Cell[], environment: CellEnvironmentSource | null = null) {
+        this.cells = cells;
+        this.environment = environment;
+        if (this.highlighted && !cells.includes(this.highlighted)) {
+            this.highlighted = null;
+        }
+
+        const capacity = this.usePoints ? this.points.geometry.attributes.position.count : this.instanced.instanceMatrix.count;
+        if (cells.length > capacity) {
+            let grown = capacity;
+            while (grown < cells.length) {
+                grown *= 2;
+            }
+            if (this.usePoints) {
+                this.scene.remove(this.points);
+                this.points.geometry.dispose();
+                this.points = this.createPoints(grown);
+                this.scene.add(this.points);
+            } else {
+                this.scene.remove(this.instanced);
+                this.instanced.geometry.dispose();
+                this.instanced.dispose();
+                this.instanced = this.createInstanced(grown);
+                this.scene.add(this.instanced);
+            }
+        }
+
+        this.instanced.visible = !this.usePoints;
+        this.points.visible = this.usePoints;
+        if (this.usePoints) {
+            const positions = this.points.geometry.attributes.position as THREE.BufferAttribute;
+            cells.forEach((cell, i) => positions.setXYZ(i, cell.position.x + 0.5, cell.position.y + 0.5, cell.position.z + 0.5));
+            positions.needsUpdate = true;
+            this.points.geometry.setDrawRange(0, cells.length);
+            this.points.geometry.computeBoundingSphere();
+            this.pointsMaterial.size = this.pointSize;
+        } else {
+            cells.forEach((cell, i) => this.setInstancePosition(i, cell.position));
+            this.instanced.count = cells.length;
+            this.instanced.instanceMatrix.needsUpdate = true;
+        }
+        this.updateColours();
+    }
+
+    // Recolours without moving anything, e.g. after changing the colouring
+    updateColours() {
+        const values = this.colourValues();
+        let min = Infinity;
+        let max = -Infinity;
+        values?.forEach((value) => {
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+        });
+        const ruleNames = Object.keys(cellRules);
+
+        this.cells.forEach((cell, i) => {
+            if (cell === this.highlighted) {
+                this.colour.copy(selectedColour);
+            } else if (values) {
+                // blue for the lowest value among the cells to red for the highest
+                const t = max > min ? (values[i] - min) / (max - min) : 0.5;
+                this.colour.setHSL((1 - t) * 0.66, 1, 0.5);
+            } else if (this.colouring == 'rule') {
+                const rule = ruleNames.findIndex((name) => cellRules[name] === cell.rule);
+                this.colour.copy(ruleColours[Math.max(rule, 0) % ruleColours.length]);
+            } else {
+                this.colour.copy(uniformColour);
+            }
+
+            if (this.usePoints) {
+                (this.points.geometry.attributes.color as THREE.BufferAttribute).setXYZ(i, this.colour.r, this.colour.g, this.colour.b);
+            } else {
+                this.instanced.setColorAt(i, this.colour);
+            }
+        });
+        this.points.geometry.attributes.color.needsUpdate = true;
+        this.instanced.instanceColor!.needsUpdate = true;
+    }
+
+    // one value per cell for the continuous colourings, null for the others
+    private colourValues(): number[] | null {
+        if (this.colouring == 'production') {
+            return this.cells.map((cell) => cell.productionRates[this.species] ?? 0);
+        }
+        if (this.colouring == 'concentration' && this.environment) {
+            const { field, dimensions, numSpecies, lattice } = this.environment;
+            if (this.species >= numSpecies) {
+                return null;
+            }
+            return this.cells.map((cell) => sampleEnvironment(field, dimensions, numSpecies, lattice, cell).concentrations[this.species]);
+        }
+        return null;
+    }
+
+    highlight(cell: Cell | null) {
+        this.highlighted = cell;
+        this.updateColours();
+    }
+
+    // Draws a cell somewhere other than its position until the next update, e.g. while it is dragged
+    preview(cell: Cell, position: Position) {
+        const i = this.cells.indexOf(cell);
+        if (i < 0) {
+            return;
+        }
+        if (this.usePoints) {
+            const positions = this.points.geometry.attributes.position as THREE.BufferAttribute;
+            positions.setXYZ(i, position.x + 0.5, position.y + 0.5, position.z + 0.5);
+            positions.needsUpdate = true;
+        } else {
+            this.setInstancePosition(i, position);
+            this.instanced.instanceMatrix.needsUpdate = true;
+        }
+    }
+
+    private setInstancePosition(i: number, position: Position) {
+        this.matrix.makeTranslation(position.x + 0.5, position.y + 0.5, position.z + 0.5);
+        this.instanced.setMatrixAt(i, this.matrix);
+    }
+
+    // The cell nearest the ray and where the ray hits it
+    raycast(raycaster: THREE.Raycaster): { cell: Cell, point: THREE.Vector3 } | null {
+        let hit: THREE.Intersection | undefined;
+        if (this.usePoints) {
+            raycaster.params.Points = { threshold: 0.5 };
+            hit = raycaster.intersectObject(this.points, false)[0];
+        } else {
+            // the bounding sphere is cached, the instances may have moved since
+            this.instanced.computeBoundingSphere();
+            hit = raycaster.intersectObject(this.instanced, false)[0];
+        }
+        const index = hit?.instanceId ?? hit?.index;
+        if (!hit || index === undefined || !this.cells[index]) {
+            return null;
+        }
+        return { cell: this.cells[index], point: hit.point };
+    }
+}
@@ -1,26 +1,18 @@
-import * as THREE from 'three';
+import type { CellRule } from './behaviour';
 
 export class Cell {
-    public mesh: THREE.Mesh;
+    // behaviour, see applyCellRules
+    public rule: CellRule | null = null;
+    public state: Record<string, number> = {};
+    public die = false;
+    public divide = false;
+    public move: { x: number, y: number, z: number } | null = null;
 
-    constructor(public position: { x: number, y: number, z: number }, public productionRate: number) {
+    // one production and uptake rate per species, uptake is first order in the neighbouring voxels' concentration
+    constructor(public position: { x: number, y: number, z: number }, public productionRates: number[], public uptakeRates: number[] = []) {
         this.position = position;
-        const radius = 0.5; // Fixed radius instead of parameter
-
-        const geometry = new THREE.SphereGeometry(radius, 32, 32);
-        const material = new THREE.MeshBasicMaterial({
-            color: 0xf00000,
-            transparent: true,
-            opacity: 0.2,
-            depthTest: true,
-            depthWrite: false
-        });
-
-        this.mesh = new THREE.Mesh(geometry, material);
-        this.mesh.position.set(position.x + 0.5, position.y + 0.5, position.z + 0.5);
-        this.mesh.renderOrder = 1;
-
-        this.productionRate = productionRate;
+        this.productionRates = productionRates;
+        this.uptakeRates = uptakeRates;
     }
 }
 
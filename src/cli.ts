@@ -0,0 +1,172 @@
+/// <reference types="node" />
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { noExpressions } from "./expressions";
+import { HeadlessRun } from "./headless";
+import { SteadyStateDetector, computeMetrics, meanRadialProfile } from "./metrics";
+import { random } from "./random";
+import { defaultReaction } from "./reactions";
+import { Scenario, loadScenario, parseScenario } from "./scenario";
+import { saveCell, serializeState } from "./stateFile";
+
+const usage = `Runs a scenario without the browser, writing snapshots and summary statistics.
+
+usage: npm run sim -- <scenario.json> [options]
+
+  --steps <n>          simulation steps to run (default 1000)
+  --iterations <n>     simulation steps between steady state checks, like Iterations Per Frame (default 1)
+  --rule-interval <n>  simulation steps between cell rule updates, like Rule Interval (default 1)
+  --snapshot <n>       write a snapshot and its metrics every n steps, 0 for only the last one (default 100)
+  --out <dir>          output directory (default out)
+  --dt <value>         override the time step
+  --seed <n>           override the random seed
+  --diffusion <value>  override the diffusion constant of every species, or one with <index>=<value>
+  --decay <value>      override the decay rate of every species, or one with <index>=<value>
+  --method <name>      override the integration method, explicit or implicit
+  --help               show this message
+`;
+
+// "2" sets every species, "1=2" only species 1
+function overrideSpecies(scenario: Scenario, name: string, arg: string, property: 'diffusionConstant' | 'decayRate') {
+    scenario.species = scenario.species ?? [{ name: 'Morphogen A', diffusionConstant: 1.0, decayRate: 0.0 }];
+    if (!arg.includes('=')) {
+        const number = numberOption(name, arg, 'rate');
+        scenario.species.forEach((species) => species[property] = number);
+        return;
+    }
+    const [index, value] = arg.split('=', 2);
+    const i = index.trim() == '' ? NaN : Number(index);
+    if (!Number.isInteger(i) || i < 0 || i >= scenario.species.length) {
+        throw new Error(`--${name} takes <index>=<value> with an index below ${scenario.species.length}, the number of species, ` +
+            `not '${arg}'\n\n${usage}`);
+    }
+    scenario.species[i][property] = numberOption(name, value, 'rate');
+}
+
+const numberKinds = {
+    positive: { description: 'a positive number', valid: (n: number) => n > 0 },
+    whole: { description: 'a whole number', valid: (n: number) => Number.isInteger(n) && n >= 0 },
+    count: { description: 'a positive integer', valid: (n: number) => Number.isInteger(n) && n >= 1 },
+    rate: { description: 'a number of at least 0', valid: (n: number) => n >= 0 },
+};
+
+// Reads a numeric option, with a usage error when it isn't the kind of number the option takes
+function numberOption(name: string, value: string, kind: keyof typeof numberKinds) {
+    const number = value.trim() == '' ? NaN : Number(value);
+    if (!Number.isFinite(number) || !numberKinds[kind].valid(number)) {
+        throw new Error(`--${name} takes ${numberKinds[kind].description}, not '${value}'\n\n${usage}`);
+    }
+    return number;
+}
+
+// quoted when it holds a comma, quote or line break, with quotes doubled
+function csvField(value: string) {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            steps: { type: 'string', default: '1000' },
+            iterations: { type: 'string', default: '1' },
+            'rule-interval': { type: 'string', default: '1' },
+            snapshot: { type: 'string', default: '100' },
+            out: { type: 'string', default: 'out' },
+            dt: { type: 'string' },
+            seed: { type: 'string' },
+            diffusion: { type: 'string', multiple: true },
+            decay: { type: 'string', multiple: true },
+            method: { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+
+    if (values.help || positionals.length != 1) {
+        console.log(usage);
+        process.exit(values.help ? 0 : 1);
+    }
+
+    const scenario = parseScenario(readFileSync(positionals[0], 'utf8'));
+    if (values.dt !== undefined) {
+        scenario.deltaTime = numberOption('dt', values.dt, 'positive');
+    }
+    if (values.seed !== undefined) {
+        scenario.seed = numberOption('seed', values.seed, 'whole');
+    }
+    if (values.method !== undefined) {
+        if (values.method != 'explicit' && values.method != 'implicit') {
+            throw new Error(`Unknown integration method ${values.method}`);
+        }
+        scenario.integration = { ...scenario.integration, method: values.method };
+    }
+    values.diffusion?.forEach((arg) => overrideSpecies(scenario, 'diffusion', arg, 'diffusionConstant'));
+    values.decay?.forEach((arg) => overrideSpecies(scenario, 'decay', arg, 'decayRate'));
+
+    const steps = numberOption('steps', values.steps!, 'count');
+    const iterations = numberOption('iterations', values.iterations!, 'count');
+    const ruleInterval = numberOption('rule-interval', values['rule-interval']!, 'count');
+    const snapshotEvery = numberOption('snapshot', values.snapshot!, 'whole');
+    const out = values.out!;
+    mkdirSync(out, { recursive: true });
+
+    random.reseed(scenario.seed ?? 1);
+    const setup = loadScenario(scenario);
+    setup.warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+    const run = await HeadlessRun.create(setup, ruleInterval);
+    console.log(`${scenario.name ?? positionals[0]}: ${setup.cells.length} cells, ${steps} steps on ${run.simulation.backend}`);
+
+    const steadyState = new SteadyStateDetector();
+    const summary = ['step,time,cells,species,total,min,max,mean,centre x,centre y,centre z,mean cell gradient,steady step'];
+    const record = () => {
+        const metrics = computeMetrics(run.field, setup.dimensions, setup.species.map((species) => species.name), run.cells, run.lattice);
+        for (const m of metrics) {
+            summary.push([
+                run.step, run.time, run.cells.length, csvField(m.species), m.total, m.min, m.max, m.mean,
+                m.centreOfMass?.x ?? '', m.centreOfMass?.y ?? '', m.centreOfMass?.z ?? '', m.meanCellGradient, steadyState.steadyStep ?? '',
+            ].join(','));
+        }
+        writeFileSync(join(out, 'summary.csv'), summary.join('\n') + '\n');
+        return metrics;
+    };
+    const snapshot = (metrics: ReturnType<typeof record>) => {
+        const buffer = serializeState({
+            dimensions: setup.dimensions,
+            species: setup.species,
+            deltaTime: setup.deltaTime,
+            boundaries: setup.boundaries,
+            integration: setup.integration,
+            cells: run.cells.map(saveCell),
+            random: { seed: random.seed, state: random.getState() },
+            flow: { preset: 'none', speed: 0, axis: 'x' },
+            reaction: defaultReaction('None'),
+            expressions: noExpressions(),
+            settings: { simIterationsPerFrame: iterations, ruleInterval },
+        }, run.field);
+        const name = `step_${String(run.step).padStart(6, '0')}`;
+        writeFileSync(join(out, `${name}.celldev`), new Uint8Array(buffer));
+        writeFileSync(join(out, `${name}.metrics.json`), JSON.stringify(metrics.map((m) => ({
+            ...m,
+            meanRadialProfile: meanRadialProfile(m.radialProfiles),
+        }))));
+    };
+
+    record();
+    let nextSnapshot = snapshotEvery > 0 ? snapshotEvery : steps;
+    while (run.step < steps) {
+        await run.advance(Math.min(iterations, steps - run.step));
+        steadyState.update(run.field, run.step);
+        if (run.step >= nextSnapshot || run.step == steps) {
+            snapshot(record());
+            console.log(`step ${run.step}/${steps}, ${run.cells.length} cells`);
+            nextSnapshot += snapshotEvery > 0 ? snapshotEvery : steps;
+        }
+    }
+    await run.cleanup();
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
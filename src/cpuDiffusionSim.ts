@@ -0,0 +1,383 @@
+import { Cell } from "./cells";
+import { FlowField, maxFlowSpeed } from "./flow";
+import { stableSubsteps } from "./integration";
+import { Medium, faceDiffusivity, maxDiffusivity } from "./medium";
+import { DiffusionSim, obstacleIndex } from "./processVolume";
+import { Reaction, ReactionModel, reactionModels } from "./reactions";
+import { CustomExpressions, ExpressionError, ExpressionFunction, checkNames, expressionFunctions } from "./expressions";
+import type { Boundaries, Integration, Simulation, Species } from "./simulation";
+
+// Pure TypeScript port of diffusionShader and jacobiShader, used when WebGPU is unavailable and as a reference for the GPU output
+export class CpuDiffusionSim implements Simulation {
+    public readonly backend = 'cpu';
+    private dimensions: { x: number, y: number, z: number };
+    private numSpecies: number;
+
+    private concentration: Float32Array;
+    private concentrationOutput: Float32Array;
+    private jacobiScratch: Float32Array;
+    private cellIndices: Int32Array;
+    private cellData: Float32Array;
+    private cells: Cell[];
+    private obstacles: Uint8Array | null = null;
+    private diffusivity: Float32Array;
+    private maxDiffusivity = 1;
+    private velocity: Float32Array;
+    private maxFlowSpeed = 0;
+    private reactionModel: ReactionModel | null = null;
+    private reactionCoefficients: number[] = [];
+    // per species, null where it has no expression, see expressionFunctions
+    private reactionExpressions: (ExpressionFunction | null)[] = [];
+    private secretionExpressions: (ExpressionFunction | null)[] = [];
+    private parameterValues: number[] = [];
+
+    private species: Species[];
+    private deltaTime: number;
+    private boundaries: Boundaries;
+    private integration: Integration;
+
+    // scratch space for the 6 neighbour indices of the current voxel
+    private neighbours = new Int32Array(6);
+
+    constructor(
+        dimensions: { x: number, y: number, z: number },
+        concentrationData: Float32Array,
+        species: Species[],
+        deltaTime: number,
+        cells: Cell[],
+        boundaries: Boundaries,
+        integration: Integration) {
+        this.dimensions = { ...dimensions };
+        this.numSpecies = species.length;
+        this.concentration = new Float32Array(concentrationData);
+        this.concentrationOutput = new Float32Array(concentrationData.length);
+        this.jacobiScratch = new Float32Array(concentrationData.length);
+        this.cells = cells;
+        this.cellIndices = DiffusionSim.buildCellIndices(cells, this.dimensions);
+        this.cellData = DiffusionSim.flattenCells(cells, this.numSpecies);
+        this.diffusivity = new Float32Array(concentrationData.length / this.numSpecies).fill(1);
+        this.velocity = new Float32Array(concentrationData.length / this.numSpecies * 3);
+        this.species = structuredClone(species);
+        this.deltaTime = deltaTime;
+        this.boundaries = structuredClone(boundaries);
+        this.integration = { ...integration };
+    }
+
+    setSpeciesConstants(species: Species[], deltaTime: number) {
+        this.species = structuredClone(species);
+        this.deltaTime = deltaTime;
+    }
+
+    setIntegration(integration: Integration) {
+        this.integration = { ...integration };
+    }
+
+    setBoundaries(boundaries: Boundaries) {
+        this.boundaries = structuredClone(boundaries);
+    }
+
+    setDeltaTime(value: number) {
+        this.deltaTime = value;
+    }
+
+    updateCells(cells: Cell[]) {
+        this.cells = cells;
+        this.cellData = DiffusionSim.flattenCells(cells, this.numSpecies);
+        this.cellIndices = DiffusionSim.buildCellIndices(cells, this.dimensions, this.obstacles);
+    }
+
+    setMedium(medium: Medium) {
+        this.diffusivity = new Float32Array(medium.diffusivity);
+        this.obstacles = new Uint8Array(medium.obstacles);
+        this.maxDiffusivity = maxDiffusivity(medium);
+        this.cellIndices = DiffusionSim.buildCellIndices(this.cells, this.dimensions, this.obstacles);
+    }
+
+    setReaction(reaction: Reaction) {
+        this.reactionModel = reactionModels[reaction.model] ?? null;
+        this.reactionCoefficients = reaction.coefficients.map(Math.fround);
+    }
+
+    // Keeps the previous expressions if the new ones have errors, like DiffusionSim.setExpressions
+    async setExpressions(expressions: CustomExpressions): Promise<ExpressionError[]> {
+        const names = checkNames(this.species, expressions);
+        if (names.length > 0) {
+            return names;
+        }
+        const { reaction, secretion, errors } = expressionFunctions(this.species, expressions);
+        if (errors.length > 0) {
+            return errors;
+        }
+        this.reactionExpressions = reaction;
+        this.secretionExpressions = secretion;
+        this.parameterValues = Array.from(DiffusionSim.flattenParameters(expressions.parameters).subarray(0, expressions.parameters.length));
+        return [];
+    }
+
+    // mean concentration of species s over the open voxels around the cell at the current voxel, see surrounding_concentration
+    private surroundingConcentration(s: number) {
+        const numVoxels = this.dimensions.x * this.dimensions.y * this.dimensions.z;
+        let total = 0;
+        let count = 0;
+        for (const neighbour of this.neighbours) {
+            if (neighbour != -1 && this.cellIndices[neighbour] == -1) {
+                total += this.concentration[s * numVoxels + neighbour];
+                count += 1;
+            }
+        }
+        return count > 0 ? total / count : 0;
+    }
+
+    setFlow(flow: FlowField) {
+        this.velocity = new Float32Array(flow.velocity);
+        this.maxFlowSpeed = maxFlowSpeed(flow);
+    }
+
+    // fills this.neighbours with the indices of the 6 neighbours (x prev, x next, y prev, ...),
+    // wrapping around periodic boundaries, -1 if out of bounds otherwise
+    private findNeighbours(x: number, y: number, z: number) {
+        const { x: dimX, y: dimY, z: dimZ } = this.dimensions;
+        const px = this.boundaries.x.type == 'periodic';
+        const py = this.boundaries.y.type == 'periodic';
+        const pz = this.boundaries.z.type == 'periodic';
+        const index = (x: number, y: number, z: number) => x + y * dimX + z * dimX * dimY;
+        const n = this.neighbours;
+        n[0] = x == 0 ? (px ? index(dimX - 1, y, z) : -1) : index(x - 1, y, z);
+        n[1] = x + 1 == dimX ? (px ? index(0, y, z) : -1) : index(x + 1, y, z);
+        n[2] = y == 0 ? (py ? index(x, dimY - 1, z) : -1) : index(x, y - 1, z);
+        n[3] = y + 1 == dimY ? (py ? index(x, 0, z) : -1) : index(x, y + 1, z);
+        n[4] = z == 0 ? (pz ? index(x, y, dimZ - 1) : -1) : index(x, y, z - 1);
+        n[5] = z + 1 == dimZ ? (pz ? index(x, y, 0) : -1) : index(x, y, z + 1);
+    }
+
+    // flow through face i of voxel idx, positive out of it, see face_velocity in commonShader
+    private faceVelocity(idx: number, i: number) {
+        const axis = i >> 1;
+        const direction = i % 2 == 0 ? -1 : 1;
+        const neighbour = this.neighbours[i];
+        const own = this.velocity[idx * 3 + axis];
+        return direction * (neighbour == -1 ? own : Math.fround(0.5 * (own + this.velocity[neighbour * 3 + axis])));
+    }
+
+    async process() {
+        if (this.integration.method == 'implicit') {
+            // diffusion, decay and advection are solved by the jacobi iterations, the explicit step only adds cell production,
+            // uptake and reactions
+            this.explicitStep(new Float32Array(this.numSpecies * 2), Math.fround(this.deltaTime), 0);
+
+            const speciesData = DiffusionSim.flattenSpecies(this.species, this.deltaTime);
+            const iterations = Math.max(2, this.integration.iterations + this.integration.iterations % 2);
+            // the explicit step left the right hand side in concentration and the previous field in concentrationOutput
+            let guess = this.concentrationOutput;
+            let next = this.jacobiScratch;
+            for (let i = 0; i < iterations; i++) {
+                this.jacobiIteration(this.concentration, guess, next, speciesData, Math.fround(this.deltaTime));
+                [guess, next] = [next, guess];
+            }
+            this.concentrationOutput = this.concentration;
+            this.concentration = guess;
+            this.jacobiScratch = next;
+        } else {
+            const substeps = this.integration.autoSubstep ?
+                stableSubsteps(this.species, this.deltaTime, this.maxDiffusivity, this.maxFlowSpeed) : 1;
+            const speciesData = DiffusionSim.flattenSpecies(this.species, this.deltaTime / substeps);
+            for (let i = 0; i < substeps; i++) {
+                this.explicitStep(speciesData, Math.fround(this.deltaTime / substeps), Math.fround(this.deltaTime / substeps));
+            }
+        }
+    }
+
+    // speciesData holds the combined diffusion constant and decay constant per species, see DiffusionSim.flattenSpecies
+    // advection is the time step to move along the flow by, 0 when the jacobi iterations do that
+    private explicitStep(speciesData: Float32Array, deltaTime: number, advection: number) {
+        const { x: dimX, y: dimY, z: dimZ } = this.dimensions;
+        const input = this.concentration;
+        const output = this.concentrationOutput;
+        const cellIndices = this.cellIndices;
+        const diffusivity = this.diffusivity;
+        const n = this.neighbours;
+        const numVoxels = dimX * dimY * dimZ;
+        const cellStride = 3 + this.numSpecies * 2;
+        const boundaries = [this.boundaries.x, this.boundaries.y, this.boundaries.z];
+        output.fill(0);
+
+        for (let z = 0; z < dimZ; z++) {
+            for (let y = 0; y < dimY; y++) {
+                for (let x = 0; x < dimX; x++) {
+                    const idx = x + y * dimX + z * dimX * dimY;
+                    this.findNeighbours(x, y, z);
+
+                    const thisPositionCellIdx = cellIndices[idx];
+                    // obstacles hold nothing, the output is already zero
+                    if (thisPositionCellIdx == obstacleIndex) {
+                        continue;
+                    }
+                    // is this a cell?
+                    if (thisPositionCellIdx != -1) {
+                        // in bounds voxels without a cell or obstacle are open, out of bounds ones only on fixed value boundaries
+                        let numOpen = 0;
+                        for (let i = 0; i < 6; i++) {
+                            if (n[i] == -1) {
+                                if (boundaries[i >> 1].type == 'dirichlet') {
+                                    numOpen += 1;
+                                }
+                            } else if (cellIndices[n[i]] == -1) {
+                                numOpen += 1;
+                            }
+                        }
+
+                        for (let s = 0; s < this.numSpecies; s++) {
+                            const offset = s * numVoxels;
+                            // as its secretion expression has it, see custom_secretion
+                            const productionRate = this.cellData[thisPositionCellIdx * cellStride + 3 + s];
+                            const uptakeRate = this.cellData[thisPositionCellIdx * cellStride + 3 + this.numSpecies + s];
+                            const secretion = this.secretionExpressions[s];
+                            const cellProductionRate = secretion ? Math.fround(secretion(
+                                ...this.species.map((_, f) => this.surroundingConcentration(f)),
+                                ...this.parameterValues, productionRate, uptakeRate)) : productionRate;
+                            const cellProduction = cellProductionRate * deltaTime;
+                            const cellProductionPerOpen = cellProduction / numOpen;
+
+                            // production onto the boundary is lost
+                            for (let i = 0; i < 6; i++) {
+                                if (n[i] != -1 && cellIndices[n[i]] == -1) {
+                                    output[offset + n[i]] += cellProductionPerOpen;
+                                }
+                            }
+                        }
+                    } else {
+                        const ownDiffusivity = diffusivity[idx];
+                        // the reactions between the first two species, see reaction_rates
+                        const reactionRates = this.reactionModel && this.numSpecies >= 2 ?
+                            this.reactionModel.rates(input[idx], input[numVoxels + idx], this.reactionCoefficients) : [0, 0];
+                        for (let s = 0; s < this.numSpecies; s++) {
+                            const offset = s * numVoxels;
+                            // open neighbours weighted by the diffusivity of the face to them
+                            let sumOpen = 0.0;
+                            let weightOpen = 0.0;
+                            let uptakeConstant = 0.0;
+                            // upwind: what flows in brings the upstream concentration, what flows out takes this one
+                            let inflow = 0.0;
+                            let outflow = 0.0;
+
+                            // fixed value boundaries are open with the boundary value, zero flux boundaries are closed
+                            // in bounds voxels without a cell add their concentration, voxels with a cell are closed and take up from this one
+                            // obstacles are closed
+                            for (let i = 0; i < 6; i++) {
+                                if (n[i] == -1) {
+                                    if (boundaries[i >> 1].type == 'dirichlet') {
+                                        sumOpen += ownDiffusivity * Math.fround(boundaries[i >> 1].value);
+                                        weightOpen += ownDiffusivity;
+                                        const velocity = this.faceVelocity(idx, i);
+                                        inflow += Math.max(-velocity, 0) * Math.fround(boundaries[i >> 1].value);
+                                        outflow += Math.max(velocity, 0);
+                                    }
+                                } else if (cellIndices[n[i]] == -1) {
+                                    const face = Math.fround(faceDiffusivity(ownDiffusivity, diffusivity[n[i]]));
+                                    sumOpen += face * input[offset + n[i]];
+                                    weightOpen += face;
+                                    const velocity = this.faceVelocity(idx, i);
+                                    inflow += Math.max(-velocity, 0) * input[offset + n[i]];
+                                    outflow += Math.max(velocity, 0);
+                                } else if (cellIndices[n[i]] != obstacleIndex) {
+                                    uptakeConstant += this.cellData[cellIndices[n[i]] * cellStride + 3 + this.numSpecies + s] * deltaTime;
+                                }
+                            }
+
+                            const concentration = input[offset + idx];
+                            const diffusionTerm = speciesData[s * 2] * (sumOpen - weightOpen * concentration);
+                            const decayTerm = speciesData[s * 2 + 1] * concentration;
+                            // neighbouring cells can't take up more than there is
+                            const uptakeTerm = Math.min(uptakeConstant, 1.0) * concentration;
+                            const advectionTerm = advection * (inflow - outflow * concentration);
+                            const expression = this.reactionExpressions[s];
+                            const customRate = expression ? Math.fround(expression(
+                                ...this.species.map((_, f) => input[f * numVoxels + idx]), ...this.parameterValues)) : 0;
+                            const reactionTerm = deltaTime * customRate + (s < 2 ? deltaTime * reactionRates[s] : 0);
+
+                            output[offset + idx] += concentration + diffusionTerm - decayTerm - uptakeTerm + advectionTerm + reactionTerm;
+                        }
+                    }
+                }
+            }
+        }
+
+        // the GPU copies the output back into the input buffer, here we can just swap
+        this.concentrationOutput = this.concentration;
+        this.concentration = output;
+    }
+
+    // One iteration of the backward Euler step, see jacobiShader. Reads the right hand side from rhs and
+    // the previous iterate from guess, advection is the time step to move along the flow by.
+    private jacobiIteration(rhs: Float32Array, guess: Float32Array, output: Float32Array, speciesData: Float32Array, advection: number) {
+        const { x: dimX, y: dimY, z: dimZ } = this.dimensions;
+        const cellIndices = this.cellIndices;
+        const diffusivity = this.diffusivity;
+        const n = this.neighbours;
+        const numVoxels = dimX * dimY * dimZ;
+        const boundaries = [this.boundaries.x, this.boundaries.y, this.boundaries.z];
+
+        for (let z = 0; z < dimZ; z++) {
+            for (let y = 0; y < dimY; y++) {
+                for (let x = 0; x < dimX; x++) {
+                    const idx = x + y * dimX + z * dimX * dimY;
+
+                    // voxels holding a cell or obstacle stay empty
+                    if (cellIndices[idx] != -1) {
+                        for (let s = 0; s < this.numSpecies; s++) {
+                            output[s * numVoxels + idx] = 0;
+                        }
+                        continue;
+                    }
+
+                    this.findNeighbours(x, y, z);
+                    const ownDiffusivity = diffusivity[idx];
+                    for (let s = 0; s < this.numSpecies; s++) {
+                        const offset = s * numVoxels;
+                        let sumOpen = 0.0;
+                        let weightOpen = 0.0;
+                        let inflow = 0.0;
+                        let outflow = 0.0;
+
+                        for (let i = 0; i < 6; i++) {
+                            if (n[i] == -1) {
+                                if (boundaries[i >> 1].type == 'dirichlet') {
+                                    sumOpen += ownDiffusivity * Math.fround(boundaries[i >> 1].value);
+                                    weightOpen += ownDiffusivity;
+                                    const velocity = this.faceVelocity(idx, i);
+                                    inflow += Math.max(-velocity, 0) * Math.fround(boundaries[i >> 1].value);
+                                    outflow += Math.max(velocity, 0);
+                                }
+                            } else if (cellIndices[n[i]] == -1) {
+                                const face = Math.fround(faceDiffusivity(ownDiffusivity, diffusivity[n[i]]));
+                                sumOpen += face * guess[offset + n[i]];
+                                weightOpen += face;
+                                const velocity = this.faceVelocity(idx, i);
+                                inflow += Math.max(-velocity, 0) * guess[offset + n[i]];
+                                outflow += Math.max(velocity, 0);
+                            }
+                        }
+
+                        const combinedConstant = speciesData[s * 2];
+                        const diagonal = 1.0 + combinedConstant * weightOpen + speciesData[s * 2 + 1] + advection * outflow;
+                        output[offset + idx] = (rhs[offset + idx] + combinedConstant * sumOpen + advection * inflow) / diagonal;
+                    }
+                }
+            }
+        }
+    }
+
+    async readResults(): Promise<Float32Array<ArrayBuffer> | null> {
+        return new Float32Array(this.concentration);
+    }
+
+    async cleanup() {
+        this.concentration = new Float32Array(0);
+        this.concentrationOutput = new Float32Array(0);
+        this.jacobiScratch = new Float32Array(0);
+        this.cellIndices = new Int32Array(0);
+        this.cellData = new Float32Array(0);
+        this.diffusivity = new Float32Array(0);
+        this.velocity = new Float32Array(0);
+    }
+}
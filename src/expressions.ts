@@ -0,0 +1,789 @@
+import type { Species } from "./simulation";
+
+// A named constant the expressions can use, edited without recompiling
+export interface ExpressionParameter {
+    name: string;
+    value: number;
+}
+
+// User written terms added to the model without editing the shaders. Each is a WGSL expression, or a
+// snippet of statements ending in a return, over the species (by fieldNames) and the parameters.
+export interface CustomExpressions {
+    parameters: ExpressionParameter[];
+    reaction: string[]; // per species, its rate of change, added to any reaction model. Empty for none.
+    // per species, the rate a cell produces it at, which can also use production and uptake, the cell's
+    // own rates. The species are the mean over the open voxels around the cell. Empty for production.
+    secretion: string[];
+}
+
+// label is the GUI name of the expression the error is in, empty if it isn't in one
+export interface ExpressionError {
+    label: string;
+    message: string;
+}
+
+// where each expression ended up in the generated shader, to point compiler messages back at them
+export interface ExpressionSource {
+    label: string;
+    firstLine: number;
+    lastLine: number;
+}
+
+// the parameters are a uniform array of vec4s, see parameters in diffusionShader
+export const maxParameters = 16;
+
+export function noExpressions(): CustomExpressions {
+    return { parameters: [], reaction: [], secretion: [] };
+}
+
+const identifier = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// For expressions read from a file, whether they have the right shape. What they say is checked when compiled.
+export function isCustomExpressions(value: unknown): value is CustomExpressions {
+    const expressions = value as CustomExpressions;
+    const isStrings = (list: unknown) => Array.isArray(list) && list.every((item) => typeof item == 'string');
+    return typeof value == 'object' && value !== null &&
+        Array.isArray(expressions.parameters) &&
+        expressions.parameters.every((parameter) => typeof parameter?.name == 'string' && typeof parameter.value == 'number') &&
+        isStrings(expressions.reaction) && isStrings(expressions.secretion);
+}
+
+// The species as identifiers: lower case, without anything in brackets, so 'U (substrate)' is u and
+// 'Morphogen A' is morphogen_a. Clashes get the species index appended.
+export function fieldNames(species: Species[]) {
+    const names: string[] = [];
+    species.forEach((s, i) => {
+        let name = s.name.replace(/\(.*?\)/g, '').trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+        if (!identifier.test(name)) {
+            name = `s${i}`;
+        }
+        if (names.includes(name)) {
+            name = `${name}_${i}`;
+        }
+        names.push(name);
+    });
+    return names;
+}
+
+export function reactionLabel(field: string) {
+    return `d${field}/dt`;
+}
+
+export function secretionLabel(field: string) {
+    return `${field} secretion`;
+}
+
+// WGSL keywords and reserved words, which can't be names at all
+const wgslKeywords = new Set((
+    'alias break case const const_assert continue continuing default diagnostic discard else enable false fn for if let ' +
+    'loop override requires return struct switch true var while ' +
+    'NULL Self abstract active alignas alignof as asm asm_fragment async attribute auto await become binding_array cast ' +
+    'catch class co_await co_return co_yield coherent column_major common compile compile_fragment concept const_cast ' +
+    'consteval constexpr constinit crate debugger decltype delete demote demote_to_helper do dynamic_cast enum explicit ' +
+    'export extends extern external fallthrough filter final finally friend from fxgroup get goto groupshared highp impl ' +
+    'implements import inline instanceof interface layout lowp macro macro_rules match mediump meta mod module move mut ' +
+    'mutable namespace new nil noexcept noinline nointerpolation noperspective null nullptr of operator package packoffset ' +
+    'partition pass patch pixelfragment precise precision premerge priv protected pub public readonly ref regardless ' +
+    'register reinterpret_cast require resource restrict self set shared sizeof smooth snorm static static_assert ' +
+    'static_cast std subroutine super target template this thread_local throw trait try type typedef typeid typename ' +
+    'typeof union unless unorm unsafe unsized use using varying virtual volatile wgsl where with writeonly yield').split(' '));
+
+// WGSL builtin functions and types an expression might use, which a name of the same would hide
+const wgslBuiltins = new Set([
+    ...('abs acos acosh all any asin asinh atan atan2 atanh bitcast ceil clamp cos cosh countLeadingZeros countOneBits ' +
+        'countTrailingZeros cross degrees determinant distance dot exp exp2 extractBits faceForward firstLeadingBit ' +
+        'firstTrailingBit floor fma fract frexp insertBits inverseSqrt ldexp length log log2 max min mix modf normalize ' +
+        'pow quantizeToF16 radians reflect refract reverseBits round saturate select sign sin sinh smoothstep sqrt step ' +
+        'tan tanh transpose trunc array atomic bool f16 f32 i32 u32 ptr sampler').split(' '),
+    ...[2, 3, 4].flatMap((n) => [`vec${n}`, ...['f', 'h', 'i', 'u'].map((suffix) => `vec${n}${suffix}`),
+        ...[2, 3, 4].flatMap((m) => [`mat${n}x${m}`, `mat${n}x${m}f`, `mat${n}x${m}h`])]),
+]);
+
+// why a name can't be used in the expressions, or null if it can
+function reservedName(name: string) {
+    if (wgslKeywords.has(name)) {
+        return 'a WGSL keyword';
+    }
+    if (wgslBuiltins.has(name)) {
+        return 'a WGSL builtin';
+    }
+    if (name == 'production' || name == 'uptake') {
+        return "the cell's own rate in secretion";
+    }
+    return null;
+}
+
+// Names the compilers would only report confusingly, the rest is left to them. The species only
+// become names in the generated code when there are expressions.
+export function checkNames(species: Species[], expressions: CustomExpressions): ExpressionError[] {
+    const errors: ExpressionError[] = [];
+    const fields = fieldNames(species);
+    if (expressions.parameters.length > maxParameters) {
+        errors.push({ label: '', message: `at most ${maxParameters} parameters` });
+    }
+    if ([...expressions.reaction, ...expressions.secretion].some((source) => source.trim())) {
+        fields.forEach((field, i) => {
+            const reason = reservedName(field);
+            if (reason) {
+                errors.push({ label: '', message: `species '${species[i].name}' is '${field}' in expressions, which is ${reason}, rename the species` });
+            }
+        });
+    }
+    const seen = new Set([...fields, 'production', 'uptake']);
+    for (const { name } of expressions.parameters) {
+        const reason = reservedName(name);
+        if (!identifier.test(name) || name == '_' || name.startsWith('__')) {
+            errors.push({ label: '', message: `parameter '${name}' is not a valid name` });
+        } else if (seen.has(name)) {
+            errors.push({ label: '', message: `parameter '${name}' is already a species or parameter` });
+        } else if (reason) {
+            errors.push({ label: '', message: `parameter '${name}' is ${reason}` });
+        }
+        seen.add(name);
+    }
+    return errors;
+}
+
+// an expression becomes the function's return value, a snippet with its own return is used as it is
+function functionBody(source: string) {
+    const trimmed = source.trim();
+    if (/\breturn\b/.test(trimmed)) {
+        return trimmed.split('\n');
+    }
+    return [`return ${trimmed.replace(/;+$/, '')};`];
+}
+
+// The generated part of diffusionShader: a function per expression, and custom_reaction and
+// custom_secretion picking the one for a species, falling back to no reaction and the cell's own production.
+export function expressionShader(species: Species[], expressions: CustomExpressions) {
+    const fields = fieldNames(species);
+    const parameterNames = expressions.parameters.map((parameter) => parameter.name);
+    const parameterValues = parameterNames.map((_, i) => `parameters[${i >> 2}][${i & 3}]`);
+    const lines: string[] = [];
+    const sources: ExpressionSource[] = [];
+
+    const addFunction = (name: string, label: string, source: string, extra: string[]) => {
+        const args = [...fields, ...parameterNames, ...extra].map((arg) => `${arg}: f32`).join(', ');
+        lines.push(`fn ${name}(${args}) -> f32 {`);
+        const firstLine = lines.length + 1;
+        lines.push(...functionBody(source).map((line) => `    ${line}`));
+        sources.push({ label, firstLine, lastLine: lines.length });
+        lines.push('}', '');
+    };
+
+    const reactionCases: string[] = [];
+    const secretionCases: string[] = [];
+    fields.forEach((field, s) => {
+        if (expressions.reaction[s]?.trim()) {
+            addFunction(`reaction_${s}`, reactionLabel(field), expressions.reaction[s], []);
+            const args = [...fields.map((_, f) => `input_concentration[${f} * num_voxels + idx]`), ...parameterValues];
+            reactionCases.push(`        case ${s}: { return reaction_${s}(${args.join(', ')}); }`);
+        }
+        if (expressions.secretion[s]?.trim()) {
+            addFunction(`secretion_${s}`, secretionLabel(field), expressions.secretion[s], ['production', 'uptake']);
+            const args = [...fields.map((_, f) => `surrounding_concentration(position, ${f})`), ...parameterValues, 'production', 'uptake'];
+            secretionCases.push(`        case ${s}: { return secretion_${s}(${args.join(', ')}); }`);
+        }
+    });
+
+    lines.push(
+        '// the rate of change of species s at voxel idx from its reaction expression',
+        'fn custom_reaction(s: i32, idx: i32) -> f32 {',
+        '    // keeps the parameters in the layout when no expression uses them',
+        '    _ = parameters[0];',
+        '    let num_voxels = i32(dimensions.x * dimensions.y * dimensions.z);',
+        '    switch s {',
+        ...reactionCases,
+        '        default: { return 0.0; }',
+        '    }',
+        '}',
+        '',
+        '// the rate the cell at position produces species s at, from its secretion expression',
+        'fn custom_secretion(s: i32, position: vec3<u32>, production: f32, uptake: f32) -> f32 {',
+        '    switch s {',
+        ...secretionCases,
+        '        default: { return production; }',
+        '    }',
+        '}',
+        '');
+    return { code: lines.join('\n'), sources };
+}
+
+// Points a compiler message at line of the generated code back at the expression it is in,
+// lines before the generated code are in the fixed part of the shader
+export function locateMessage(sources: ExpressionSource[], line: number, message: string): ExpressionError {
+    const source = sources.find((s) => line >= s.firstLine && line <= s.lastLine);
+    if (source) {
+        return { label: source.label, message: `line ${line - source.firstLine + 1}: ${message}` };
+    }
+    return { label: '', message: line > 0 ? `generated code line ${line}: ${message}` : message };
+}
+
+// The scalar types of WGSL. Literals without a suffix are abstract, they take the type of what they are
+// combined with, and a let or var holding one becomes i32 or f32.
+type ScalarType = 'abstract-int' | 'abstract-float' | 'f32' | 'i32' | 'u32' | 'bool';
+
+const scalarTypes: ScalarType[] = ['f32', 'i32', 'u32', 'bool'];
+
+function isFloat(type: ScalarType) {
+    return type == 'f32' || type == 'abstract-float';
+}
+
+function isInteger(type: ScalarType) {
+    return type == 'i32' || type == 'u32' || type == 'abstract-int';
+}
+
+// The type both operands are converted to, following WGSL's automatic conversion of abstract numbers,
+// or null when WGSL would need an explicit conversion
+function commonType(a: ScalarType, b: ScalarType): ScalarType | null {
+    if (a == b) {
+        return a;
+    }
+    for (const [from, to] of [[a, b], [b, a]]) {
+        if ((from == 'abstract-int' && to != 'bool') || (from == 'abstract-float' && to == 'f32')) {
+            return to;
+        }
+    }
+    return null;
+}
+
+// the closest value the type holds, wrapping integers around like the GPU does
+function represent(type: ScalarType, value: number) {
+    switch (type) {
+        case 'f32': return Math.fround(value);
+        case 'i32': return value | 0;
+        case 'u32': return value >>> 0;
+        default: return value;
+    }
+}
+
+// Integer division by zero gives the dividend and its remainder 0, as WGSL defines them outside of constants
+function arithmetic(operator: string, type: ScalarType): (a: number, b: number) => number {
+    const integer = isInteger(type);
+    switch (operator) {
+        case '+': return (a, b) => represent(type, a + b);
+        case '-': return (a, b) => represent(type, a - b);
+        case '*': return integer && type != 'abstract-int' ? (a, b) => represent(type, Math.imul(a, b)) : (a, b) => represent(type, a * b);
+        case '/': return integer ? (a, b) => b == 0 ? a : represent(type, Math.trunc(a / b)) : (a, b) => represent(type, a / b);
+        default: return integer ? (a, b) => b == 0 ? 0 : represent(type, a % b) : (a, b) => represent(type, a % b);
+    }
+}
+
+const comparisons: Record<string, (a: number, b: number) => number> = {
+    '<': (a, b) => +(a < b), '<=': (a, b) => +(a <= b), '>': (a, b) => +(a > b), '>=': (a, b) => +(a >= b),
+    '==': (a, b) => +(a == b), '!=': (a, b) => +(a != b),
+};
+// loosest first, && and || are handled separately as they short circuit
+const precedence = [['==', '!=', '<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+// WGSL built in functions on floats
+const floatBuiltins: Record<string, (...args: number[]) => number> = {
+    acos: Math.acos, asin: Math.asin, atan: Math.atan, atan2: Math.atan2, ceil: Math.ceil, cos: Math.cos, cosh: Math.cosh,
+    exp: Math.exp, exp2: (x) => 2 ** x, floor: Math.floor, log: Math.log, log2: Math.log2, pow: Math.pow,
+    sin: Math.sin, sinh: Math.sinh, sqrt: Math.sqrt, tan: Math.tan, tanh: Math.tanh, trunc: Math.trunc,
+    // WGSL rounds halves to even
+    round: (x) => Math.abs(x % 1) == 0.5 ? 2 * Math.round(x / 2) : Math.round(x),
+    fract: (x) => x - Math.floor(x),
+    inverseSqrt: (x) => 1 / Math.sqrt(x),
+    mix: (a, b, t) => a * (1 - t) + b * t,
+    smoothstep: (low, high, x) => {
+        const t = Math.min(Math.max((x - low) / (high - low), 0), 1);
+        return t * t * (3 - 2 * t);
+    },
+    step: (edge, x) => x >= edge ? 1 : 0,
+};
+
+// and on any number
+const numericBuiltins: Record<string, (...args: number[]) => number> = {
+    abs: Math.abs, max: (a, b) => Math.max(a, b), min: (a, b) => Math.min(a, b), sign: Math.sign,
+    clamp: (x, low, high) => Math.min(Math.max(x, low), high),
+};
+
+// Conversions between the scalar types, floats to integers round towards zero and saturate
+function conversion(to: ScalarType, from: ScalarType): (x: number) => number {
+    const saturate = (low: number, high: number) => (x: number) => Number.isNaN(x) ? 0 : Math.trunc(Math.min(Math.max(x, low), high));
+    if (to == 'bool') {
+        return (x) => +(x != 0);
+    }
+    if (to == 'f32') {
+        return Math.fround;
+    }
+    if (isFloat(from)) {
+        return to == 'i32' ? saturate(-(2 ** 31), 2 ** 31 - 1) : saturate(0, 2 ** 32 - 1);
+    }
+    return (x) => represent(to, x);
+}
+
+interface Token {
+    kind: 'number' | 'name' | 'symbol' | 'end';
+    text: string;
+}
+
+function tokenize(source: string) {
+    const tokens: Token[] = [];
+    const pattern = /\s+|\/\/[^\n]*|((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?[fhiu]?)|([A-Za-z_]\w*)|(&&|\|\||[=!<>+\-*/]=|[-+*/%<>!=(){},;:])/y;
+    while (pattern.lastIndex < source.length) {
+        const start = pattern.lastIndex;
+        const match = pattern.exec(source);
+        if (!match) {
+            throw new Error(`unexpected '${source[start]}'`);
+        }
+        if (match[1] !== undefined) {
+            tokens.push({ kind: 'number', text: match[1] });
+        } else if (match[2] !== undefined) {
+            tokens.push({ kind: 'name', text: match[2] });
+        } else if (match[3] !== undefined) {
+            tokens.push({ kind: 'symbol', text: match[3] });
+        }
+    }
+    tokens.push({ kind: 'end', text: 'end of input' });
+    return tokens;
+}
+
+// Each compiled piece reads and writes the function's variables in slots. Statements give the value
+// returned, or undefined to carry on.
+type Evaluate = (slots: Float64Array) => number;
+type Execute = (slots: Float64Array) => number | undefined;
+
+// A compiled expression with its WGSL type, and its value when that is known while compiling. It always
+// is for abstract numbers, which WGSL only has in constant expressions, so 1 / 2 is 0 like on the GPU.
+interface Typed {
+    type: ScalarType;
+    evaluate: Evaluate;
+    constant?: number;
+}
+
+function constant(type: ScalarType, value: number): Typed {
+    return { type, evaluate: () => value, constant: value };
+}
+
+function unary(type: ScalarType, operate: (a: number) => number, a: Typed): Typed {
+    if (a.constant !== undefined) {
+        return constant(type, operate(a.constant));
+    }
+    const evaluate = a.evaluate;
+    return { type, evaluate: (slots) => operate(evaluate(slots)) };
+}
+
+function binary(type: ScalarType, operate: (a: number, b: number) => number, a: Typed, b: Typed): Typed {
+    if (a.constant !== undefined && b.constant !== undefined) {
+        return constant(type, operate(a.constant, b.constant));
+    }
+    const [first, second] = [a.evaluate, b.evaluate];
+    return { type, evaluate: (slots) => operate(first(slots), second(slots)) };
+}
+
+// abstract numbers to the concrete type they are used as, anything else has to already be of the type
+function convert(value: Typed, type: ScalarType, context: string): Typed {
+    if (value.type == type) {
+        return value;
+    }
+    if (commonType(value.type, type) != type) {
+        throw new Error(`${context} needs ${type}, not ${value.type}`);
+    }
+    return unary(type, (x) => represent(type, x), value);
+}
+
+// what a let or var without a type holds
+function concrete(type: ScalarType) {
+    return type == 'abstract-int' ? 'i32' : type == 'abstract-float' ? 'f32' : type;
+}
+
+interface Variable {
+    slot: number;
+    type: ScalarType;
+    mutable: boolean;
+    value?: Typed; // for a const
+}
+
+// Recursive descent over the scalar part of WGSL the CPU backend runs: let, var and const declarations,
+// assignments, if/else and return, with arithmetic, comparisons, logic and the builtins above. It checks
+// types like WGSL, so what one backend rejects the other does too. Without loops or calls to anything
+// else every expression finishes, whatever it says.
+class ScalarParser {
+    private tokens: Token[];
+    private position = 0;
+    private scopes: Map<string, Variable>[];
+    public slotCount: number;
+
+    // the arguments are f32, like in the generated shader functions
+    constructor(source: string, args: string[]) {
+        this.tokens = tokenize(source);
+        this.scopes = [new Map(args.map((name, slot) => [name, { slot, type: 'f32', mutable: false }]))];
+        this.slotCount = args.length;
+    }
+
+    private peek() {
+        return this.tokens[this.position];
+    }
+
+    private next() {
+        return this.tokens[this.position++];
+    }
+
+    private accept(text: string) {
+        if (this.peek().kind != 'number' && this.peek().text == text) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string) {
+        if (!this.accept(text)) {
+            throw new Error(`expected '${text}', found '${this.peek().text}'`);
+        }
+    }
+
+    private lookup(name: string) {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            const variable = this.scopes[i].get(name);
+            if (variable) {
+                return variable;
+            }
+        }
+        throw new Error(`unknown name '${name}'`);
+    }
+
+    // the whole function body, which must return on every path
+    parseBody(): Execute {
+        const statements: Execute[] = [];
+        let returns = false;
+        while (this.peek().kind != 'end') {
+            const { execute, returns: always } = this.parseStatement();
+            statements.push(execute);
+            returns = always;
+        }
+        if (!returns) {
+            throw new Error('missing return at the end');
+        }
+        return sequence(statements);
+    }
+
+    private parseBlock() {
+        this.expect('{');
+        this.scopes.push(new Map());
+        const statements: Execute[] = [];
+        let returns = false;
+        while (!this.accept('}')) {
+            if (this.peek().kind == 'end') {
+                throw new Error("expected '}'");
+            }
+            const { execute, returns: always } = this.parseStatement();
+            statements.push(execute);
+            returns ||= always;
+        }
+        this.scopes.pop();
+        return { execute: sequence(statements), returns };
+    }
+
+    private parseStatement(): { execute: Execute, returns: boolean } {
+        const token = this.next();
+        if (token.kind != 'name') {
+            throw new Error(`unexpected '${token.text}'`);
+        }
+        if (token.text == 'return') {
+            const value = convert(this.parseExpression(), 'f32', 'return').evaluate;
+            this.expect(';');
+            return { execute: value, returns: true };
+        }
+        if (token.text == 'if') {
+            const condition = convert(this.parseExpression(), 'bool', 'if').evaluate;
+            const then = this.parseBlock();
+            let otherwise = { execute: (() => undefined) as Execute, returns: false };
+            if (this.accept('else')) {
+                otherwise = this.peek().text == 'if' ? this.parseStatement() : this.parseBlock();
+            }
+            return {
+                execute: (slots) => condition(slots) ? then.execute(slots) : otherwise.execute(slots),
+                returns: then.returns && otherwise.returns,
+            };
+        }
+        if (token.text == 'let' || token.text == 'var' || token.text == 'const') {
+            return this.parseDeclaration(token.text);
+        }
+
+        const variable = this.lookup(token.text);
+        const operator = this.next().text;
+        if (!['=', '+=', '-=', '*=', '/='].includes(operator)) {
+            throw new Error(`expected an assignment to '${token.text}', found '${operator}'`);
+        }
+        if (!variable.mutable) {
+            throw new Error(`'${token.text}' can't be assigned to, only a var can`);
+        }
+        if (operator != '=' && variable.type == 'bool') {
+            throw new Error(`'${operator}' needs a number, '${token.text}' is bool`);
+        }
+        const value = convert(this.parseExpression(), variable.type, `assigning to '${token.text}'`).evaluate;
+        this.expect(';');
+        const { slot } = variable;
+        const combine = operator == '=' ? (_: number, b: number) => b : arithmetic(operator[0], variable.type);
+        return { execute: (slots) => { slots[slot] = combine(slots[slot], value(slots)); return undefined; }, returns: false };
+    }
+
+    private parseDeclaration(kind: string): { execute: Execute, returns: boolean } {
+        const name = this.next();
+        if (name.kind != 'name' || !identifier.test(name.text)) {
+            throw new Error(`expected a name, found '${name.text}'`);
+        }
+        let type: ScalarType | null = null;
+        if (this.accept(':')) {
+            const typeName = this.next().text;
+            if (!scalarTypes.includes(typeName as ScalarType)) {
+                throw new Error(`only ${scalarTypes.join(', ')} run on the CPU, found '${typeName}'`);
+            }
+            type = typeName as ScalarType;
+        }
+
+        let value: Typed;
+        if (kind == 'var' && this.peek().text == ';') {
+            if (!type) {
+                throw new Error(`var '${name.text}' needs a type or a value`);
+            }
+            // WGSL zero initialises a var without a value
+            value = constant(type, 0);
+        } else {
+            this.expect('=');
+            value = this.parseExpression();
+            type ??= kind == 'const' ? value.type : concrete(value.type);
+            value = convert(value, type, `'${name.text}'`);
+        }
+        this.expect(';');
+
+        const scope = this.scopes[this.scopes.length - 1];
+        if (kind == 'const') {
+            if (value.constant === undefined) {
+                throw new Error(`const '${name.text}' needs a constant value`);
+            }
+            scope.set(name.text, { slot: -1, type, mutable: false, value });
+            return { execute: () => undefined, returns: false };
+        }
+        const slot = this.slotCount++;
+        scope.set(name.text, { slot, type, mutable: kind == 'var' });
+        const evaluate = value.evaluate;
+        return { execute: (slots) => { slots[slot] = evaluate(slots); return undefined; }, returns: false };
+    }
+
+    parseExpression(): Typed {
+        let left = this.parseAnd();
+        while (this.accept('||')) {
+            const [a, b] = [convert(left, 'bool', "'||'"), convert(this.parseAnd(), 'bool', "'||'")];
+            left = a.constant !== undefined && b.constant !== undefined ? constant('bool', +(a.constant != 0 || b.constant != 0))
+                : { type: 'bool', evaluate: (slots) => +(a.evaluate(slots) != 0 || b.evaluate(slots) != 0) };
+        }
+        return left;
+    }
+
+    private parseAnd(): Typed {
+        let left = this.parseBinary(0);
+        while (this.accept('&&')) {
+            const [a, b] = [convert(left, 'bool', "'&&'"), convert(this.parseBinary(0), 'bool', "'&&'")];
+            left = a.constant !== undefined && b.constant !== undefined ? constant('bool', +(a.constant != 0 && b.constant != 0))
+                : { type: 'bool', evaluate: (slots) => +(a.evaluate(slots) != 0 && b.evaluate(slots) != 0) };
+        }
+        return left;
+    }
+
+    private parseBinary(level: number): Typed {
+        if (level == precedence.length) {
+            return this.parseUnary();
+        }
+        let left = this.parseBinary(level + 1);
+        while (this.peek().kind == 'symbol' && precedence[level].includes(this.peek().text)) {
+            const operator = this.next().text;
+            const right = this.parseBinary(level + 1);
+            const type = commonType(left.type, right.type);
+            if (!type) {
+                throw new Error(`'${operator}' can't combine ${left.type} and ${right.type}, convert one of them`);
+            }
+            const [a, b] = [convert(left, type, `'${operator}'`), convert(right, type, `'${operator}'`)];
+            if (operator in comparisons) {
+                if (type == 'bool' && operator != '==' && operator != '!=') {
+                    throw new Error(`'${operator}' needs numbers, not bool`);
+                }
+                left = binary('bool', comparisons[operator], a, b);
+            } else {
+                if (type == 'bool') {
+                    throw new Error(`'${operator}' needs numbers, not bool`);
+                }
+                if (type == 'abstract-int' && (operator == '/' || operator == '%') && b.constant == 0) {
+                    throw new Error('integer division by zero');
+                }
+                left = binary(type, arithmetic(operator, type), a, b);
+            }
+        }
+        return left;
+    }
+
+    private parseUnary(): Typed {
+        if (this.accept('-')) {
+            const value = this.parseUnary();
+            if (value.type == 'bool' || value.type == 'u32') {
+                throw new Error(`'-' needs a signed number, not ${value.type}`);
+            }
+            return unary(value.type, (x) => represent(value.type, -x), value);
+        }
+        if (this.accept('!')) {
+            return unary('bool', (x) => +(x == 0), convert(this.parseUnary(), 'bool', "'!'"));
+        }
+        return this.parsePrimary();
+    }
+
+    private parseLiteral(text: string): Typed {
+        const [, digits, suffix] = text.match(/^(.*?)([fhiu]?)$/)!;
+        const fractional = /[.eE]/.test(digits);
+        if (suffix == 'h') {
+            throw new Error(`'${text}' is f16, which the shaders don't enable`);
+        }
+        if (fractional && (suffix == 'i' || suffix == 'u')) {
+            throw new Error(`'${text}' isn't an integer`);
+        }
+        const type: ScalarType = suffix == 'f' ? 'f32' : suffix == 'i' ? 'i32' : suffix == 'u' ? 'u32'
+            : fractional ? 'abstract-float' : 'abstract-int';
+        const value = Number(digits);
+        if ((type == 'i32' && value > 2 ** 31 - 1) || (type == 'u32' && value > 2 ** 32 - 1)) {
+            throw new Error(`'${text}' doesn't fit in ${type}`);
+        }
+        return constant(type, represent(type, value));
+    }
+
+    private parseCall(name: string): Typed {
+        const args: Typed[] = [];
+        while (!this.accept(')')) {
+            if (args.length > 0) {
+                this.expect(',');
+            }
+            args.push(this.parseExpression());
+        }
+
+        if (scalarTypes.includes(name as ScalarType)) {
+            if (args.length != 1) {
+                throw new Error(`${name} takes 1 argument, not ${args.length}`);
+            }
+            const to = name as ScalarType;
+            return unary(to, conversion(to, args[0].type), args[0]);
+        }
+        if (name == 'select') {
+            if (args.length != 3) {
+                throw new Error(`select takes 3 arguments, not ${args.length}`);
+            }
+            const type = commonType(args[0].type, args[1].type);
+            if (!type) {
+                throw new Error(`select can't choose between ${args[0].type} and ${args[1].type}`);
+            }
+            const [f, t, condition] = [convert(args[0], type, 'select'), convert(args[1], type, 'select'), convert(args[2], 'bool', 'select')];
+            return this.call(type, (a, b, c) => c ? b : a, [f, t, condition]);
+        }
+
+        // own properties only, so nothing else on the objects can be reached by name
+        const float = Object.hasOwn(floatBuiltins, name);
+        const builtin = float ? floatBuiltins[name] : Object.hasOwn(numericBuiltins, name) ? numericBuiltins[name] : undefined;
+        if (!builtin) {
+            throw new Error(`unknown function '${name}'`);
+        }
+        if (args.length != builtin.length) {
+            throw new Error(`${name} takes ${builtin.length} arguments, not ${args.length}`);
+        }
+        let type = args.map((arg) => arg.type).reduce<ScalarType | null>((a, b) => a && commonType(a, b), args[0].type);
+        if (type == 'abstract-int' && float) {
+            type = 'abstract-float';
+        }
+        if (!type || type == 'bool' || (float && !isFloat(type)) || (name == 'sign' && type == 'u32')) {
+            throw new Error(`${name} can't take ${args.map((arg) => arg.type).join(', ')}`);
+        }
+        const resultType = type;
+        return this.call(resultType, (...values) => represent(resultType, builtin(...values)), args.map((arg) => convert(arg, resultType, name)));
+    }
+
+    private call(type: ScalarType, operate: (...args: number[]) => number, args: Typed[]): Typed {
+        if (args.every((arg) => arg.constant !== undefined)) {
+            return constant(type, operate(...args.map((arg) => arg.constant!)));
+        }
+        const evaluates = args.map((arg) => arg.evaluate);
+        const values = new Array<number>(args.length);
+        return {
+            type,
+            evaluate: (slots) => {
+                evaluates.forEach((evaluate, i) => values[i] = evaluate(slots));
+                return operate(...values);
+            },
+        };
+    }
+
+    private parsePrimary(): Typed {
+        const token = this.next();
+        if (token.kind == 'number') {
+            return this.parseLiteral(token.text);
+        }
+        if (token.text == '(') {
+            const value = this.parseExpression();
+            this.expect(')');
+            return value;
+        }
+        if (token.kind != 'name') {
+            throw new Error(`unexpected '${token.text}'`);
+        }
+        if (token.text == 'true' || token.text == 'false') {
+            return constant('bool', +(token.text == 'true'));
+        }
+        if (this.accept('(')) {
+            return this.parseCall(token.text);
+        }
+        const variable = this.lookup(token.text);
+        if (variable.value) {
+            return variable.value;
+        }
+        const slot = variable.slot;
+        return { type: variable.type, evaluate: (slots) => slots[slot] };
+    }
+}
+
+function sequence(statements: Execute[]): Execute {
+    return (slots) => {
+        for (const statement of statements) {
+            const value = statement(slots);
+            if (value !== undefined) {
+                return value;
+            }
+        }
+        return undefined;
+    };
+}
+
+export type ExpressionFunction = (...args: number[]) => number;
+
+// Parses source as the body of a function of f32 args returning f32, throwing on anything outside what
+// ScalarParser takes or what WGSL would reject
+export function compileScalar(source: string, args: string[]): ExpressionFunction {
+    const parser = new ScalarParser(functionBody(source).join('\n'), args);
+    const body = parser.parseBody();
+    const slots = new Float64Array(parser.slotCount);
+    return (...values) => {
+        slots.set(values);
+        return body(slots) ?? 0;
+    };
+}
+
+// The CPU backend's version of expressionShader, one function per expression or null where there is none,
+// taking the species then the parameters (then production and uptake for secretion)
+export function expressionFunctions(species: Species[], expressions: CustomExpressions) {
+    const fields = fieldNames(species);
+    const parameterNames = expressions.parameters.map((parameter) => parameter.name);
+    const errors: ExpressionError[] = [];
+
+    const compile = (label: string, source: string | undefined, extra: string[]) => {
+        if (!source?.trim()) {
+            return null;
+        }
+        try {
+            return compileScalar(source, [...fields, ...parameterNames, ...extra]);
+        } catch (error) {
+            errors.push({ label, message: error instanceof Error ? error.message : String(error) });
+            return null;
+        }
+    };
+
+    const reaction = fields.map((field, s) => compile(reactionLabel(field), expressions.reaction[s], []));
+    const secretion = fields.map((field, s) => compile(secretionLabel(field), expressions.secretion[s], ['production', 'uptake']));
+    return { reaction, secretion, errors };
+}
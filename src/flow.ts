@@ -0,0 +1,108 @@
+import type { VolumeData } from "./volumeFiles";
+
+type Position = { x: number, y: number, z: number };
+type Axis = 'x' | 'y' | 'z';
+
+// A prescribed velocity per voxel, in voxels per unit time, that carries every species along
+export interface FlowField {
+    dimensions: Position;
+    velocity: Float32Array; // interleaved x, y, z per voxel, in the field's voxel order
+}
+
+// file is a field loaded per voxel, the others are generated from speed and axis
+export type FlowPreset = 'none' | 'uniform' | 'shear' | 'vortex' | 'file';
+
+export interface FlowSettings {
+    preset: FlowPreset;
+    speed: number;
+    axis: Axis; // the flow direction for uniform and shear, the rotation axis for vortex
+}
+
+// the next axis round, x -> y -> z -> x
+const nextAxis: Record<Axis, Axis> = { x: 'y', y: 'z', z: 'x' };
+const axisIndex: Record<Axis, number> = { x: 0, y: 1, z: 2 };
+
+export function stillFlow(dimensions: Position): FlowField {
+    return { dimensions: { ...dimensions }, velocity: new Float32Array(dimensions.x * dimensions.y * dimensions.z * 3) };
+}
+
+// uniform: speed along axis everywhere
+// shear:   along axis, from -speed to speed across the next axis round, still through the middle
+// vortex:  solid body rotation about axis through the centre, speed at the edge of the inscribed circle
+// All three are divergence free, so they only move what is there.
+export function presetFlow(settings: FlowSettings, dimensions: Position): FlowField {
+    const flow = stillFlow(dimensions);
+    const { preset, speed, axis } = settings;
+    if (preset == 'none' || preset == 'file') {
+        return flow;
+    }
+
+    const across = nextAxis[axis];
+    const third = nextAxis[across];
+    const radius = Math.min(dimensions[across], dimensions[third]) / 2;
+    const position = { x: 0, y: 0, z: 0 };
+    let i = 0;
+    for (position.z = 0; position.z < dimensions.z; position.z++) {
+        for (position.y = 0; position.y < dimensions.y; position.y++) {
+            for (position.x = 0; position.x < dimensions.x; position.x++, i++) {
+                // voxel centres relative to the domain centre
+                const a = position[across] + 0.5 - dimensions[across] / 2;
+                const b = position[third] + 0.5 - dimensions[third] / 2;
+                if (preset == 'uniform') {
+                    flow.velocity[i * 3 + axisIndex[axis]] = speed;
+                } else if (preset == 'shear') {
+                    flow.velocity[i * 3 + axisIndex[axis]] = speed * a / (dimensions[across] / 2);
+                } else {
+                    flow.velocity[i * 3 + axisIndex[across]] = -speed * b / radius;
+                    flow.velocity[i * 3 + axisIndex[third]] = speed * a / radius;
+                }
+            }
+        }
+    }
+    return flow;
+}
+
+// The upwind step moves up to |vx| + |vy| + |vz| times the time step of a voxel's content out of it,
+// so the explicit scheme needs that below 1 along with the diffusion, see stabilityNumber
+export function maxFlowSpeed(flow: FlowField | null) {
+    if (!flow) {
+        return 0;
+    }
+    let max = 0;
+    for (let i = 0; i < flow.velocity.length; i += 3) {
+        max = Math.max(max, Math.abs(flow.velocity[i]) + Math.abs(flow.velocity[i + 1]) + Math.abs(flow.velocity[i + 2]));
+    }
+    return max;
+}
+
+// For saving with the volume writers, one volume per component
+export function flowToVolume(flow: FlowField): VolumeData {
+    const { dimensions, velocity } = flow;
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const field = new Float32Array(numVoxels * 3);
+    for (let i = 0; i < numVoxels; i++) {
+        for (let c = 0; c < 3; c++) {
+            field[c * numVoxels + i] = velocity[i * 3 + c];
+        }
+    }
+    return { dimensions: { ...dimensions }, names: ['vx', 'vy', 'vz'], field };
+}
+
+// Reads the volumes named vx, vy and vz, or otherwise the first three in order
+export function volumeToFlow(volume: VolumeData): FlowField {
+    const { dimensions, names, field } = volume;
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const named = ['vx', 'vy', 'vz'].map((name) => names.findIndex((n) => n.toLowerCase() == name));
+    const components = named.every((index) => index >= 0) ? named : [0, 1, 2];
+    if (components.some((index) => index >= names.length)) {
+        throw new Error(`expected three volumes for the velocity components, found ${names.length}`);
+    }
+
+    const flow = stillFlow(dimensions);
+    components.forEach((component, c) => {
+        for (let i = 0; i < numVoxels; i++) {
+            flow.velocity[i * 3 + c] = field[component * numVoxels + i];
+        }
+    });
+    return flow;
+}
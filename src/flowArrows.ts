@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { FlowField } from './flow';
+
+// Draws the flow as arrows on a coarse grid of voxels, one line segment for the shaft and two for the head,
+// all in a single draw call. The longest arrow is spacing voxels long, the others in proportion to their speed.
+export class FlowArrows {
+    public spacing = 8; // voxels between arrows along each axis
+
+    private lines: THREE.LineSegments;
+    private flow: FlowField | null = null;
+
+    constructor(private scene: THREE.Scene) {
+        this.lines = new THREE.LineSegments(
+            new THREE.BufferGeometry(),
+            new THREE.LineBasicMaterial({ color: 0x1060c0, transparent: true, opacity: 0.8, depthWrite: false }));
+        this.lines.renderOrder = 2;
+        this.lines.frustumCulled = false;
+        this.lines.visible = false;
+        this.scene.add(this.lines);
+    }
+
+    get visible() {
+        return this.lines.visible;
+    }
+
+    set visible(value: boolean) {
+        this.lines.visible = value;
+        this.rebuild();
+    }
+
+    // Shows the given flow, call whenever it or spacing changes
+    update(flow: FlowField | null) {
+        this.flow = flow;
+        this.rebuild();
+    }
+
+    private rebuild() {
+        const flow = this.flow;
+        if (!this.lines.visible || !flow) {
+            return;
+        }
+        const { dimensions, velocity } = flow;
+        const spacing = Math.max(1, Math.round(this.spacing));
+        const offset = (size: number) => Math.floor((size - 1) % spacing / 2); // centres the grid in the domain
+
+        const samples: number[] = [];
+        let maxSpeed = 0;
+        for (let z = offset(dimensions.z); z < dimensions.z; z += spacing) {
+            for (let y = offset(dimensions.y); y < dimensions.y; y += spacing) {
+                for (let x = offset(dimensions.x); x < dimensions.x; x += spacing) {
+                    const i = (x + y * dimensions.x + z * dimensions.x * dimensions.y) * 3;
+                    const speed = Math.hypot(velocity[i], velocity[i + 1], velocity[i + 2]);
+                    if (speed > 0) {
+                        samples.push(x, y, z, i);
+                        maxSpeed = Math.max(maxSpeed, speed);
+                    }
+                }
+            }
+        }
+
+        const positions = new Float32Array(samples.length / 4 * 6 * 3);
+        const direction = new THREE.Vector3();
+        const start = new THREE.Vector3();
+        const tip = new THREE.Vector3();
+        const side = new THREE.Vector3();
+        const barb = new THREE.Vector3();
+        let p = 0;
+        const push = (point: THREE.Vector3) => {
+            positions.set([point.x, point.y, point.z], p);
+            p += 3;
+        };
+        for (let n = 0; n < samples.length; n += 4) {
+            const [x, y, z, i] = samples.slice(n, n + 4);
+            direction.set(velocity[i], velocity[i + 1], velocity[i + 2]).multiplyScalar(spacing / maxSpeed);
+            // centred on the voxel centre
+            start.set(x + 0.5, y + 0.5, z + 0.5).addScaledVector(direction, -0.5);
+            tip.copy(start).add(direction);
+            push(start);
+            push(tip);
+
+            // the head is two barbs a quarter of the length back from the tip, either side of the shaft
+            side.set(0, 0, 1).cross(direction);
+            if (side.lengthSq() < 1e-6 * direction.lengthSq()) {
+                side.set(0, 1, 0).cross(direction);
+            }
+            side.setLength(direction.length() * 0.12);
+            for (const sign of [1, -1]) {
+                barb.copy(tip).addScaledVector(direction, -0.25).addScaledVector(side, sign);
+                push(tip);
+                push(barb);
+            }
+        }
+
+        this.lines.geometry.dispose();
+        this.lines.geometry = new THREE.BufferGeometry();
+        this.lines.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    }
+}
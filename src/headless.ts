@@ -0,0 +1,70 @@
+import { Cell } from "./cells";
+import { applyCellRules, rulesDue } from "./behaviour";
+import { CellLattice, resolveLifecycle } from "./lattice";
+import type { LoadedScenario } from "./scenario";
+import { Simulation, createSimulation } from "./simulation";
+
+// The same loop as the browser's stepSimulation without any rendering: simulation steps, with the
+// cells reacting to the field every ruleInterval steps.
+export class HeadlessRun {
+    public step = 0;
+    public field: Float32Array<ArrayBuffer>;
+    public lattice: CellLattice;
+
+    private constructor(
+        public setup: LoadedScenario, public simulation: Simulation, public cells: Cell[], public ruleInterval: number) {
+        this.field = new Float32Array(setup.field);
+        this.lattice = new CellLattice(setup.dimensions, cells);
+    }
+
+    static async create(setup: LoadedScenario, ruleInterval = 1) {
+        const simulation = await createSimulation(
+            setup.dimensions, setup.field, setup.species, setup.deltaTime, setup.cells, setup.boundaries, setup.integration);
+        return new HeadlessRun(setup, simulation, setup.cells, ruleInterval);
+    }
+
+    get time() {
+        return this.step * this.setup.deltaTime;
+    }
+
+    // Runs a number of steps and leaves the field at the last one
+    async advance(iterations = 1) {
+        let fieldCurrent = false;
+        for (let i = 0; i < iterations; i++) {
+            await this.simulation.process();
+            this.step++;
+            fieldCurrent = false;
+            if (rulesDue(this.step, this.ruleInterval)) {
+                if (!await this.readField()) {
+                    return;
+                }
+                fieldCurrent = true;
+                this.react();
+            }
+        }
+        if (!fieldCurrent) {
+            await this.readField();
+        }
+    }
+
+    private async readField() {
+        const field = await this.simulation.readResults();
+        if (!field) {
+            return false;
+        }
+        this.field = field;
+        return true;
+    }
+
+    private react() {
+        const ratesChanged = applyCellRules(this.cells, this.field, this.setup.dimensions, this.setup.species.length, this.lattice);
+        const { added, removed, moved } = resolveLifecycle(this.cells, this.lattice);
+        if (ratesChanged || added.length > 0 || removed.length > 0 || moved > 0) {
+            this.simulation.updateCells(this.cells);
+        }
+    }
+
+    async cleanup() {
+        await this.simulation.cleanup();
+    }
+}
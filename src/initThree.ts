@@ -2,9 +2,33 @@ import * as THREE from 'three';
 import Stats from "three/addons/libs/stats.module.js";
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import { VolumeRenderShader1 } from 'three/addons/shaders/VolumeShader.js';
-import { GUI } from 'three/addons/libs/lil-gui.module.min.js';
+import { GUI, NumberController, StringController } from 'three/addons/libs/lil-gui.module.min.js';
+import { Boundaries, Integration, Simulation, Species, createSimulation } from './simulation';
 import { DiffusionSim } from './processVolume';
-import { Cell, checkIntersection } from './cells';
+import { stabilityNumber, stableSubsteps } from './integration';
+import { Cell } from './cells';
+import { applyCellRules, cellRules, rulesDue } from './behaviour';
+import { CellLattice, removeCell, resolveLifecycle } from './lattice';
+import { SavedState, deserializeState, loadCell, saveCell, serializeState } from './stateFile';
+import { loadScenario, parseScenario } from './scenario';
+import { random } from './random';
+import { SliceViewer } from './sliceViewer';
+import { CellEditor } from './cellEditor';
+import { CellColouring, CellRenderer } from './cellRenderer';
+import { GpuVolumeRenderer } from './volumeRenderer';
+import {
+    VolumeData, VolumeFormat, cellsToCsv, cellsToVtk, readVolumeFiles, volumeExtensions, volumeToField, writeNrrd, writeRaw, writeVti, writeVtk,
+} from './volumeFiles';
+import { SlicePlane, planeAxes } from './slices';
+import { FlowField, FlowSettings, flowToVolume, maxFlowSpeed, presetFlow, volumeToFlow } from './flow';
+import { FlowArrows } from './flowArrows';
+import { Reaction, defaultReaction, reactionInitialField, reactionModels } from './reactions';
+import {
+    CustomExpressions, ExpressionError, fieldNames, maxParameters, noExpressions, reactionLabel, secretionLabel,
+} from './expressions';
+import { Brush, Medium, fitsDimensions, maxDiffusivity, mediumToVolume, paintDisc, uniformMedium, volumeToMedium } from './medium';
+import { Recorder, deserializeRecording, serializeRecording } from './recorder';
+import { FieldMetrics, SteadyStateDetector, computeMetrics, meanRadialProfile, summariseField } from './metrics';
 // Global variables
 let stats: Stats;
 let scene: THREE.Scene;
@@ -13,16 +37,83 @@ let camera: THREE.OrthographicCamera;
 let controls: OrbitControls;
 let volumeTexture: THREE.Data3DTexture;
 let mesh: THREE.Mesh;
+const backgroundColour = new THREE.Color(0xf7edd5);
+// draws the volume straight from the WebGPU simulation, only there with the WebGPU backend
+let gpuVolume: GpuVolumeRenderer | null = null;
+let gpuRendering = false;
+let fieldStale = false; // the simulation has moved on since concentrationField was last read back
+let liveMetrics = true;
 let dimensions = { x: 128, y: 128, z: 128 };
+let boundaries: Boundaries = {
+    x: { type: 'dirichlet', value: 0.0 },
+    y: { type: 'dirichlet', value: 0.0 },
+    z: { type: 'dirichlet', value: 0.0 },
+};
 let isSimulating = false;
 let isPlaying = false;
 let gui: GUI;
-let diffusionSim: DiffusionSim;
+let diffusionSim: Simulation;
 let simIterationsPerFrame = 10;
-let diffusionConstant = 1.0;
+let ruleInterval = 1;
+let stepping = false; // a step is awaiting the simulation, the next frame skips stepping
 let deltaTime = 1.0 / 60.0;
+let integration: Integration = { method: 'explicit', autoSubstep: true, iterations: 20 };
+let stability = { status: '', backend: '' };
+let stabilityController: StringController<{ status: string, backend: string }, 'status'>;
+let backendController: StringController<{ status: string, backend: string }, 'backend'>;
+let species: Species[] = [{ name: 'Morphogen A', diffusionConstant: 1.0, decayRate: 0.0 }];
+let cellUptakeRates = [0.0]; // per species, applied to every cell
+let viewedSpecies = 0;
+let speciesFolder: GUI;
+let concentrationField: Float32Array<ArrayBuffer>; // every species, one volume after another
 let cells: Cell[] = [];
+let lattice = new CellLattice(dimensions);
+let activeRule = 'None';
 let axesHelper: THREE.AxesHelper;
+let stepCount = 0;
+let autoRange = false;
+let steadyState = new SteadyStateDetector();
+let metricsDisplay = { total: '', range: '', centre: '', cellGradient: '', steadyState: '' };
+let metricsFolder: GUI;
+let metricsCanvas: HTMLCanvasElement;
+// per step and species, without the per cell and per bin arrays which would pile up
+let recorder = new Recorder(dimensions, species.length, { every: 10, downsample: 1, compress: false, maxFrames: 500, maxMegabytes: 500 });
+let isRecording = false;
+let recordingDisplay = { status: 'empty', frame: 0 };
+let recordingFolder: GUI;
+let timelineController: NumberController<{ status: string, frame: number }, 'frame'>;
+// while scrubbing the timeline the recorded cells are shown instead of the live ones
+let playbackCells: Cell[] | null = null;
+let playbackLattice: CellLattice | null = null;
+let liveField: Float32Array<ArrayBuffer> | null = null;
+let sliceViewer: SliceViewer;
+let sliceFolder: GUI;
+let sliceControllers = {} as Record<SlicePlane, NumberController<Record<SlicePlane, number>, SlicePlane>>;
+let cellRenderer: CellRenderer;
+let cellEditor: CellEditor;
+let editFolder: GUI;
+let selectedCellFolder: GUI;
+let editPlaneIndexController: NumberController<CellEditor, 'planeIndex'>;
+let exportSettings: { fieldFormat: VolumeFormat, cellFormat: 'vtk' | 'csv' } = { fieldFormat: 'vti', cellFormat: 'csv' };
+// an imported field replaces the empty start on every reset, while the dimensions match
+let importedVolume: VolumeData | null = null;
+// kept across resets while the dimensions match, like importedVolume
+let medium: Medium = uniformMedium(dimensions);
+let mediumChanged = false; // painted since the simulation last got it
+let mediumSettings = { paint: false, brush: 'obstacle' as Brush, diffusivity: 0.1, radius: 2, show: false };
+let flowSettings: FlowSettings = { preset: 'none', speed: 0.5, axis: 'x' };
+let flow: FlowField = presetFlow(flowSettings, dimensions); // regenerated from the preset when the dimensions change
+let flowArrows: FlowArrows;
+let reaction: Reaction = defaultReaction('None');
+let reactionFolder: GUI;
+let expressions: CustomExpressions = noExpressions();
+let expressionErrors: ExpressionError[] = [];
+let expressionDisplay = { names: '', errors: '' };
+let expressionFolder: GUI;
+let expressionErrorController: StringController<{ names: string, errors: string }, 'errors'>;
+// the expressions in the species folders by label, to mark the ones with errors
+let expressionControllers = new Map<string, { domElement: HTMLElement }>();
+let metricsHistory: { step: number, metrics: Omit<FieldMetrics, 'histogram' | 'radialProfiles' | 'cellGradients'>[] }[] = [];
 
 function createStats() {
     const stats = new Stats();
@@ -32,8 +123,7 @@ function createStats() {
 
 function createScene() {
     const scene = new THREE.Scene();
-    const skyboxColor = new THREE.Color(0xf7edd5); // Changed to black background
-    scene.background = skyboxColor;
+    scene.background = backgroundColour;
     const minDimension = Math.min(dimensions.x, dimensions.y, dimensions.z);
     axesHelper = new THREE.AxesHelper(minDimension / 3);
     axesHelper.setColors(
@@ -70,7 +160,8 @@ function updateAxesHelper() {
 }
 
 function createRenderer() {
-    const renderer = new THREE.WebGLRenderer();
+    // transparent where there is no background, for the WebGPU volume behind it
+    const renderer = new THREE.WebGLRenderer({ alpha: true });
     renderer.setPixelRatio(window.devicePixelRatio);
     renderer.setSize(window.innerWidth, window.innerHeight);
     document.body.appendChild(renderer.domElement);
@@ -110,9 +201,16 @@ function createControls() {
     return controls;
 }
 
-async function resetSimulation() {
+// Starts over with the given field and cells, an empty field and no cells by default
+async function resetSimulation(field?: Float32Array<ArrayBuffer>, newCells: Cell[] = []) {
+    leavePlayback();
+    random.reseed(random.seed);
+    stepCount = 0;
+    fieldStale = false;
+    steadyState.reset();
+    metricsHistory = [];
     scene.remove(mesh);
-    mesh = createVolumeMesh();
+    mesh = createVolumeMesh(field);
     controls.target.set(dimensions.x / 2, dimensions.y / 2, dimensions.z / 2);
     isSimulating = false;
     gui.controllers?.find((c) => c.property === "playPause")?.name(
@@ -122,25 +220,114 @@ async function resetSimulation() {
     updateCamera();
     updateAxesHelper();
 
-    cells.forEach(cell => scene.remove(cell.mesh));
-    cells = [];
+    if (!fitsDimensions(medium, dimensions)) {
+        medium = uniformMedium(dimensions);
+    }
+    if (!fitsDimensions(flow, dimensions)) {
+        // a loaded flow doesn't fit any more
+        if (flowSettings.preset == 'file') {
+            flowSettings.preset = 'none';
+        }
+        flow = presetFlow(flowSettings, dimensions);
+        flowArrows.update(flow);
+    }
+    // cells can't start inside the obstacles of a medium kept from before
+    lattice = new CellLattice(dimensions, [], medium.obstacles);
+    cells = newCells.filter((cell) => !lattice.isObstacle(cell.position));
+    cells.forEach((cell) => lattice.add(cell));
+    updateCellRendering();
+    cellEditor.select(null);
+    updateEditGUI();
+
+    recorder.clear(dimensions, species.length);
+    updateRecordingGUI();
+    updateSliceGUI();
+
+    gpuVolume?.clearSource();
+    await diffusionSim.cleanup();
+    diffusionSim = await createSimulation(dimensions, concentrationField, species, deltaTime, cells, boundaries, integration);
+    diffusionSim.setMedium(medium);
+    diffusionSim.setFlow(flow);
+    diffusionSim.setReaction(reaction);
+    await applyExpressions();
+    mediumChanged = false;
+    updateStability();
+    attachGpuVolume();
+}
+
+// Points the WebGPU volume at the current simulation's buffer
+function attachGpuVolume() {
+    if (diffusionSim instanceof DiffusionSim) {
+        gpuVolume ??= createGpuVolume();
+        gpuVolume.setSource(diffusionSim.device, diffusionSim.fieldBuffer, dimensions);
+    } else {
+        gpuRendering = false;
+    }
+    updateVolumeVisibility();
+}
+
+function createGpuVolume() {
+    const volume = new GpuVolumeRenderer('/cm_transparent_viridis.png', backgroundColour);
+    document.body.prepend(volume.canvas);
+    return volume;
+}
+
+async function setGpuRendering(enabled: boolean) {
+    gpuRendering = enabled && gpuVolume !== null;
+    updateVolumeVisibility();
+    if (gpuRendering) {
+        // metrics every step would need the read back this avoids
+        metricsFolder.controllers.find((c) => c.property === 'liveMetrics')?.setValue(false);
+    } else {
+        await refreshField();
+    }
+}
+
+// Recorded frames only exist on the CPU, so playback uses the WebGL volume
+function updateVolumeVisibility() {
+    const onGpu = gpuRendering && !playbackCells;
+    gpuVolume?.setVisible(onGpu);
+    (mesh.material as THREE.ShaderMaterial).visible = !onGpu;
+    scene.background = onGpu ? null : backgroundColour;
+}
 
-    diffusionSim.cleanup();
-    diffusionSim = await DiffusionSim.create(dimensions, volumeTexture.image.data as Float32Array, diffusionConstant, deltaTime, cells);
+// Whether anything on the CPU side uses the field after every step
+function fieldNeeded() {
+    return !gpuRendering || liveMetrics || autoRange || isRecording || sliceViewer.visible ||
+        cellRenderer.colouring == 'concentration' || cells.some(cell => cell.rule !== null);
+}
+
+// Reads the field back if the GPU rendering skipped that, and shows it
+async function refreshField() {
+    // while a recorded frame is shown it is the field, the live one is read back after playback
+    if (fieldStale && !playbackCells) {
+        const field = await diffusionSim.readResults();
+        if (field) {
+            fieldStale = false;
+            concentrationField = field;
+        }
+    }
+    updateVolumeMesh(concentrationField);
 }
 
 function createGUI() {
     gui = new GUI();
 
-    gui.add(dimensions, 'x', 8, 512, 16).onChange(() => {
-        resetSimulation();
-    });
-    gui.add(dimensions, 'y', 8, 512, 16).onChange(() => {
-        resetSimulation();
-    });
-    gui.add(dimensions, 'z', 8, 512, 16).onChange(() => {
-        resetSimulation();
-    });
+    for (const axis of ['x', 'y', 'z'] as const) {
+        gui.add(dimensions, axis, 8, 512, 16).onChange(() => {
+            resetSimulation();
+        });
+        gui.add(
+            boundaries[axis],
+            'type',
+            { 'Fixed Value': 'dirichlet', 'Zero Flux': 'neumann', 'Periodic': 'periodic' }
+        ).onChange(() => {
+            diffusionSim.setBoundaries(boundaries);
+        }).name(`${axis} boundary`);
+        gui.add(boundaries[axis], 'value', 0.0, 10.0, 0.01).onChange(() => {
+            diffusionSim.setBoundaries(boundaries);
+        }).name(`${axis} boundary value`);
+    }
 
     gui.add(
         { simIterationsPerFrame },
@@ -152,16 +339,9 @@ function createGUI() {
         simIterationsPerFrame = value;
     }).name('Iterations Per Frame');
 
-    gui.add(
-        { diffusionConstant },
-        'diffusionConstant',
-        0.0,
-        10.0,
-        0.01
-    ).onChange((value: number) => {
-        diffusionConstant = value;
-        diffusionSim.setCombinedConstant(diffusionConstant, deltaTime);
-    }).name('Diffusion Constant');
+    gui.add({ ruleInterval }, 'ruleInterval', 1, 100, 1).onChange((value: number) => {
+        ruleInterval = value;
+    }).name('Rule Interval');
 
     gui.add(
         { deltaTime },
@@ -171,10 +351,31 @@ function createGUI() {
         0.01
     ).onChange((value: number) => {
         deltaTime = value;
-        diffusionSim.setCombinedConstant(diffusionConstant, deltaTime);
+        diffusionSim.setSpeciesConstants(species, deltaTime);
         diffusionSim.setDeltaTime(deltaTime);
+        updateStability();
     }).name('Delta Time');
 
+    const integrationFolder = gui.addFolder('Integration');
+    integrationFolder.add(
+        integration,
+        'method',
+        { 'Explicit': 'explicit', 'Implicit (Jacobi)': 'implicit' }
+    ).onChange(() => {
+        diffusionSim.setIntegration(integration);
+        updateStability();
+    }).name('Method');
+    integrationFolder.add(integration, 'autoSubstep').onChange(() => {
+        diffusionSim.setIntegration(integration);
+        updateStability();
+    }).name('Auto Sub-step');
+    integrationFolder.add(integration, 'iterations', 2, 200, 2).onChange(() => {
+        diffusionSim.setIntegration(integration);
+    }).name('Jacobi Iterations');
+    stabilityController = integrationFolder.add(stability, 'status').name('Stability').disable();
+    backendController = integrationFolder.add(stability, 'backend').name('Running On').disable();
+    updateStability();
+
     gui.add(
         { renderstyle: 0 },
         'renderstyle',
@@ -183,6 +384,33 @@ function createGUI() {
         (mesh.material as THREE.ShaderMaterial).uniforms['u_renderstyle'].value = value;
     }).name('Render Style');
 
+    gui.add({ gpuRendering }, 'gpuRendering').onChange((value: boolean) => {
+        setGpuRendering(value);
+    }).name('Render on GPU');
+
+    gui.add(
+        { activeRule },
+        'activeRule',
+        Object.keys(cellRules)
+    ).onChange((value: string) => {
+        activeRule = value;
+        cells.forEach(cell => cell.rule = cellRules[activeRule]);
+        updateCellRendering();
+    }).name('Cell Rule');
+
+    speciesFolder = gui.addFolder('Species');
+    populateSpeciesGUI();
+
+    createMetricsGUI();
+    createRecordingGUI();
+    createSliceGUI();
+    createEditGUI();
+    createCellDisplayGUI();
+    createMediumGUI();
+    createFlowGUI();
+    createReactionGUI();
+    createExpressionGUI();
+
 
 
     gui.add({
@@ -191,9 +419,25 @@ function createGUI() {
         }
     }, 'addCells').name('Add Cells');
 
+    // a new seed resets the simulation so the run starts from it
+    gui.add(random, 'seed').step(1)
+        .onFinishChange(() => resetSimulation())
+        .name('Seed');
+
     gui.add({ reset: () => resetSimulation() }, 'reset')
         .name('Reset');
 
+    gui.add({ save: () => saveSimulationState() }, 'save')
+        .name('Save State');
+
+    gui.add({ load: () => loadSimulationState() }, 'load')
+        .name('Load State');
+
+    gui.add({ loadScenario: () => loadScenarioFile() }, 'loadScenario')
+        .name('Load Scenario');
+
+    createExportGUI();
+
     gui.add({
         stepFrame: () => {
             if (!isSimulating) {
@@ -215,21 +459,883 @@ function createGUI() {
     ).name("▶ Play");
 }
 
+function populateSpeciesGUI() {
+    [...speciesFolder.children].forEach((child) => child.destroy());
+    expressionControllers.clear();
+
+    speciesFolder.add(
+        { viewedSpecies },
+        'viewedSpecies',
+        Object.fromEntries(species.map((s, i) => [s.name, i]))
+    ).onChange((value: number) => {
+        viewedSpecies = value;
+        refreshField();
+    }).name('View Species');
+
+    species.forEach((s, i) => {
+        const folder = speciesFolder.addFolder(s.name);
+        folder.add(s, 'diffusionConstant', 0.0, 10.0, 0.01).onChange(() => {
+            diffusionSim.setSpeciesConstants(species, deltaTime);
+            updateStability();
+        }).name('Diffusion Constant');
+        folder.add(s, 'decayRate', 0.0, 1.0, 0.001).onChange(() => {
+            diffusionSim.setSpeciesConstants(species, deltaTime);
+            updateStability();
+        }).name('Decay Rate');
+        folder.add(cellUptakeRates, i, 0.0, 10.0, 0.01).onChange((value: number) => {
+            cells.forEach(cell => cell.uptakeRates[i] = value);
+            diffusionSim.updateCells(cells);
+        }).name('Cell Uptake Rate');
+
+        // WGSL, see the Expressions folder for the names they can use
+        expressions.reaction[i] ??= '';
+        expressions.secretion[i] ??= '';
+        const field = fieldNames(species)[i];
+        expressionControllers.set(reactionLabel(field),
+            folder.add(expressions.reaction, i).onFinishChange(() => applyExpressions()).name(`Reaction ${reactionLabel(field)}`));
+        expressionControllers.set(secretionLabel(field),
+            folder.add(expressions.secretion, i).onFinishChange(() => applyExpressions()).name('Cell Secretion'));
+    });
+
+    // changing the number of species changes the field size, so both of these reset
+    speciesFolder.add({
+        addSpecies: async () => {
+            species.push({ name: `Morphogen ${String.fromCharCode(65 + species.length)}`, diffusionConstant: 1.0, decayRate: 0.0 });
+            cellUptakeRates.push(0.0);
+            await resetSimulation();
+            populateSpeciesGUI();
+            populateExpressionGUI();
+        }
+    }, 'addSpecies').name('Add Species');
+
+    speciesFolder.add({
+        removeSpecies: async () => {
+            if (species.length > 1) {
+                species.pop();
+                cellUptakeRates.pop();
+                viewedSpecies = Math.min(viewedSpecies, species.length - 1);
+                await resetSimulation();
+                populateSpeciesGUI();
+                populateExpressionGUI();
+            }
+        }
+    }, 'removeSpecies').name('Remove Species');
+}
+
+async function saveSimulationState() {
+    const field = await diffusionSim.readResults() ?? concentrationField;
+    const buffer = serializeState({
+        dimensions: { ...dimensions },
+        species,
+        deltaTime,
+        boundaries,
+        integration,
+        cells: cells.map(saveCell),
+        random: { seed: random.seed, state: random.getState() },
+        flow: flowSettings,
+        reaction,
+        expressions,
+        settings: { simIterationsPerFrame, ruleInterval, viewedSpecies, activeRule, cellUptakeRates },
+    }, field, medium, flow);
+
+    downloadFile(buffer, 'simulation.celldev', 'application/octet-stream');
+}
+
+function downloadFile(data: BlobPart, name: string, type: string) {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([data], { type }));
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
+
+// Opens a file picker and hands the chosen file to load, reporting any error
+function openFile(accept: string, load: (file: File) => Promise<void>) {
+    openFiles(accept, false, (files) => load(files[0]));
+}
+
+// several at once for files that come in pairs, like raw data and its header
+function openFiles(accept: string, multiple: boolean, load: (files: File[]) => Promise<void>) {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.multiple = multiple;
+    input.onchange = async () => {
+        const files = [...input.files ?? []];
+        if (files.length == 0) {
+            return;
+        }
+        try {
+            await load(files);
+        } catch (error) {
+            console.error(error);
+            alert(`Could not load ${files.map((file) => file.name).join(', ')}: ${(error as Error).message}`);
+        }
+    };
+    input.click();
+}
+
+function createExportGUI() {
+    const folder = gui.addFolder('Export / Import');
+    folder.add(exportSettings, 'fieldFormat', {
+        'VTK Image Data (.vti)': 'vti', 'Legacy VTK (.vtk)': 'vtk', 'NRRD (.nrrd)': 'nrrd', 'Raw + JSON (numpy)': 'raw',
+    } satisfies Record<string, VolumeFormat>).name('Field Format');
+    folder.add({ exportField: () => exportField() }, 'exportField').name('Export Field');
+    folder.add(exportSettings, 'cellFormat', { 'CSV': 'csv', 'VTK Points (.vtk)': 'vtk' }).name('Cell Format');
+    folder.add({ exportCells: () => exportCells() }, 'exportCells').name('Export Cells');
+    folder.add({ importField: () => importField() }, 'importField').name('Import Field');
+    folder.add({
+        clearImported: () => {
+            importedVolume = null;
+        }
+    }, 'clearImported').name('Forget Imported Field');
+    folder.close();
+}
+
+// the step of what is on screen, the live field or a recorded frame
+function shownStep() {
+    return playbackCells ? recorder.frames[recordingDisplay.frame]?.step ?? 0 : stepCount;
+}
+
+async function exportField() {
+    await refreshField();
+    downloadVolume({ dimensions: { ...dimensions }, names: species.map(s => s.name), field: concentrationField }, `field_step_${shownStep()}`);
+}
+
+// in the chosen field format, name without the extension
+function downloadVolume(volume: VolumeData, name: string) {
+    const format = exportSettings.fieldFormat;
+    if (format == 'raw') {
+        const { data, header } = writeRaw(volume);
+        downloadFile(data, `${name}.raw`, 'application/octet-stream');
+        downloadFile(header, `${name}.json`, 'application/json');
+        return;
+    }
+    const writers = { vtk: writeVtk, vti: writeVti, nrrd: writeNrrd };
+    downloadFile(writers[format](volume), `${name}${volumeExtensions[format]}`, 'application/octet-stream');
+}
+
+function exportCells() {
+    const shown = playbackCells ?? cells;
+    const names = species.map(s => s.name);
+    if (exportSettings.cellFormat == 'csv') {
+        downloadFile(cellsToCsv(shown, names), `cells_step_${shownStep()}.csv`, 'text/csv');
+    } else {
+        downloadFile(cellsToVtk(shown, names), `cells_step_${shownStep()}.vtk`, 'application/octet-stream');
+    }
+}
+
+// Starts over from a field made elsewhere, resized to it. Extra volumes become new species,
+// cells outside the new domain are dropped.
+function importField() {
+    openFiles('.vtk,.vti,.nrrd,.raw,.json', true, async (files) => {
+        const volume = await readVolumeFiles(files);
+        const newSpecies = [
+            ...species,
+            ...volume.names.slice(species.length).map((name) => ({ name, diffusionConstant: 1.0, decayRate: 0.0 })),
+        ];
+        const fits = (cell: Cell) => (['x', 'y', 'z'] as const).every((axis) => cell.position[axis] < volume.dimensions[axis]);
+        importedVolume = volume;
+        await applySetup(
+            { dimensions: volume.dimensions, species: newSpecies, deltaTime, boundaries, integration },
+            volumeToField(volume, newSpecies.length),
+            cells.filter(fits));
+    });
+}
+
+function loadSimulationState() {
+    openFile('.celldev', async (file) => {
+        const { state, field, medium, flow } = deserializeState(await file.arrayBuffer());
+        await applySavedState(state, field, medium, flow);
+    });
+}
+
+function loadScenarioFile() {
+    openFile('.json', async (file) => {
+        const parsed = parseScenario(await file.text());
+        random.reseed(parsed.seed ?? random.seed);
+        const scenario = loadScenario(parsed);
+        activeRule = 'None';
+        reaction = defaultReaction('None');
+        expressions = noExpressions();
+        // a scenario describes the whole setup, which has no painted medium
+        medium = uniformMedium(scenario.dimensions);
+        await applySetup(scenario, scenario.field, scenario.cells);
+        if (scenario.warnings.length > 0) {
+            alert(scenario.warnings.join('\n'));
+        }
+    });
+}
+
+async function applySavedState(state: SavedState, field: Float32Array<ArrayBuffer>, savedMedium: Medium, savedFlow: FlowField) {
+    const settings = state.settings as Partial<{
+        simIterationsPerFrame: number, ruleInterval: number, viewedSpecies: number, activeRule: string, cellUptakeRates: number[] }>;
+    simIterationsPerFrame = settings.simIterationsPerFrame ?? simIterationsPerFrame;
+    ruleInterval = settings.ruleInterval ?? 1;
+    viewedSpecies = settings.viewedSpecies ?? 0;
+    activeRule = settings.activeRule ?? 'None';
+    cellUptakeRates = settings.cellUptakeRates ?? [];
+    reaction = state.reaction;
+    expressions = state.expressions;
+    random.seed = state.random.seed;
+    // these fit the saved dimensions, so the reset keeps them
+    medium = savedMedium;
+    Object.assign(flowSettings, state.flow);
+    flow = savedFlow;
+    flowArrows.update(flow);
+
+    await applySetup(state, field, state.cells.map(loadCell));
+    // after the reset, which starts the sequence over
+    random.setState(state.random.state);
+}
+
+// Replaces the domain, parameters, field and cells and brings the GUI up to date
+async function applySetup(
+    setup: { dimensions: typeof dimensions, species: Species[], deltaTime: number, boundaries: Boundaries, integration: Integration },
+    field: Float32Array<ArrayBuffer>,
+    newCells: Cell[]) {
+    isSimulating = false;
+
+    // update in place, the GUI holds references to these
+    Object.assign(dimensions, setup.dimensions);
+    species.splice(0, species.length, ...setup.species);
+    (['x', 'y', 'z'] as const).forEach(axis => Object.assign(boundaries[axis], setup.boundaries[axis]));
+    Object.assign(integration, setup.integration);
+    deltaTime = setup.deltaTime;
+
+    viewedSpecies = Math.min(viewedSpecies, species.length - 1);
+    cellUptakeRates = species.map((_, i) => cellUptakeRates[i] ?? 0.0);
+
+    await resetSimulation(field, newCells);
+
+    populateSpeciesGUI();
+    populateReactionGUI();
+    populateExpressionGUI();
+    setControllerValue('simIterationsPerFrame', simIterationsPerFrame);
+    setControllerValue('ruleInterval', ruleInterval);
+    setControllerValue('deltaTime', deltaTime);
+    setControllerValue('activeRule', activeRule);
+    gui.controllersRecursive().forEach(controller => controller.updateDisplay());
+    updateStability();
+}
+
+// for controllers bound to a copy of a global, like { deltaTime }
+function setControllerValue(property: string, value: unknown) {
+    const controller = gui.controllersRecursive().find((c) => c.property === property);
+    if (controller) {
+        (controller.object as Record<string, unknown>)[property] = value;
+    }
+}
+
+function createMetricsGUI() {
+    metricsFolder = gui.addFolder('Metrics');
+    metricsFolder.add(metricsDisplay, 'total').name('Total Mass').disable();
+    metricsFolder.add(metricsDisplay, 'range').name('Min / Mean / Max').disable();
+    metricsFolder.add(metricsDisplay, 'centre').name('Centre of Mass').disable();
+    metricsFolder.add(metricsDisplay, 'cellGradient').name('Gradient at Cells').disable();
+    metricsFolder.add(metricsDisplay, 'steadyState').name('Steady State').disable();
+    metricsFolder.add({ autoRange }, 'autoRange').onChange((value: boolean) => {
+        autoRange = value;
+        refreshField();
+    }).name('Auto Colour Range');
+    // with GPU rendering the field is otherwise only read back when something else needs it
+    metricsFolder.add({ liveMetrics }, 'liveMetrics').onChange((value: boolean) => {
+        liveMetrics = value;
+    }).name('Update Every Step');
+    metricsFolder.add({
+        refresh: async () => {
+            await refreshField();
+            updateMetrics(concentrationField);
+        }
+    }, 'refresh').name('Refresh Metrics');
+    metricsFolder.add({ exportMetrics: () => exportMetrics() }, 'exportMetrics').name('Export Metrics');
+
+    // histogram on the left, mean radial profile around cells on the right
+    metricsCanvas = document.createElement('canvas');
+    metricsCanvas.width = 240;
+    metricsCanvas.height = 80;
+    metricsCanvas.style.display = 'block';
+    metricsFolder.$children.appendChild(metricsCanvas);
+}
+
+function updateMetrics(field: Float32Array) {
+    const metrics = computeMetrics(field, dimensions, species.map(s => s.name), cells, lattice);
+    steadyState.update(field, stepCount);
+    metricsHistory.push({
+        step: stepCount,
+        metrics: metrics.map(({ histogram, radialProfiles, cellGradients, ...summary }) => summary),
+    });
+
+    const m = metrics[viewedSpecies];
+    metricsDisplay.total = m.total.toPrecision(6);
+    metricsDisplay.range = `${m.min.toPrecision(3)} / ${m.mean.toPrecision(3)} / ${m.max.toPrecision(3)}`;
+    metricsDisplay.centre = m.centreOfMass
+        ? `${m.centreOfMass.x.toFixed(1)}, ${m.centreOfMass.y.toFixed(1)}, ${m.centreOfMass.z.toFixed(1)}`
+        : '-';
+    metricsDisplay.cellGradient = cells.length > 0
+        ? `mean ${m.meanCellGradient.toPrecision(3)}, max ${m.maxCellGradient.toPrecision(3)}`
+        : 'no cells';
+    metricsDisplay.steadyState = steadyState.steadyStep !== null
+        ? `since step ${steadyState.steadyStep}`
+        : `changing (${steadyState.lastChange.toExponential(1)} per step)`;
+    metricsFolder.controllers.forEach(controller => controller.updateDisplay());
+
+    drawMetrics(m);
+}
+
+function drawMetrics(metrics: FieldMetrics) {
+    const context = metricsCanvas.getContext('2d');
+    if (!context) {
+        return;
+    }
+    const { width, height } = metricsCanvas;
+    const half = width / 2;
+    context.clearRect(0, 0, width, height);
+
+    const counts = metrics.histogram.counts;
+    // log scale, most voxels are usually near zero
+    const maxCount = Math.log1p(Math.max(...counts));
+    context.fillStyle = '#6fa8dc';
+    counts.forEach((count, i) => {
+        const barHeight = maxCount > 0 ? Math.log1p(count) / maxCount * (height - 4) : 0;
+        context.fillRect(i * half / counts.length, height - barHeight, half / counts.length - 1, barHeight);
+    });
+
+    const profile = meanRadialProfile(metrics.radialProfiles);
+    const maxValue = Math.max(...profile, 1e-12);
+    context.strokeStyle = '#f0a030';
+    context.beginPath();
+    profile.forEach((value, r) => {
+        const x = half + 4 + r * (half - 8) / Math.max(1, profile.length - 1);
+        const y = height - 2 - value / maxValue * (height - 4);
+        if (r == 0) {
+            context.moveTo(x, y);
+        } else {
+            context.lineTo(x, y);
+        }
+    });
+    context.stroke();
+}
+
+function exportMetrics() {
+    const rows = ['step,species,total,min,max,mean,centre x,centre y,centre z,mean cell gradient'];
+    for (const { step, metrics } of metricsHistory) {
+        for (const m of metrics) {
+            rows.push([
+                step, JSON.stringify(m.species), m.total, m.min, m.max, m.mean,
+                m.centreOfMass?.x ?? '', m.centreOfMass?.y ?? '', m.centreOfMass?.z ?? '', m.meanCellGradient,
+            ].join(','));
+        }
+    }
+    downloadFile(rows.join('\n') + '\n', 'metrics.csv', 'text/csv');
+}
+
+function createSliceGUI() {
+    sliceFolder = gui.addFolder('Slices');
+    sliceFolder.add({ show: false }, 'show').onChange((value: boolean) => {
+        sliceViewer.setVisible(value);
+        refreshField();
+    }).name('Show Slices');
+    for (const plane of ['xy', 'xz', 'yz'] as const) {
+        sliceControllers[plane] = sliceFolder.add(sliceViewer.indices, plane, 0, 0, 1)
+            .onChange(() => sliceViewer.draw())
+            .name(`${plane.toUpperCase()} Slice (${planeAxes[plane].normal})`);
+    }
+    sliceFolder.add({ clearProbe: () => sliceViewer.clearProbe() }, 'clearProbe').name('Clear Line Probe');
+    updateSliceGUI();
+}
+
+// keeps the slice sliders within the domain, centred after a resize
+function updateSliceGUI() {
+    if (!sliceFolder) {
+        return;
+    }
+    for (const plane of ['xy', 'xz', 'yz'] as const) {
+        const size = dimensions[planeAxes[plane].normal];
+        if (sliceViewer.indices[plane] >= size) {
+            sliceViewer.indices[plane] = Math.floor(size / 2);
+        }
+        sliceControllers[plane].max(size - 1).updateDisplay();
+    }
+    updateSliceViewer();
+}
+
+function updateSliceViewer() {
+    if (mediumSettings.show) {
+        sliceViewer.update(medium.diffusivity, dimensions, { min: 0, max: maxDiffusivity(medium) }, medium.obstacles);
+        return;
+    }
+    const clim = (mesh.material as THREE.ShaderMaterial).uniforms['u_clim'].value;
+    sliceViewer.update(speciesVolume(concentrationField, viewedSpecies), dimensions, { min: clim.x, max: clim.y }, medium.obstacles);
+}
+
+// Painting happens on the slice panels, which are shown while it is on
+function createMediumGUI() {
+    const folder = gui.addFolder('Medium');
+    folder.add(mediumSettings, 'paint').onChange((value: boolean) => {
+        sliceViewer.onPaint = value ? paintMedium : null;
+        if (value && !sliceViewer.visible) {
+            sliceFolder.controllers.find((c) => c.property === 'show')?.setValue(true);
+        }
+    }).name('Paint on Slices');
+    folder.add(mediumSettings, 'brush', { 'Obstacle': 'obstacle', 'Diffusivity': 'diffusivity', 'Erase': 'erase' }).name('Brush');
+    folder.add(mediumSettings, 'diffusivity', 0, 10, 0.01).name('Brush Diffusivity');
+    folder.add(mediumSettings, 'radius', 0, 32, 0.5).name('Brush Radius');
+    folder.add(mediumSettings, 'show').onChange(() => updateSliceViewer()).name('Show Diffusivity');
+    folder.add({ load: () => loadMedium() }, 'load').name('Load Medium');
+    folder.add({ export: () => downloadVolume(mediumToVolume(medium), 'medium') }, 'export').name('Export Medium');
+    folder.add({
+        clear: () => {
+            medium = uniformMedium(dimensions);
+            applyMedium();
+        }
+    }, 'clear').name('Clear Medium');
+    folder.close();
+}
+
+// cells keep their voxels, the brush goes around them
+function paintMedium(plane: SlicePlane, voxel: { x: number, y: number, z: number }) {
+    const { radius, brush, diffusivity } = mediumSettings;
+    if (paintDisc(medium, plane, voxel, radius, brush, diffusivity, (position) => lattice.isOccupied(position))) {
+        // the simulation gets it once per frame, not on every pointer move
+        mediumChanged = true;
+        updateSliceViewer();
+    }
+}
+
+// Takes over a replaced medium, removing any cells that are now inside an obstacle
+function applyMedium() {
+    lattice.obstacles = medium.obstacles;
+    const buried = cells.filter((cell) => lattice.isObstacle(cell.position));
+    buried.forEach((cell) => removeCell(cell, cells, lattice));
+    if (cellEditor.selected && buried.includes(cellEditor.selected)) {
+        cellEditor.select(null);
+    }
+    if (buried.length > 0) {
+        diffusionSim.updateCells(cells);
+        updateCellRendering();
+    }
+    diffusionSim.setMedium(medium);
+    mediumChanged = false;
+    updateStability();
+    updateSliceViewer();
+}
+
+function createFlowGUI() {
+    const folder = gui.addFolder('Flow');
+    folder.add(flowSettings, 'preset', { 'None': 'none', 'Uniform': 'uniform', 'Shear': 'shear', 'Vortex': 'vortex', 'Loaded': 'file' })
+        .onChange(() => applyFlowPreset()).name('Flow');
+    folder.add(flowSettings, 'speed', -5, 5, 0.01).onChange(() => applyFlowPreset()).name('Speed');
+    folder.add(flowSettings, 'axis', { 'X': 'x', 'Y': 'y', 'Z': 'z' }).onChange(() => applyFlowPreset()).name('Axis');
+    folder.add(flowArrows, 'visible').name('Show Arrows');
+    folder.add(flowArrows, 'spacing', 2, 32, 1).onChange(() => flowArrows.update(flow)).name('Arrow Spacing');
+    folder.add({ load: () => loadFlow() }, 'load').name('Load Flow');
+    folder.add({ export: () => downloadVolume(flowToVolume(flow), 'flow') }, 'export').name('Export Flow');
+    folder.close();
+}
+
+// a loaded flow stays as it is, the presets are generated for the current domain
+function applyFlowPreset() {
+    if (flowSettings.preset != 'file') {
+        flow = presetFlow(flowSettings, dimensions);
+    }
+    applyFlow();
+}
+
+function applyFlow() {
+    diffusionSim.setFlow(flow);
+    flowArrows.update(flow);
+    updateStability();
+}
+
+function createReactionGUI() {
+    reactionFolder = gui.addFolder('Reactions');
+    populateReactionGUI();
+    reactionFolder.close();
+}
+
+// the coefficients depend on the model, so the folder is rebuilt whenever it changes
+function populateReactionGUI() {
+    [...reactionFolder.children].forEach((child) => child.destroy());
+
+    reactionFolder.add(reaction, 'model', Object.keys(reactionModels))
+        .onChange((value: string) => applyReactionModel(value)).name('Model');
+    reactionModels[reaction.model]?.parameters.forEach((parameter, i) => {
+        reactionFolder.add(reaction.coefficients, i, parameter.min, parameter.max, parameter.step)
+            .onChange(() => diffusionSim.setReaction(reaction)).name(parameter.name);
+    });
+    reactionFolder.add({ restart: () => restartFromNoise() }, 'restart').name('Restart From Noise');
+}
+
+// A model brings its own pair of species and time step and starts over from its noisy initial state,
+// keeping the domain, boundaries and cells. None leaves the species as they are.
+async function applyReactionModel(name: string) {
+    reaction = defaultReaction(name);
+    const model = reactionModels[name];
+    if (model) {
+        random.reseed(random.seed);
+        await applySetup({
+            dimensions: { ...dimensions },
+            species: structuredClone(model.species),
+            deltaTime: model.deltaTime,
+            boundaries: structuredClone(boundaries),
+            integration: { ...integration },
+        }, reactionInitialField(model, dimensions, model.species.length, random), cells);
+    } else {
+        diffusionSim.setReaction(reaction);
+        populateReactionGUI();
+    }
+}
+
+// the same seed gives the same starting noise
+async function restartFromNoise() {
+    random.reseed(random.seed);
+    await resetSimulation(generateVolumeData(true), cells);
+}
+
+function createExpressionGUI() {
+    expressionFolder = gui.addFolder('Expressions');
+    populateExpressionGUI();
+    expressionFolder.close();
+}
+
+// The parameters and the names the expressions can use, the expressions themselves are in the species folders
+function populateExpressionGUI() {
+    [...expressionFolder.children].forEach((child) => child.destroy());
+
+    expressionDisplay.names = [...fieldNames(species), ...expressions.parameters.map((parameter) => parameter.name)].join(', ');
+    expressionFolder.add(expressionDisplay, 'names').name('Names').disable();
+    expressionErrorController = expressionFolder.add(expressionDisplay, 'errors').name('Errors').disable();
+    showExpressionErrors();
+
+    expressions.parameters.forEach((parameter, i) => {
+        const folder = expressionFolder.addFolder(parameter.name);
+        folder.add(parameter, 'name').onFinishChange(() => {
+            populateExpressionGUI();
+            applyExpressions();
+        }).name('Name');
+        // only the parameters buffer changes, no recompile
+        folder.add(parameter, 'value').onChange(() => applyExpressions()).name('Value');
+        folder.add({
+            remove: () => {
+                expressions.parameters.splice(i, 1);
+                populateExpressionGUI();
+                applyExpressions();
+            }
+        }, 'remove').name('Remove');
+    });
+
+    if (expressions.parameters.length < maxParameters) {
+        expressionFolder.add({
+            addParameter: () => {
+                const names = expressions.parameters.map((parameter) => parameter.name);
+                let n = expressions.parameters.length;
+                while (names.includes(`k${n}`)) {
+                    n++;
+                }
+                expressions.parameters.push({ name: `k${n}`, value: 1.0 });
+                populateExpressionGUI();
+                applyExpressions();
+            }
+        }, 'addParameter').name('Add Parameter');
+    }
+}
+
+// Recompiles the shader if the code changed, the field and cells carry on either way. Errors keep
+// the previous expressions running and show in the Expressions folder.
+async function applyExpressions() {
+    expressionErrors = await diffusionSim.setExpressions(expressions);
+    showExpressionErrors();
+}
+
+function showExpressionErrors() {
+    const describe = (error: ExpressionError) => error.label ? `${error.label}: ${error.message}` : error.message;
+    expressionDisplay.errors = expressionErrors.length == 0 ? 'none' : expressionErrors.map(describe).join('; ');
+    expressionErrorController.updateDisplay();
+    expressionErrorController.domElement.style.color = expressionErrors.length > 0 ? '#ff6060' : '';
+    // the whole list, the field only shows the start of it
+    expressionErrorController.domElement.title = expressionErrors.map(describe).join('\n');
+    expressionControllers.forEach((controller, label) => {
+        controller.domElement.style.color = expressionErrors.some((error) => error.label == label) ? '#ff6060' : '';
+    });
+}
+
+// Three volumes of velocity components in voxels per unit time, see volumeToFlow
+function loadFlow() {
+    openFiles('.vtk,.vti,.nrrd,.raw,.json', true, async (files) => {
+        const loaded = volumeToFlow(await readVolumeFiles(files));
+        if (!fitsDimensions(loaded, dimensions)) {
+            const size = ({ x, y, z }: { x: number, y: number, z: number }) => `${x} x ${y} x ${z}`;
+            throw new Error(`the flow is ${size(loaded.dimensions)}, the domain ${size(dimensions)}`);
+        }
+        flow = loaded;
+        flowSettings.preset = 'file';
+        gui.controllersRecursive().forEach(controller => controller.updateDisplay());
+        applyFlow();
+    });
+}
+
+// A diffusivity map and obstacle mask of the same size as the domain, see volumeToMedium
+function loadMedium() {
+    openFiles('.vtk,.vti,.nrrd,.raw,.json', true, async (files) => {
+        const volume = await readVolumeFiles(files);
+        if (!fitsDimensions(volume, dimensions)) {
+            const size = ({ x, y, z }: { x: number, y: number, z: number }) => `${x} x ${y} x ${z}`;
+            throw new Error(`the medium is ${size(volume.dimensions)}, the domain ${size(dimensions)}`);
+        }
+        medium = volumeToMedium(volume);
+        applyMedium();
+    });
+}
+
+function createEditGUI() {
+    editFolder = gui.addFolder('Edit Cells');
+    editFolder.add(cellEditor, 'enabled').onChange((value: boolean) => {
+        // edits apply to the live cells, not a recorded frame
+        if (value) {
+            leavePlayback();
+        }
+        cellEditor.setEnabled(value);
+    }).name('Edit Mode');
+    editFolder.add(cellEditor, 'plane', { 'XY': 'xy', 'XZ': 'xz', 'YZ': 'yz' }).onChange(() => {
+        updateEditGUI();
+    }).name('Place On');
+    editPlaneIndexController = editFolder.add(cellEditor, 'planeIndex', 0, 0, 1).onChange(() => {
+        cellEditor.updatePlaneHelper();
+    }).name('Plane Index');
+    selectedCellFolder = editFolder.addFolder('Selected Cell');
+    updateEditGUI();
+    populateSelectedCellGUI(null);
+}
+
+// keeps the placement plane within the domain
+function updateEditGUI() {
+    if (!editFolder) {
+        return;
+    }
+    const size = dimensions[planeAxes[cellEditor.plane].normal];
+    cellEditor.planeIndex = Math.min(cellEditor.planeIndex, size - 1);
+    editPlaneIndexController.max(size - 1).updateDisplay();
+    cellEditor.updatePlaneHelper();
+}
+
+function populateSelectedCellGUI(cell: Cell | null) {
+    if (!selectedCellFolder) {
+        return;
+    }
+    [...selectedCellFolder.children].forEach((child) => child.destroy());
+    if (!cell) {
+        selectedCellFolder.add({ none: 'click a cell to select it' }, 'none').name('Selected').disable();
+        return;
+    }
+
+    const { x, y, z } = cell.position;
+    selectedCellFolder.add({ position: `(${x}, ${y}, ${z})` }, 'position').name('Position').disable();
+    species.forEach((s, i) => {
+        selectedCellFolder.add(cell.productionRates, i, 0.0, 2000.0, 1.0).onChange(() => {
+            diffusionSim.updateCells(cells);
+            updateCellRendering();
+        }).name(`${s.name} Production`);
+        selectedCellFolder.add(cell.uptakeRates, i, 0.0, 10.0, 0.01).onChange(() => {
+            diffusionSim.updateCells(cells);
+        }).name(`${s.name} Uptake`);
+    });
+    const ruleName = Object.keys(cellRules).find((name) => cellRules[name] === cell.rule) ?? 'None';
+    selectedCellFolder.add({ rule: ruleName }, 'rule', Object.keys(cellRules)).onChange((value: string) => {
+        cell.rule = cellRules[value];
+        updateCellRendering();
+    }).name('Rule');
+    selectedCellFolder.add({ remove: () => cellEditor.deleteSelected() }, 'remove').name('Delete Cell');
+}
+
+function createCellDisplayGUI() {
+    const folder = gui.addFolder('Cell Display');
+    // production and concentration colouring use the viewed species
+    folder.add(cellRenderer, 'colouring', {
+        'Uniform': 'uniform', 'Production Rate': 'production', 'Local Concentration': 'concentration', 'Rule': 'rule',
+    } satisfies Record<string, CellColouring>).onChange(() => {
+        refreshField();
+    }).name('Colour By');
+    folder.add(cellRenderer, 'opacity', 0.05, 1.0, 0.05).name('Opacity');
+    folder.add(cellRenderer, 'lodThreshold', 1000, 200000, 1000).onChange(() => {
+        updateCellRendering();
+    }).name('Points Above');
+    folder.add(cellRenderer, 'pointSize', 1, 10, 1).onChange(() => {
+        updateCellRendering();
+    }).name('Point Size');
+}
+
+// Draws the live cells, or the recorded ones while scrubbing the timeline
+function updateCellRendering() {
+    if (!cellRenderer) {
+        return;
+    }
+    cellRenderer.species = viewedSpecies;
+    cellRenderer.update(playbackCells ?? cells, {
+        field: concentrationField,
+        dimensions,
+        numSpecies: species.length,
+        lattice: playbackLattice ?? lattice,
+    });
+}
+
+function createRecordingGUI() {
+    recordingFolder = gui.addFolder('Recording');
+    recordingFolder.add({ isRecording }, 'isRecording').onChange((value: boolean) => {
+        isRecording = value;
+    }).name('Record');
+    recordingFolder.add(recorder.options, 'every', 1, 500, 1).name('Every N Steps');
+    // frames of different resolutions can't be mixed, so this starts a new recording
+    recordingFolder.add(recorder.options, 'downsample', { 'Full': 1, 'Half': 2, 'Quarter': 4 }).onChange(() => {
+        recorder.clear();
+        updateRecordingGUI();
+    }).name('Resolution');
+    recordingFolder.add(recorder.options, 'compress').name('Compress (16 bit)');
+    recordingFolder.add(recorder.options, 'maxMegabytes', 50, 4000, 50).onChange(() => {
+        recorder.trim();
+        updateRecordingGUI();
+    }).name('Memory Limit (MB)');
+    recordingFolder.add(recordingDisplay, 'status').name('Recorded').disable();
+    timelineController = recordingFolder.add(recordingDisplay, 'frame', 0, 0, 1).onChange((value: number) => {
+        showRecordedFrame(value);
+    }).name('Timeline');
+    recordingFolder.add({ live: () => leavePlayback() }, 'live').name('Back to Live');
+    recordingFolder.add({ exportRecording: () => exportRecording() }, 'exportRecording').name('Export Recording');
+    recordingFolder.add({ loadRecording: () => loadRecording() }, 'loadRecording').name('Load Recording');
+    updateRecordingGUI();
+}
+
+function updateRecordingGUI() {
+    if (!recordingFolder) {
+        return;
+    }
+    const frames = recorder.frames.length;
+    recordingDisplay.status = frames > 0
+        ? `${frames} frames, steps ${recorder.frames[0].step}-${recorder.frames[frames - 1].step}, ${(recorder.byteLength / 1e6).toFixed(1)} MB`
+        : 'empty';
+    recordingDisplay.frame = Math.min(recordingDisplay.frame, Math.max(0, frames - 1));
+    timelineController.max(Math.max(0, frames - 1));
+    recordingFolder.controllers.forEach(controller => controller.updateDisplay());
+}
+
+// Shows a recorded frame in place of the live field and cells, the simulation itself is untouched
+function showRecordedFrame(index: number) {
+    if (index >= recorder.frames.length) {
+        return;
+    }
+    isSimulating = false;
+    if (cellEditor.enabled) {
+        editFolder.controllers.find((c) => c.property === 'enabled')?.setValue(false);
+    }
+    if (!playbackCells) {
+        liveField = concentrationField;
+    }
+    playbackCells = recorder.frames[index].cells.map(loadCell);
+    playbackLattice = new CellLattice(dimensions, playbackCells);
+    updateVolumeVisibility();
+    updateVolumeMesh(recorder.frameField(index));
+}
+
+function leavePlayback() {
+    if (!playbackCells) {
+        return;
+    }
+    playbackCells = null;
+    playbackLattice = null;
+    updateVolumeVisibility();
+    if (liveField) {
+        updateVolumeMesh(liveField);
+        liveField = null;
+    } else {
+        updateCellRendering();
+    }
+}
+
+function exportRecording() {
+    if (recorder.frames.length == 0) {
+        alert('Nothing recorded yet');
+        return;
+    }
+    downloadFile(serializeRecording(recorder), 'recording.cellrec', 'application/octet-stream');
+}
+
+function loadRecording() {
+    openFile('.cellrec', async (file) => {
+        const loaded = deserializeRecording(await file.arrayBuffer());
+        // frames are shown through the live volume, which has to have the same shape
+        if (loaded.dimensions.x != dimensions.x || loaded.dimensions.y != dimensions.y || loaded.dimensions.z != dimensions.z ||
+            loaded.numSpecies != species.length) {
+            throw new Error(`the recording is ${loaded.dimensions.x}x${loaded.dimensions.y}x${loaded.dimensions.z} with ${loaded.numSpecies} species, ` +
+                `set the simulation to the same size first, e.g. by loading the state or scenario it was recorded from`);
+        }
+        leavePlayback();
+        isRecording = false;
+        // keep the options object the GUI is bound to, and the memory limit set there
+        loaded.options = Object.assign(recorder.options, { ...loaded.options, maxMegabytes: recorder.options.maxMegabytes });
+        recorder = loaded;
+        recordingFolder.controllers.find((c) => c.property === 'isRecording')?.setValue(false);
+        recordingDisplay.frame = 0;
+        updateRecordingGUI();
+        showRecordedFrame(0);
+    });
+}
+
+// Shows whether the explicit scheme would be stable with the current settings, and how it is kept stable
+function updateStability() {
+    const fastest = maxDiffusivity(medium);
+    const flowSpeed = maxFlowSpeed(flow);
+    const number = stabilityNumber(species, deltaTime, fastest, flowSpeed);
+    const unstable = integration.method == 'explicit' && !integration.autoSubstep && number > 1;
+
+    if (integration.method == 'implicit') {
+        stability.status = 'implicit, always stable';
+    } else if (number <= 1) {
+        stability.status = 'stable';
+    } else if (integration.autoSubstep) {
+        stability.status = `${stableSubsteps(species, deltaTime, fastest, flowSpeed)} sub-steps per step`;
+    } else {
+        stability.status = `unstable (${number.toFixed(2)} > 1)`;
+    }
+
+    // the CPU fallback is much slower, which is worth knowing when it is used
+    stability.backend = diffusionSim.backend == 'webgpu' ? 'WebGPU' : 'CPU, no WebGPU';
+
+    stabilityController.updateDisplay();
+    stabilityController.domElement.style.color = unstable ? '#ff6060' : '';
+    backendController.updateDisplay();
+}
+
+// view of a single species' volume within a field holding every species
+function speciesVolume(field: Float32Array<ArrayBuffer>, index: number) {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    return field.subarray(index * numVoxels, (index + 1) * numVoxels);
+}
+
 function generateVolumeData(randomStart: boolean = false) {
-    const data = new Float32Array(dimensions.x * dimensions.y * dimensions.z);
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    if (!randomStart && importedVolume &&
+        (['x', 'y', 'z'] as const).every((axis) => importedVolume!.dimensions[axis] == dimensions[axis])) {
+        return volumeToField(importedVolume, species.length);
+    }
+    // the active reaction model's own noisy homogeneous state
+    const model = reactionModels[reaction.model];
+    if (randomStart && model && species.length >= 2) {
+        return reactionInitialField(model, dimensions, species.length, random);
+    }
+    const data = new Float32Array(numVoxels * species.length);
 
     if (randomStart) {
         for (let i = 0; i < data.length; i++) {
             const x = i % dimensions.x;
             const y = Math.floor((i / dimensions.x) % dimensions.y);
-            const z = Math.floor(i / (dimensions.x * dimensions.y));
+            const z = Math.floor((i % numVoxels) / (dimensions.x * dimensions.y));
 
             const dx = x - dimensions.x / 2;
             const dy = y - dimensions.y / 2;
             const dz = z - dimensions.z / 2;
             const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
 
-            let val = Math.max(0, 1 - distance / (dimensions.x / 2)) + Math.random() * 0.3;
+            let val = Math.max(0, 1 - distance / (dimensions.x / 2)) + random.next() * 0.3;
 
             if (val < 0.1) {
                 val = 0.0;
@@ -242,11 +1348,11 @@ function generateVolumeData(randomStart: boolean = false) {
     return data;
 }
 
-function createVolumeMesh() {
+function createVolumeMesh(data: Float32Array<ArrayBuffer> = generateVolumeData()) {
     // Create the 3D texture
-    const data = generateVolumeData();
+    concentrationField = data;
     volumeTexture = new THREE.Data3DTexture(
-        data,
+        speciesVolume(concentrationField, viewedSpecies),
         dimensions.x,
         dimensions.y,
         dimensions.z
@@ -299,12 +1405,21 @@ function createVolumeMesh() {
     return mesh;
 }
 
-function updateVolumeMesh(newData: Float32Array) {
-    volumeTexture.image.data = newData;
+function updateVolumeMesh(newData: Float32Array<ArrayBuffer>) {
+    concentrationField = newData;
+    volumeTexture.image.data = speciesVolume(concentrationField, viewedSpecies);
     volumeTexture.needsUpdate = true;
-    // (mesh.material as THREE.ShaderMaterial).uniforms['u_clim'].value.set(Math.min(...newData), Math.max(...newData));
+    if (autoRange) {
+        const volume = speciesVolume(concentrationField, viewedSpecies);
+        const [{ min, max }] = summariseField(volume, volume.length, ['']);
+        (mesh.material as THREE.ShaderMaterial).uniforms['u_clim'].value.set(min, max > min ? max : min + 1);
+    } else {
+        (mesh.material as THREE.ShaderMaterial).uniforms['u_clim'].value.set(0, 10);
+    }
     (mesh.material as THREE.ShaderMaterial).uniforms['u_size'].value.set(dimensions.x, dimensions.y, dimensions.z);
     (mesh.material as THREE.ShaderMaterial).needsUpdate = true;
+    updateSliceViewer();
+    updateCellRendering();
 }
 
 function addCellsToScene(num_cells: number) {
@@ -317,24 +1432,26 @@ function addCellsToScene(num_cells: number) {
 
         // Keep trying new positions until we find one without intersection
         do {
-            x = Math.floor(Math.random() * dimensions.x);
-            y = Math.floor(Math.random() * dimensions.y);
-            z = Math.floor(Math.random() * dimensions.z);
-            intersects = checkIntersection(cells, { x, y, z });
+            x = random.int(0, dimensions.x - 1);
+            y = random.int(0, dimensions.y - 1);
+            z = random.int(0, dimensions.z - 1);
+            intersects = !lattice.isFree({ x, y, z });
             attempts++;
         } while (intersects && attempts < maxAttempts);
 
         // Only add sphere if we found a valid position
         if (!intersects) {
-            const cell = new Cell({ x, y, z }, ((Math.random() / 0.5) + 0.5) * 1000.0);
-            scene.add(cell.mesh);
+            const cell = new Cell({ x, y, z }, species.map(() => ((random.next() / 0.5) + 0.5) * 1000.0), [...cellUptakeRates]);
+            cell.rule = cellRules[activeRule];
             cells.push(cell);
+            lattice.add(cell);
         }
     }
 
     if (diffusionSim) {
         diffusionSim.updateCells(cells);
     }
+    updateCellRendering();
 }
 
 function setupResizeHandler() {
@@ -364,6 +1481,20 @@ async function animate() {
         stats.begin();
         controls.update();
         renderer.render(scene, camera);
+        if (gpuRendering && !playbackCells) {
+            const uniforms = (mesh.material as THREE.ShaderMaterial).uniforms;
+            gpuVolume!.render(camera, {
+                species: viewedSpecies,
+                clim: { min: uniforms['u_clim'].value.x, max: uniforms['u_clim'].value.y },
+                renderStyle: uniforms['u_renderstyle'].value,
+                threshold: uniforms['u_renderthreshold'].value,
+            });
+        }
+        if (mediumChanged) {
+            diffusionSim.setMedium(medium);
+            mediumChanged = false;
+            updateStability();
+        }
         if (isSimulating) {
             stepSimulation();
         }
@@ -372,26 +1503,102 @@ async function animate() {
 }
 
 async function stepSimulation() {
+    if (stepping) {
+        return;
+    }
+    stepping = true;
+    try {
+        await advanceSimulation();
+    } finally {
+        stepping = false;
+    }
+}
+
+async function advanceSimulation() {
     console.log("stepping simulation");
+    leavePlayback();
+    let volumeData: Float32Array<ArrayBuffer> | null = null;
     for (let i = 0; i < simIterationsPerFrame; i++) {
         await diffusionSim.process();
+        stepCount++;
+        volumeData = null;
+        // cells without rules only change through the editor, nothing to react to
+        if (rulesDue(stepCount, ruleInterval) && cells.some(cell => cell.rule !== null)) {
+            volumeData = await diffusionSim.readResults();
+            if (volumeData) {
+                reactToField(volumeData);
+            }
+        }
+    }
+    // the GPU volume draws straight from the simulation, the field is only read back when something needs it
+    if (!fieldNeeded()) {
+        fieldStale = true;
+        return;
     }
-    const volumeData = await diffusionSim.readResults();
+    volumeData ??= await diffusionSim.readResults();
     if (volumeData) {
+        fieldStale = false;
         updateVolumeMesh(volumeData);
+        if (liveMetrics) {
+            updateMetrics(volumeData);
+        }
+        if (isRecording && recorder.record(stepCount, volumeData, cells)) {
+            updateRecordingGUI();
+        }
+    }
+}
+
+function reactToField(volumeData: Float32Array) {
+    const ratesChanged = applyCellRules(cells, volumeData, dimensions, species.length, lattice);
+    const { added, removed, moved } = resolveLifecycle(cells, lattice);
+    if (cellEditor.selected && removed.includes(cellEditor.selected)) {
+        cellEditor.select(null);
+    }
+
+    if (ratesChanged || added.length > 0 || removed.length > 0 || moved > 0) {
+        diffusionSim.updateCells(cells);
+        updateCellRendering();
     }
 }
 
 export async function initThree() {
     stats = createStats();
+    sliceViewer = new SliceViewer('/cm_viridis.png');
+    sliceViewer.indices = { xy: Math.floor(dimensions.z / 2), xz: Math.floor(dimensions.y / 2), yz: Math.floor(dimensions.x / 2) };
+    document.body.appendChild(sliceViewer.domElement);
     scene = createScene();
     renderer = createRenderer();
     camera = createCamera();
     controls = createControls();
+    cellRenderer = new CellRenderer(scene);
+    flowArrows = new FlowArrows(scene);
+    cellEditor = new CellEditor(camera, renderer.domElement, controls, scene, cellRenderer, {
+        cells: () => cells,
+        lattice: () => lattice,
+        dimensions: () => dimensions,
+        createCell: (position) => {
+            const cell = new Cell(position, species.map(() => ((random.next() / 0.5) + 0.5) * 1000.0), [...cellUptakeRates]);
+            cell.rule = cellRules[activeRule];
+            return cell;
+        },
+        cellsChanged: () => {
+            diffusionSim.updateCells(cells);
+            updateCellRendering();
+        },
+        selectionChanged: (cell) => populateSelectedCellGUI(cell),
+    });
     mesh = createVolumeMesh();
     // addCellsToScene(10, 5);
-    diffusionSim = await DiffusionSim.create(dimensions, volumeTexture.image.data as Float32Array, diffusionConstant, deltaTime, cells);
+    diffusionSim = await createSimulation(dimensions, concentrationField, species, deltaTime, cells, boundaries, integration);
+    diffusionSim.setMedium(medium);
+    diffusionSim.setFlow(flow);
+    diffusionSim.setReaction(reaction);
+    flowArrows.update(flow);
     createGUI();
+    attachGpuVolume();
+    if (gpuVolume) {
+        gui.controllers.find((c) => c.property === 'gpuRendering')?.setValue(true);
+    }
 
     console.log(renderer.getContext());
 
@@ -0,0 +1,20 @@
+import type { Species } from "./simulation";
+
+// The explicit update keeps a voxel's own concentration with weight 1 - 6*D*dt/dx^2 - k*dt, once that
+// goes negative the scheme oscillates and blows up. This returns the largest 6*D*dt/dx^2 + k*dt over
+// all species, so the scheme is stable while it is at most 1 (the usual 1/6 limit on D*dt/dx^2 without decay).
+// maxDiffusivity is the largest per voxel scale on D, see Medium. A flow adds the share of a voxel the
+// upwind step carries out of it, maxFlowSpeed * dt, see FlowField.
+export function stabilityNumber(species: Species[], deltaTime: number, maxDiffusivity = 1, maxFlowSpeed = 0) {
+    const deltaSpace = 1.0;
+    let number = 0;
+    for (const s of species) {
+        number = Math.max(number, 6 * s.diffusionConstant * maxDiffusivity * deltaTime / (deltaSpace * deltaSpace) + s.decayRate * deltaTime);
+    }
+    return number + maxFlowSpeed * deltaTime;
+}
+
+// Number of explicit sub-steps needed to take one step of deltaTime stably
+export function stableSubsteps(species: Species[], deltaTime: number, maxDiffusivity = 1, maxFlowSpeed = 0) {
+    return Math.max(1, Math.ceil(stabilityNumber(species, deltaTime, maxDiffusivity, maxFlowSpeed)));
+}
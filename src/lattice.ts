@@ -0,0 +1,146 @@
+import { Cell } from "./cells";
+import { random } from "./random";
+
+type Position = { x: number, y: number, z: number };
+
+const neighbourOffsets: Position[] = [
+    { x: -1, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+    { x: 0, y: -1, z: 0 }, { x: 0, y: 1, z: 0 },
+    { x: 0, y: 0, z: -1 }, { x: 0, y: 0, z: 1 },
+];
+
+// Occupancy lookup for the voxel grid, at most one cell per voxel and none in obstacles
+export class CellLattice {
+    private occupancy = new Map<number, Cell>();
+
+    constructor(public dimensions: Position, cells: Cell[] = [], public obstacles: Uint8Array | null = null) {
+        for (const cell of cells) {
+            this.add(cell);
+        }
+    }
+
+    inBounds(position: Position) {
+        return position.x >= 0 && position.y >= 0 && position.z >= 0 &&
+            position.x < this.dimensions.x && position.y < this.dimensions.y && position.z < this.dimensions.z;
+    }
+
+    private voxelIndex(position: Position) {
+        return position.x + position.y * this.dimensions.x + position.z * this.dimensions.x * this.dimensions.y;
+    }
+
+    cellAt(position: Position): Cell | undefined {
+        return this.occupancy.get(this.voxelIndex(position));
+    }
+
+    isOccupied(position: Position) {
+        return this.occupancy.has(this.voxelIndex(position));
+    }
+
+    isObstacle(position: Position) {
+        return this.obstacles?.[this.voxelIndex(position)] == 1;
+    }
+
+    // in bounds, not occupied and not solid
+    isFree(position: Position) {
+        return this.inBounds(position) && !this.isOccupied(position) && !this.isObstacle(position);
+    }
+
+    freeNeighbours(position: Position): Position[] {
+        return neighbourOffsets
+            .map((offset) => ({ x: position.x + offset.x, y: position.y + offset.y, z: position.z + offset.z }))
+            .filter((neighbour) => this.isFree(neighbour));
+    }
+
+    add(cell: Cell) {
+        this.occupancy.set(this.voxelIndex(cell.position), cell);
+    }
+
+    remove(cell: Cell) {
+        if (this.cellAt(cell.position) === cell) {
+            this.occupancy.delete(this.voxelIndex(cell.position));
+        }
+    }
+}
+
+// Places a copy of the cell in a random free neighbouring voxel, returns null if it is surrounded
+export function divideCell(cell: Cell, cells: Cell[], lattice: CellLattice): Cell | null {
+    const free = lattice.freeNeighbours(cell.position);
+    if (free.length == 0) {
+        return null;
+    }
+
+    const daughter = new Cell(free[random.int(0, free.length - 1)], [...cell.productionRates], [...cell.uptakeRates]);
+    daughter.rule = cell.rule;
+    daughter.state = { ...cell.state };
+
+    cells.push(daughter);
+    lattice.add(daughter);
+    return daughter;
+}
+
+export function removeCell(cell: Cell, cells: Cell[], lattice: CellLattice) {
+    const index = cells.indexOf(cell);
+    if (index != -1) {
+        cells.splice(index, 1);
+    }
+    lattice.remove(cell);
+}
+
+// Moves the cell one voxel along an axis, returns false if the target is out of bounds, occupied or solid
+export function moveCell(cell: Cell, step: Position, lattice: CellLattice): boolean {
+    if (Math.abs(step.x) + Math.abs(step.y) + Math.abs(step.z) != 1) {
+        return false;
+    }
+
+    return relocateCell(cell, { x: cell.position.x + step.x, y: cell.position.y + step.y, z: cell.position.z + step.z }, lattice);
+}
+
+// Moves the cell to any voxel, returns false if the target is out of bounds, occupied or solid
+export function relocateCell(cell: Cell, target: Position, lattice: CellLattice): boolean {
+    if (!lattice.isFree(target)) {
+        return false;
+    }
+
+    lattice.remove(cell);
+    cell.position = target;
+    lattice.add(cell);
+    return true;
+}
+
+function shuffled<T>(items: T[]) {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = random.int(0, i);
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+// Acts on the die, divide and move intents set by the cell rules. Deaths go first so their voxels
+// are free for the rest, then divisions, then moves. Within each stage cells are visited in random
+// order so no cell wins every conflict over a voxel.
+export function resolveLifecycle(cells: Cell[], lattice: CellLattice) {
+    const added: Cell[] = [];
+    const removed: Cell[] = [];
+    let moved = 0;
+
+    for (const cell of cells.filter((cell) => cell.die)) {
+        removeCell(cell, cells, lattice);
+        removed.push(cell);
+    }
+
+    for (const cell of shuffled(cells.filter((cell) => cell.divide))) {
+        const daughter = divideCell(cell, cells, lattice);
+        if (daughter) {
+            added.push(daughter);
+        }
+    }
+
+    for (const cell of shuffled(cells.filter((cell) => cell.move))) {
+        if (moveCell(cell, cell.move!, lattice)) {
+            moved++;
+        }
+    }
+
+    return { added, removed, moved };
+}
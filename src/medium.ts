@@ -0,0 +1,119 @@
+import type { SlicePlane } from "./slices";
+import { planeAxes } from "./slices";
+import type { VolumeData } from "./volumeFiles";
+
+type Position = { x: number, y: number, z: number };
+
+// What the space between the cells is made of, one value per voxel in the field layout
+export interface Medium {
+    dimensions: Position;
+    diffusivity: Float32Array; // scales every species' diffusion constant, 1 is free diffusion
+    obstacles: Uint8Array; // 1 where the voxel is solid: nothing diffuses into it and no cell can sit in it
+}
+
+export type Brush = 'obstacle' | 'erase' | 'diffusivity';
+
+export function uniformMedium(dimensions: Position): Medium {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    return { dimensions: { ...dimensions }, diffusivity: new Float32Array(numVoxels).fill(1), obstacles: new Uint8Array(numVoxels) };
+}
+
+// also for anything else laid out over the voxels, like a FlowField
+export function fitsDimensions(grid: { dimensions: Position }, dimensions: Position) {
+    return (['x', 'y', 'z'] as const).every((axis) => grid.dimensions[axis] == dimensions[axis]);
+}
+
+// The diffusivity of the face between two voxels, the harmonic mean keeps the flux across it the same
+// seen from either side, and zero if either side doesn't let anything through
+export function faceDiffusivity(a: number, b: number) {
+    return a + b > 0 ? 2 * a * b / (a + b) : 0;
+}
+
+// No face diffuses faster than the fastest voxel, which is what the explicit scheme's stability depends on
+export function maxDiffusivity(medium: Medium | null) {
+    if (!medium) {
+        return 1;
+    }
+    let max = 0;
+    medium.diffusivity.forEach((value, i) => {
+        if (!medium.obstacles[i]) {
+            max = Math.max(max, value);
+        }
+    });
+    return max;
+}
+
+// Paints a disc of voxels within the slice through centre, skipping voxels for which keep returns true
+// (the ones holding a cell). Returns whether anything changed.
+export function paintDisc(
+    medium: Medium,
+    plane: SlicePlane,
+    centre: Position,
+    radius: number,
+    brush: Brush,
+    diffusivity: number,
+    keep: (position: Position) => boolean = () => false) {
+    const { dimensions } = medium;
+    const { u, v } = planeAxes[plane];
+    const reach = Math.floor(radius);
+    let changed = false;
+    for (let j = -reach; j <= reach; j++) {
+        for (let i = -reach; i <= reach; i++) {
+            if (i * i + j * j > radius * radius) {
+                continue;
+            }
+            const position = { ...centre };
+            position[u] += i;
+            position[v] += j;
+            if (position[u] < 0 || position[v] < 0 || position[u] >= dimensions[u] || position[v] >= dimensions[v] || keep(position)) {
+                continue;
+            }
+            const index = position.x + position.y * dimensions.x + position.z * dimensions.x * dimensions.y;
+            const obstacle = brush == 'obstacle' ? 1 : 0;
+            const value = brush == 'diffusivity' ? diffusivity : brush == 'erase' ? 1 : medium.diffusivity[index];
+            if (medium.obstacles[index] != obstacle || medium.diffusivity[index] != value) {
+                medium.obstacles[index] = obstacle;
+                medium.diffusivity[index] = value;
+                changed = true;
+            }
+        }
+    }
+    return changed;
+}
+
+// For saving with the volume writers, as two named volumes
+export function mediumToVolume(medium: Medium): VolumeData {
+    const { dimensions } = medium;
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const field = new Float32Array(numVoxels * 2);
+    field.set(medium.diffusivity);
+    field.set(medium.obstacles, numVoxels);
+    return { dimensions: { ...dimensions }, names: ['diffusivity', 'obstacles'], field };
+}
+
+// Reads the volumes named diffusivity and obstacles, or otherwise the first as the diffusivity and the second
+// as the mask. A lone volume also marks the voxels it gives no diffusivity as obstacles.
+export function volumeToMedium(volume: VolumeData): Medium {
+    const { dimensions, names, field } = volume;
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const volumeAt = (index: number) => field.subarray(index * numVoxels, (index + 1) * numVoxels);
+    const named = (name: string) => names.findIndex((n) => n.toLowerCase() == name);
+
+    let diffusivityIndex = named('diffusivity');
+    let obstaclesIndex = named('obstacles');
+    if (diffusivityIndex < 0 && obstaclesIndex < 0) {
+        diffusivityIndex = 0;
+        obstaclesIndex = names.length > 1 ? 1 : -1;
+    }
+
+    const medium = uniformMedium(dimensions);
+    if (diffusivityIndex >= 0) {
+        medium.diffusivity.set(volumeAt(diffusivityIndex).map((value) => Math.max(value, 0)));
+    }
+    if (obstaclesIndex >= 0) {
+        volumeAt(obstaclesIndex).forEach((value, i) => medium.obstacles[i] = value > 0 ? 1 : 0);
+    } else if (names.length == 1) {
+        medium.diffusivity.forEach((value, i) => medium.obstacles[i] = value > 0 ? 0 : 1);
+    }
+    return medium;
+}
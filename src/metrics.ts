@@ -0,0 +1,188 @@
+import { Cell } from "./cells";
+import { sampleEnvironment } from "./behaviour";
+import { CellLattice } from "./lattice";
+
+type Position = { x: number, y: number, z: number };
+
+// Field statistics of one species, the field holds every species one volume after another
+export interface FieldSummary {
+    species: string;
+    total: number;
+    min: number;
+    max: number;
+    mean: number;
+}
+
+export interface Histogram {
+    min: number;
+    max: number;
+    counts: number[]; // equal width bins between min and max
+}
+
+export interface FieldMetrics extends FieldSummary {
+    histogram: Histogram;
+    centreOfMass: Position | null; // null for an empty field
+    // mean concentration at each whole voxel distance from the cell, per cell, occupied voxels are left out
+    radialProfiles: number[][];
+    cellGradients: number[]; // gradient magnitude at each cell
+    meanCellGradient: number;
+    maxCellGradient: number;
+}
+
+export interface MetricsOptions {
+    bins: number;
+    maxRadius: number;
+}
+
+const defaultOptions: MetricsOptions = { bins: 32, maxRadius: 8 };
+
+export function summariseField(field: Float32Array, numVoxels: number, speciesNames: string[]): FieldSummary[] {
+    return speciesNames.map((name, s) => {
+        let total = 0;
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = s * numVoxels; i < (s + 1) * numVoxels; i++) {
+            total += field[i];
+            min = Math.min(min, field[i]);
+            max = Math.max(max, field[i]);
+        }
+        return { species: name, total, min, max, mean: total / numVoxels };
+    });
+}
+
+export function fieldHistogram(field: Float32Array, numVoxels: number, species: number, bins: number, min: number, max: number): Histogram {
+    const counts = new Array<number>(bins).fill(0);
+    const width = (max - min) / bins;
+    for (let i = species * numVoxels; i < (species + 1) * numVoxels; i++) {
+        // everything lands in a bin when the field is constant
+        const bin = width > 0 ? Math.floor((field[i] - min) / width) : 0;
+        counts[Math.min(Math.max(bin, 0), bins - 1)]++;
+    }
+    return { min, max, counts };
+}
+
+// Concentration weighted mean voxel position, in the same voxel coordinates as cell positions
+export function centreOfMass(field: Float32Array, dimensions: Position, species: number): Position | null {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const offset = species * numVoxels;
+    let total = 0, x = 0, y = 0, z = 0;
+    for (let k = 0; k < dimensions.z; k++) {
+        for (let j = 0; j < dimensions.y; j++) {
+            for (let i = 0; i < dimensions.x; i++) {
+                const value = field[offset + i + j * dimensions.x + k * dimensions.x * dimensions.y];
+                total += value;
+                x += value * i;
+                y += value * j;
+                z += value * k;
+            }
+        }
+    }
+    return total != 0 ? { x: x / total, y: y / total, z: z / total } : null;
+}
+
+export function radialProfile(field: Float32Array, dimensions: Position, species: number, lattice: CellLattice, centre: Position, maxRadius: number): number[] {
+    const offset = species * dimensions.x * dimensions.y * dimensions.z;
+    const sums = new Array<number>(maxRadius + 1).fill(0);
+    const counts = new Array<number>(maxRadius + 1).fill(0);
+
+    for (let z = centre.z - maxRadius; z <= centre.z + maxRadius; z++) {
+        for (let y = centre.y - maxRadius; y <= centre.y + maxRadius; y++) {
+            for (let x = centre.x - maxRadius; x <= centre.x + maxRadius; x++) {
+                const voxel = { x, y, z };
+                const r = Math.round(Math.sqrt((x - centre.x) ** 2 + (y - centre.y) ** 2 + (z - centre.z) ** 2));
+                if (r > maxRadius || !lattice.isFree(voxel)) {
+                    continue;
+                }
+                sums[r] += field[offset + x + y * dimensions.x + z * dimensions.x * dimensions.y];
+                counts[r]++;
+            }
+        }
+    }
+    return sums.map((sum, r) => counts[r] > 0 ? sum / counts[r] : 0);
+}
+
+// Mean over cells of their radial profiles
+export function meanRadialProfile(profiles: number[][]): number[] {
+    const mean = new Array<number>(profiles[0]?.length ?? 0).fill(0);
+    for (const profile of profiles) {
+        profile.forEach((value, r) => mean[r] += value / profiles.length);
+    }
+    return mean;
+}
+
+export function computeSpeciesMetrics(
+    field: Float32Array,
+    dimensions: Position,
+    species: number,
+    speciesName: string,
+    numSpecies: number,
+    cells: Cell[],
+    lattice: CellLattice,
+    options: MetricsOptions = defaultOptions): FieldMetrics {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const [summary] = summariseField(field.subarray(species * numVoxels, (species + 1) * numVoxels), numVoxels, [speciesName]);
+    const cellGradients = cells.map((cell) => {
+        const gradient = sampleEnvironment(field, dimensions, numSpecies, lattice, cell).gradients[species];
+        return Math.sqrt(gradient.x ** 2 + gradient.y ** 2 + gradient.z ** 2);
+    });
+
+    return {
+        ...summary,
+        histogram: fieldHistogram(field, numVoxels, species, options.bins, summary.min, summary.max),
+        centreOfMass: centreOfMass(field, dimensions, species),
+        radialProfiles: cells.map((cell) => radialProfile(field, dimensions, species, lattice, cell.position, options.maxRadius)),
+        cellGradients,
+        meanCellGradient: cellGradients.length > 0 ? cellGradients.reduce((sum, g) => sum + g, 0) / cellGradients.length : 0,
+        maxCellGradient: cellGradients.reduce((max, g) => Math.max(max, g), 0),
+    };
+}
+
+export function computeMetrics(
+    field: Float32Array,
+    dimensions: Position,
+    speciesNames: string[],
+    cells: Cell[],
+    lattice: CellLattice,
+    options: MetricsOptions = defaultOptions): FieldMetrics[] {
+    return speciesNames.map((name, s) => computeSpeciesMetrics(field, dimensions, s, name, speciesNames.length, cells, lattice, options));
+}
+
+// Watches successive fields for the step at which they stop changing: the largest change per step,
+// relative to the largest value, drops below the tolerance. A later change above the tolerance,
+// e.g. from cells dividing, starts the wait over.
+export class SteadyStateDetector {
+    public steadyStep: number | null = null;
+    public lastChange = Infinity;
+    private previous: Float32Array | null = null;
+    private previousStep = 0;
+
+    constructor(public tolerance = 1e-5) { }
+
+    update(field: Float32Array, step: number) {
+        if (this.previous && this.previous.length == field.length && step > this.previousStep) {
+            let change = 0;
+            let scale = 0;
+            for (let i = 0; i < field.length; i++) {
+                change = Math.max(change, Math.abs(field[i] - this.previous[i]));
+                scale = Math.max(scale, Math.abs(field[i]));
+            }
+            this.lastChange = scale > 0 ? change / scale / (step - this.previousStep) : 0;
+
+            if (this.lastChange >= this.tolerance) {
+                this.steadyStep = null;
+            } else if (this.steadyStep === null) {
+                this.steadyStep = step;
+            }
+        }
+        this.previous = new Float32Array(field);
+        this.previousStep = step;
+        return this.steadyStep !== null;
+    }
+
+    reset() {
+        this.steadyStep = null;
+        this.lastChange = Infinity;
+        this.previous = null;
+        this.previousStep = 0;
+    }
+}
@@ -1,138 +1,467 @@
 import { Cell } from "./cells";
-
-export class DiffusionSim {
+import { FlowField, maxFlowSpeed } from "./flow";
+import { stableSubsteps } from "./integration";
+import { Medium, maxDiffusivity } from "./medium";
+import { Reaction, reactionModels } from "./reactions";
+import {
+    CustomExpressions, ExpressionError, checkNames, expressionShader, locateMessage, maxParameters, noExpressions,
+} from "./expressions";
+import type { Boundaries, BoundaryType, Integration, Simulation, Species } from "./simulation";
+
+// must match the constants in diffusionShader
+const boundaryKinds: Record<BoundaryType, number> = { dirichlet: 0, neumann: 1, periodic: 2 };
+// marks solid voxels in the cell index buffer, must match OBSTACLE in diffusionShader
+export const obstacleIndex = -2;
+
+export class DiffusionSim implements Simulation {
+    public readonly backend = 'webgpu';
     public device: GPUDevice;
     private dimensions: { x: number, y: number, z: number };
+    private numSpecies: number;
+    private species: Species[];
+    private deltaTime: number;
+    private integration: Integration;
+    private substeps = 1;
+    private maxDiffusivity = 1;
+    private maxFlowSpeed = 0;
 
     private stagingBuffer: GPUBuffer;
     private dimensionsBuffer: GPUBuffer;
-    private combinedConstantBuffer: GPUBuffer;
+    private speciesBuffer: GPUBuffer;
+    private implicitSpeciesBuffer: GPUBuffer;
+    private boundariesBuffer: GPUBuffer;
     private deltaTimeBuffer: GPUBuffer;
     private cellsBuffer: GPUBuffer;
+    private diffusivityBuffer: GPUBuffer;
+    private velocityBuffer: GPUBuffer;
+    private advectionBuffer: GPUBuffer;
+    private implicitAdvectionBuffer: GPUBuffer;
+    private reactionBuffer: GPUBuffer;
+    private parametersBuffer: GPUBuffer;
 
     private diffusionComputePipeline: GPUComputePipeline;
     private diffusionBindGroup: GPUBindGroup;
+    private jacobiComputePipeline: GPUComputePipeline;
+    // one per direction of the ping-pong between the concentration and jacobi buffers
+    private jacobiBindGroups: GPUBindGroup[] = [];
+    // the generated part of the diffusion shader the pipeline was built from, see expressionShader
+    private expressionCode: string;
 
-    public readPromise: Promise<Float32Array | null> | null = null;
+    public readPromise: Promise<Float32Array<ArrayBuffer> | null> | null = null;
 
     private concentrationBuffer: GPUBuffer;
     private concentrationOutputBuffer: GPUBuffer;
     private cellIndexBuffer: GPUBuffer;
+    private jacobiBuffer: GPUBuffer;
+
+    // what was last written to the cell buffers, so updateCells only writes what changed
+    private cellData = new Float32Array(0);
+    private cellSlots = new Map<number, number>(); // voxel index -> cell index
+    private obstacles: Uint8Array | null = null;
 
     constructor(
         device: GPUDevice,
         dimensions: { x: number, y: number, z: number },
+        species: Species[],
+        deltaTime: number,
+        integration: Integration,
         concentrationBuffer: GPUBuffer,
         concentrationOutputBuffer: GPUBuffer,
+        jacobiBuffer: GPUBuffer,
         cellIndexBuffer: GPUBuffer,
         stagingBuffer: GPUBuffer,
         dimensionsBuffer: GPUBuffer,
         cellsBuffer: GPUBuffer,
-        combinedConstantBuffer: GPUBuffer,
+        diffusivityBuffer: GPUBuffer,
+        velocityBuffer: GPUBuffer,
+        advectionBuffer: GPUBuffer,
+        implicitAdvectionBuffer: GPUBuffer,
+        reactionBuffer: GPUBuffer,
+        parametersBuffer: GPUBuffer,
+        speciesBuffer: GPUBuffer,
+        implicitSpeciesBuffer: GPUBuffer,
+        boundariesBuffer: GPUBuffer,
         deltaTimeBuffer: GPUBuffer,
         diffusionComputePipeline: GPUComputePipeline,
-        diffusionBindGroup: GPUBindGroup) {
+        jacobiComputePipeline: GPUComputePipeline,
+        expressionCode: string) {
         this.device = device;
         this.dimensions = dimensions;
+        this.numSpecies = species.length;
+        this.species = structuredClone(species);
+        this.deltaTime = deltaTime;
+        this.integration = { ...integration };
 
         this.concentrationBuffer = concentrationBuffer;
         this.concentrationOutputBuffer = concentrationOutputBuffer;
+        this.jacobiBuffer = jacobiBuffer;
         this.cellIndexBuffer = cellIndexBuffer;
         this.stagingBuffer = stagingBuffer;
         this.dimensionsBuffer = dimensionsBuffer;
-        this.combinedConstantBuffer = combinedConstantBuffer;
+        this.speciesBuffer = speciesBuffer;
+        this.implicitSpeciesBuffer = implicitSpeciesBuffer;
+        this.boundariesBuffer = boundariesBuffer;
         this.deltaTimeBuffer = deltaTimeBuffer;
         this.cellsBuffer = cellsBuffer;
+        this.diffusivityBuffer = diffusivityBuffer;
+        this.velocityBuffer = velocityBuffer;
+        this.advectionBuffer = advectionBuffer;
+        this.implicitAdvectionBuffer = implicitAdvectionBuffer;
+        this.reactionBuffer = reactionBuffer;
+        this.parametersBuffer = parametersBuffer;
 
         this.diffusionComputePipeline = diffusionComputePipeline;
-        this.diffusionBindGroup = diffusionBindGroup;
+        this.jacobiComputePipeline = jacobiComputePipeline;
+        this.expressionCode = expressionCode;
+        this.diffusionBindGroup = this.createDiffusionBindGroup();
+        this.jacobiBindGroups = this.createJacobiBindGroups();
     }
 
-    setCombinedConstant(diffusionConstant: number, deltaTime: number) {
-        const deltaSpace = 1.0;
-        this.device.queue.writeBuffer(this.combinedConstantBuffer, 0, new Float32Array([diffusionConstant * (deltaTime / (deltaSpace * deltaSpace))]));
+    // Holds the latest field once process has been submitted, for drawing it without a read back
+    get fieldBuffer() {
+        return this.concentrationBuffer;
+    }
+
+    // Writes the species constants, advection and delta time for the current integration method
+    private updateTimeStepping() {
+        if (this.integration.method == 'implicit') {
+            this.substeps = 1;
+            // the explicit pass then only adds cell production, uptake and reactions, diffusion, decay and advection are solved by the jacobi iterations
+            this.device.queue.writeBuffer(this.speciesBuffer, 0, new Float32Array(this.numSpecies * 2));
+            this.device.queue.writeBuffer(this.implicitSpeciesBuffer, 0, DiffusionSim.flattenSpecies(this.species, this.deltaTime));
+            this.device.queue.writeBuffer(this.advectionBuffer, 0, new Float32Array([0]));
+            this.device.queue.writeBuffer(this.implicitAdvectionBuffer, 0, new Float32Array([this.deltaTime]));
+        } else {
+            this.substeps = this.integration.autoSubstep ?
+                stableSubsteps(this.species, this.deltaTime, this.maxDiffusivity, this.maxFlowSpeed) : 1;
+            this.device.queue.writeBuffer(this.speciesBuffer, 0, DiffusionSim.flattenSpecies(this.species, this.deltaTime / this.substeps));
+            this.device.queue.writeBuffer(this.advectionBuffer, 0, new Float32Array([this.deltaTime / this.substeps]));
+        }
+        this.device.queue.writeBuffer(this.deltaTimeBuffer, 0, new Float32Array([this.deltaTime / this.substeps]));
+    }
+
+    setSpeciesConstants(species: Species[], deltaTime: number) {
+        this.species = structuredClone(species);
+        this.deltaTime = deltaTime;
+        this.updateTimeStepping();
+    }
+
+    setIntegration(integration: Integration) {
+        this.integration = { ...integration };
+        this.updateTimeStepping();
+    }
+
+    setBoundaries(boundaries: Boundaries) {
+        this.device.queue.writeBuffer(this.boundariesBuffer, 0, DiffusionSim.flattenBoundaries(boundaries));
     }
 
     setDeltaTime(value: number) {
-        this.device.queue.writeBuffer(this.deltaTimeBuffer, 0, new Float32Array([value]));
+        this.deltaTime = value;
+        this.updateTimeStepping();
     }
 
-    static flattenCells(cells: Cell[]) {
-        const cellData = new Float32Array(cells.length * 4); // 4 floats per cell: x,y,z,production
+    // 2 floats per species: combined diffusion constant, decay constant
+    static flattenSpecies(species: Species[], deltaTime: number) {
+        const deltaSpace = 1.0;
+        const speciesData = new Float32Array(species.length * 2);
+        for (let i = 0; i < species.length; i++) {
+            speciesData[i * 2] = species[i].diffusionConstant * (deltaTime / (deltaSpace * deltaSpace));
+            speciesData[i * 2 + 1] = species[i].decayRate * deltaTime;
+        }
+        return speciesData;
+    }
+
+    // matches the Boundaries struct in diffusionShader: vec3<u32> kinds, padding, vec3<f32> values
+    static flattenBoundaries(boundaries: Boundaries) {
+        const boundaryData = new ArrayBuffer(32);
+        const kinds = new Uint32Array(boundaryData, 0, 3);
+        const values = new Float32Array(boundaryData, 16, 3);
+        (['x', 'y', 'z'] as const).forEach((axis, i) => {
+            kinds[i] = boundaryKinds[boundaries[axis].type];
+            values[i] = boundaries[axis].value;
+        });
+        return boundaryData;
+    }
+
+    // matches the Reaction struct in diffusionShader: u32 model, padding, vec4<f32> coefficients
+    static flattenReaction(reaction: Reaction) {
+        const reactionData = new ArrayBuffer(32);
+        new Uint32Array(reactionData, 0, 1)[0] = reactionModels[reaction.model]?.id ?? 0;
+        new Float32Array(reactionData, 16, 4).set(reaction.coefficients.slice(0, 4));
+        return reactionData;
+    }
+
+    // matches parameters in diffusionShader, unused ones are zero
+    static flattenParameters(parameters: { value: number }[]) {
+        const parameterData = new Float32Array(maxParameters);
+        parameterData.set(parameters.slice(0, maxParameters).map((parameter) => parameter.value));
+        return parameterData;
+    }
+
+    static flattenCells(cells: Cell[], numSpecies: number) {
+        const stride = 3 + numSpecies * 2; // x,y,z, one production rate per species, then one uptake rate per species
+        const cellData = new Float32Array(cells.length * stride);
         for (let i = 0; i < cells.length; i++) {
             const cell = cells[i];
-            const baseIndex = i * 4;
+            const baseIndex = i * stride;
             cellData[baseIndex] = cell.position.x;
             cellData[baseIndex + 1] = cell.position.y;
             cellData[baseIndex + 2] = cell.position.z;
-            cellData[baseIndex + 3] = cell.productionRate;
+            for (let s = 0; s < numSpecies; s++) {
+                cellData[baseIndex + 3 + s] = cell.productionRates[s] ?? 0;
+                cellData[baseIndex + 3 + numSpecies + s] = cell.uptakeRates[s] ?? 0;
+            }
         }
         return cellData;
     }
 
-    updateCells(cells: Cell[]) {
-        const cellData = DiffusionSim.flattenCells(cells);
+    // Maps every voxel to the index of the cell occupying it, obstacleIndex if solid, or -1 if empty
+    static buildCellIndices(cells: Cell[], dimensions: { x: number, y: number, z: number }, obstacles: Uint8Array | null = null) {
+        const cellIndexData = new Int32Array(dimensions.x * dimensions.y * dimensions.z);
+        cellIndexData.fill(-1);
+        obstacles?.forEach((obstacle, i) => {
+            if (obstacle) {
+                cellIndexData[i] = obstacleIndex;
+            }
+        });
 
-        // Destroy the old buffer
-        this.cellsBuffer.destroy();
+        for (let i = 0; i < cells.length; i++) {
+            const cellPosition = cells[i].position;
+            const cellIndex = cellPosition.x + cellPosition.y * dimensions.x + cellPosition.z * dimensions.x * dimensions.y;
 
-        // Create a new buffer with the correct size
-        this.cellsBuffer = this.device.createBuffer({
-            label: "Cells data buffer",
-            size: Math.max(cells.length * 4 * 4, 4), // 4 floats per cell * 4 bytes per float
-            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-        });
+            cellIndexData[cellIndex] = i;
+        }
+        return cellIndexData;
+    }
 
-        // Write the new cell data
-        this.device.queue.writeBuffer(this.cellsBuffer, 0, cellData);
+    // Maps every occupied voxel to the index of the cell in it, the sparse form of buildCellIndices
+    static buildCellSlots(cells: Cell[], dimensions: { x: number, y: number, z: number }) {
+        const slots = new Map<number, number>();
+        cells.forEach((cell, i) => {
+            slots.set(cell.position.x + cell.position.y * dimensions.x + cell.position.z * dimensions.x * dimensions.y, i);
+        });
+        return slots;
+    }
 
-        let cellIndexData = new Int32Array(this.dimensions.x * this.dimensions.y * this.dimensions.z);
-        cellIndexData.fill(-1);
+    // The voxels whose cell index differs between the two, in ascending order
+    static changedCellIndices(previous: Map<number, number>, next: Map<number, number>) {
+        const changed: number[] = [];
+        previous.forEach((slot, voxel) => {
+            if (next.get(voxel) !== slot) {
+                changed.push(voxel);
+            }
+        });
+        next.forEach((_, voxel) => {
+            if (!previous.has(voxel)) {
+                changed.push(voxel);
+            }
+        });
+        return changed.sort((a, b) => a - b);
+    }
 
-        for (let i = 0; i < cells.length; i++) {
-            const cell = cells[i];
-            const cellPosition = cell.position;
-            const cellIndex = cellPosition.x + cellPosition.y * this.dimensions.x + cellPosition.z * this.dimensions.x * this.dimensions.y;
+    // The records, of stride values each, that differ between the two or are new, in ascending order
+    static changedRecords(previous: Float32Array, next: Float32Array, stride: number) {
+        const changed: number[] = [];
+        for (let record = 0; record * stride < next.length; record++) {
+            for (let i = record * stride; i < (record + 1) * stride; i++) {
+                if (i >= previous.length || !Object.is(previous[i], next[i])) {
+                    changed.push(record);
+                    break;
+                }
+            }
+        }
+        return changed;
+    }
 
-            cellIndexData[cellIndex] = i;
+    // Groups ascending indices into runs of consecutive ones, each run is one buffer write
+    static contiguousRuns(indices: number[]) {
+        const runs: { start: number, count: number }[] = [];
+        for (const index of indices) {
+            const last = runs[runs.length - 1];
+            if (last && last.start + last.count == index) {
+                last.count++;
+            } else {
+                runs.push({ start: index, count: 1 });
+            }
         }
+        return runs;
+    }
 
-        // Destroy the old buffer
-        this.cellIndexBuffer.destroy();
+    // Doubles the capacity until the required bytes fit, so a growing population rarely needs a new buffer
+    static bufferCapacity(required: number, current: number) {
+        let capacity = Math.max(current, 256);
+        while (capacity < required) {
+            capacity *= 2;
+        }
+        return capacity;
+    }
 
-        // Create a new buffer with the correct size
-        this.cellIndexBuffer = this.device.createBuffer({
-            label: "Cell index buffer",
-            size: cellIndexData.byteLength,
-            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    // Works out what updateCells writes: the cell records and cell index voxels that changed since the last
+    // update, as slices at element offsets, and the new cells buffer size when the records outgrow it. A new
+    // buffer starts empty, so every record is written to it.
+    static planCellUpdate(
+        previous: { cellData: Float32Array, cellSlots: Map<number, number>, bufferSize: number },
+        cells: Cell[],
+        dimensions: { x: number, y: number, z: number },
+        numSpecies: number,
+        obstacles: Uint8Array | null = null) {
+        const stride = 3 + numSpecies * 2;
+        const cellData = DiffusionSim.flattenCells(cells, numSpecies);
+        const grown = cellData.byteLength > previous.bufferSize;
+        const bufferSize = grown ? DiffusionSim.bufferCapacity(cellData.byteLength, previous.bufferSize) : previous.bufferSize;
+
+        // records past the last cell are left as they are, no voxel refers to them any more
+        const changedRecords = DiffusionSim.changedRecords(grown ? new Float32Array(0) : previous.cellData, cellData, stride);
+        const recordWrites = DiffusionSim.contiguousRuns(changedRecords).map(({ start, count }) => ({
+            offset: start * stride,
+            data: cellData.subarray(start * stride, (start + count) * stride),
+        }));
+
+        const cellSlots = DiffusionSim.buildCellSlots(cells, dimensions);
+        const indexWrites = DiffusionSim.contiguousRuns(DiffusionSim.changedCellIndices(previous.cellSlots, cellSlots)).map(({ start, count }) => {
+            const data = new Int32Array(count);
+            for (let i = 0; i < count; i++) {
+                data[i] = cellSlots.get(start + i) ?? (obstacles?.[start + i] ? obstacleIndex : -1);
+            }
+            return { offset: start, data };
         });
 
-        // Write the new cell index data
+        return { cellData, cellSlots, bufferSize, grown, recordWrites, indexWrites };
+    }
+
+    // Writes only the cell records and voxels that changed since the last update. The cells buffer is
+    // only replaced, along with the bind groups, when the cells outgrow it.
+    updateCells(cells: Cell[]) {
+        const update = DiffusionSim.planCellUpdate(
+            { cellData: this.cellData, cellSlots: this.cellSlots, bufferSize: this.cellsBuffer.size },
+            cells, this.dimensions, this.numSpecies, this.obstacles);
+
+        if (update.grown) {
+            this.cellsBuffer.destroy();
+            this.cellsBuffer = this.device.createBuffer({
+                label: "Cells data buffer",
+                size: update.bufferSize,
+                usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+            });
+            this.diffusionBindGroup = this.createDiffusionBindGroup();
+        }
+        for (const { offset, data } of update.recordWrites) {
+            this.device.queue.writeBuffer(this.cellsBuffer, offset * 4, data);
+        }
+        for (const { offset, data } of update.indexWrites) {
+            this.device.queue.writeBuffer(this.cellIndexBuffer, offset * 4, data);
+        }
+        this.cellData = update.cellData;
+        this.cellSlots = update.cellSlots;
+    }
+
+    // Writes the diffusivity map and rewrites the whole cell index buffer with the obstacles under the cells
+    setMedium(medium: Medium) {
+        this.obstacles = new Uint8Array(medium.obstacles);
+        this.device.queue.writeBuffer(this.diffusivityBuffer, 0, new Float32Array(medium.diffusivity));
+        const cellIndexData = DiffusionSim.buildCellIndices([], this.dimensions, this.obstacles);
+        this.cellSlots.forEach((cell, voxel) => cellIndexData[voxel] = cell);
         this.device.queue.writeBuffer(this.cellIndexBuffer, 0, cellIndexData);
+        this.maxDiffusivity = maxDiffusivity(medium);
+        this.updateTimeStepping();
+    }
 
+    setReaction(reaction: Reaction) {
+        this.device.queue.writeBuffer(this.reactionBuffer, 0, DiffusionSim.flattenReaction(reaction));
+    }
+
+    // Rebuilds the diffusion pipeline when the expressions' code changes, keeping every buffer so the field and
+    // cells carry on. If it doesn't compile, returns the errors and keeps the previous pipeline and parameters.
+    async setExpressions(expressions: CustomExpressions): Promise<ExpressionError[]> {
+        const errors = checkNames(this.species, expressions);
+        if (errors.length > 0) {
+            return errors;
+        }
+
+        const { code, sources } = expressionShader(this.species, expressions);
+        if (code != this.expressionCode) {
+            const module = this.device.createShaderModule({ label: "Diffusion shader", code: diffusionShader + code });
+            const info = await module.getCompilationInfo();
+            const messages = info.messages.filter((message) => message.type == 'error');
+            if (messages.length > 0) {
+                // the generated code starts after diffusionShader's lines
+                const offset = diffusionShader.split('\n').length - 1;
+                return messages.map((message) => locateMessage(sources, message.lineNum - offset, message.message));
+            }
+            try {
+                this.diffusionComputePipeline = await this.device.createComputePipelineAsync({
+                    layout: 'auto',
+                    compute: { module, entryPoint: 'main' },
+                });
+            } catch (error) {
+                return [{ label: '', message: error instanceof Error ? error.message : String(error) }];
+            }
+            this.diffusionBindGroup = this.createDiffusionBindGroup();
+            this.expressionCode = code;
+        }
+        this.device.queue.writeBuffer(this.parametersBuffer, 0, DiffusionSim.flattenParameters(expressions.parameters));
+        return [];
+    }
 
-        // Recreate the bind group with the new buffer
-        this.diffusionBindGroup = this.device.createBindGroup({
+    setFlow(flow: FlowField) {
+        this.device.queue.writeBuffer(this.velocityBuffer, 0, new Float32Array(flow.velocity));
+        this.maxFlowSpeed = maxFlowSpeed(flow);
+        this.updateTimeStepping();
+    }
+
+    private createDiffusionBindGroup() {
+        return this.device.createBindGroup({
             label: "Diffusion bind group",
             layout: this.diffusionComputePipeline.getBindGroupLayout(0),
             entries: [
                 { binding: 0, resource: { buffer: this.concentrationBuffer } },
                 { binding: 1, resource: { buffer: this.concentrationOutputBuffer } },
                 { binding: 2, resource: { buffer: this.dimensionsBuffer } },
-                { binding: 3, resource: { buffer: this.combinedConstantBuffer } },
+                { binding: 3, resource: { buffer: this.speciesBuffer } },
                 { binding: 4, resource: { buffer: this.deltaTimeBuffer } },
                 { binding: 5, resource: { buffer: this.cellIndexBuffer } },
                 { binding: 6, resource: { buffer: this.cellsBuffer } },
+                { binding: 7, resource: { buffer: this.boundariesBuffer } },
+                { binding: 9, resource: { buffer: this.diffusivityBuffer } },
+                { binding: 10, resource: { buffer: this.velocityBuffer } },
+                { binding: 11, resource: { buffer: this.advectionBuffer } },
+                { binding: 12, resource: { buffer: this.reactionBuffer } },
+                { binding: 13, resource: { buffer: this.parametersBuffer } },
             ],
         });
     }
 
+    // the jacobi pass only reads the cell index, diffusivity and velocity buffers, which never change size
+    private createJacobiBindGroups() {
+        return [
+            [this.concentrationBuffer, this.jacobiBuffer],
+            [this.jacobiBuffer, this.concentrationBuffer],
+        ].map(([guessBuffer, outputBuffer]) => this.device.createBindGroup({
+            label: "Jacobi bind group",
+            layout: this.jacobiComputePipeline.getBindGroupLayout(0),
+            entries: [
+                { binding: 0, resource: { buffer: this.concentrationOutputBuffer } },
+                { binding: 1, resource: { buffer: outputBuffer } },
+                { binding: 2, resource: { buffer: this.dimensionsBuffer } },
+                { binding: 3, resource: { buffer: this.implicitSpeciesBuffer } },
+                { binding: 5, resource: { buffer: this.cellIndexBuffer } },
+                { binding: 7, resource: { buffer: this.boundariesBuffer } },
+                { binding: 8, resource: { buffer: guessBuffer } },
+                { binding: 9, resource: { buffer: this.diffusivityBuffer } },
+                { binding: 10, resource: { buffer: this.velocityBuffer } },
+                { binding: 11, resource: { buffer: this.implicitAdvectionBuffer } },
+            ],
+        }));
+    }
+
     static async create(
         dimensions: { x: number, y: number, z: number },
         concentrationData: Float32Array,
-        diffusionConstant: number,
+        species: Species[],
         deltaTime: number,
-        cells: Cell[]) {
+        cells: Cell[],
+        boundaries: Boundaries,
+        integration: Integration) {
         if (!navigator.gpu) {
             throw new Error('WebGPU not supported');
         }
@@ -155,10 +484,10 @@ export class DiffusionSim {
         const concentrationBuffer = device.createBuffer({
             label: "Concentration buffer",
             size: concentrationData.byteLength,
-            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
         });
 
-        device.queue.writeBuffer(concentrationBuffer, 0, concentrationData);
+        device.queue.writeBuffer(concentrationBuffer, 0, concentrationData.buffer, concentrationData.byteOffset, concentrationData.byteLength);
 
         const concentrationOutputBuffer = device.createBuffer({
             label: "Concentration output buffer",
@@ -166,6 +495,13 @@ export class DiffusionSim {
             usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
         });
 
+        // Holds every other jacobi iteration in implicit mode
+        const jacobiBuffer = device.createBuffer({
+            label: "Jacobi iteration buffer",
+            size: concentrationData.byteLength,
+            usage: GPUBufferUsage.STORAGE,
+        });
+
         // Create staging buffer for reading back results
         const stagingBuffer = device.createBuffer({
             label: "Staging buffer for reading results",
@@ -179,12 +515,24 @@ export class DiffusionSim {
             usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
         });
 
-        const combinedConstantBuffer = device.createBuffer({
-            label: "Combined constant buffer",
-            size: 4,
+        const speciesBuffer = device.createBuffer({
+            label: "Species constants buffer",
+            size: species.length * 2 * 4,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+        });
+
+        const implicitSpeciesBuffer = device.createBuffer({
+            label: "Implicit species constants buffer",
+            size: species.length * 2 * 4,
             usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
         });
 
+        const boundariesBuffer = device.createBuffer({
+            label: "Boundaries buffer",
+            size: 32,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
         const deltaTimeBuffer = device.createBuffer({
             label: "Delta time buffer",
             size: 4,
@@ -192,82 +540,145 @@ export class DiffusionSim {
         });
 
         device.queue.writeBuffer(dimensionsBuffer, 0, new Uint32Array([dimensions.x, dimensions.y, dimensions.z]));
-        device.queue.writeBuffer(deltaTimeBuffer, 0, new Float32Array([deltaTime]));
 
         const cellsBuffer = device.createBuffer({
             label: "Cells data buffer",
-            size: Math.max(cells.length * 4 * 4, 4), // Ensure minimum size of 4 bytes (1 float) 4 floats per cell (x,y,z,production) * 4 bytes per float
+            size: DiffusionSim.bufferCapacity(cells.length * (3 + species.length * 2) * 4, 0), // grown by updateCells
             usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
         });
 
-        // Create cell index buffer
+        // Create cell index buffer, empty to start with, updateCells then only writes the occupied voxels
         const cellIndexBuffer = device.createBuffer({
             label: "Cell index buffer",
             size: dimensions.x * dimensions.y * dimensions.z * 4,
             usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
         });
+        device.queue.writeBuffer(cellIndexBuffer, 0, new Int32Array(dimensions.x * dimensions.y * dimensions.z).fill(-1));
+
+        // scales the diffusion constants per voxel, uniform until setMedium
+        const diffusivityBuffer = device.createBuffer({
+            label: "Diffusivity buffer",
+            size: dimensions.x * dimensions.y * dimensions.z * 4,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+        });
+        device.queue.writeBuffer(diffusivityBuffer, 0, new Float32Array(dimensions.x * dimensions.y * dimensions.z).fill(1));
+
+        // x, y, z per voxel, still until setFlow
+        const velocityBuffer = device.createBuffer({
+            label: "Velocity buffer",
+            size: dimensions.x * dimensions.y * dimensions.z * 3 * 4,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+        });
+
+        // the time step each pass moves along the flow by, only one of them is non zero
+        const advectionBuffer = device.createBuffer({
+            label: "Advection time step buffer",
+            size: 4,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
 
-        // Create diffusion compute pipeline
+        const implicitAdvectionBuffer = device.createBuffer({
+            label: "Implicit advection time step buffer",
+            size: 4,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        // no reaction until setReaction
+        const reactionBuffer = device.createBuffer({
+            label: "Reaction buffer",
+            size: 32,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        const parametersBuffer = device.createBuffer({
+            label: "Expression parameters buffer",
+            size: maxParameters * 4,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        // Create diffusion compute pipeline, without expressions until setExpressions
+        const expressionCode = expressionShader(species, noExpressions()).code;
         const diffusionComputePipeline = device.createComputePipeline({
             layout: 'auto',
             compute: {
                 module: device.createShaderModule({
-                    code: diffusionShader,
+                    code: diffusionShader + expressionCode,
                 }),
                 entryPoint: 'main',
             },
         });
 
-        // Create diffusion bind group
-        const diffusionBindGroup = device.createBindGroup({
-            label: "Diffusion bind group",
-            layout: diffusionComputePipeline.getBindGroupLayout(0),
-            entries: [
-                { binding: 0, resource: { buffer: concentrationBuffer } },
-                { binding: 1, resource: { buffer: concentrationOutputBuffer } },
-                { binding: 2, resource: { buffer: dimensionsBuffer } },
-                { binding: 3, resource: { buffer: combinedConstantBuffer } },
-                { binding: 4, resource: { buffer: deltaTimeBuffer } },
-                { binding: 5, resource: { buffer: cellIndexBuffer } },
-                { binding: 6, resource: { buffer: cellsBuffer } },
-            ],
+        const jacobiComputePipeline = device.createComputePipeline({
+            layout: 'auto',
+            compute: {
+                module: device.createShaderModule({
+                    code: jacobiShader,
+                }),
+                entryPoint: 'main',
+            },
         });
 
-        const sim = new DiffusionSim(device, dimensions,
-            concentrationBuffer, concentrationOutputBuffer, cellIndexBuffer,
-            stagingBuffer, dimensionsBuffer, cellsBuffer, combinedConstantBuffer,
-            deltaTimeBuffer, diffusionComputePipeline, diffusionBindGroup);
+        const sim = new DiffusionSim(device, dimensions, species, deltaTime, integration,
+            concentrationBuffer, concentrationOutputBuffer, jacobiBuffer, cellIndexBuffer,
+            stagingBuffer, dimensionsBuffer, cellsBuffer, diffusivityBuffer, velocityBuffer, advectionBuffer, implicitAdvectionBuffer, reactionBuffer,
+            parametersBuffer, speciesBuffer, implicitSpeciesBuffer, boundariesBuffer,
+            deltaTimeBuffer, diffusionComputePipeline, jacobiComputePipeline, expressionCode);
 
         sim.updateCells(cells);
-        sim.setCombinedConstant(diffusionConstant, deltaTime);
+        sim.updateTimeStepping();
+        sim.setBoundaries(boundaries);
         return sim;
     }
 
     async process() {
         const diffusionCommandEncoder = this.device.createCommandEncoder();
-        diffusionCommandEncoder.clearBuffer(this.concentrationOutputBuffer);
-
-        const diffusionComputePass = diffusionCommandEncoder.beginComputePass();
-        diffusionComputePass.setPipeline(this.diffusionComputePipeline);
-        diffusionComputePass.setBindGroup(0, this.diffusionBindGroup);
 
         const workgroupSize = 8;
         const dimX = Math.ceil(this.dimensions.x / workgroupSize);
         const dimY = Math.ceil(this.dimensions.y / workgroupSize);
         const dimZ = Math.ceil(this.dimensions.z / workgroupSize);
-        diffusionComputePass.dispatchWorkgroups(dimX, dimY, dimZ);
-        diffusionComputePass.end();
 
-        diffusionCommandEncoder.copyBufferToBuffer(
-            this.concentrationOutputBuffer, 0,
-            this.concentrationBuffer, 0,
-            this.concentrationBuffer.size
-        );
+        for (let i = 0; i < this.substeps; i++) {
+            diffusionCommandEncoder.clearBuffer(this.concentrationOutputBuffer);
+
+            const diffusionComputePass = diffusionCommandEncoder.beginComputePass();
+            diffusionComputePass.setPipeline(this.diffusionComputePipeline);
+            diffusionComputePass.setBindGroup(0, this.diffusionBindGroup);
+            diffusionComputePass.dispatchWorkgroups(dimX, dimY, dimZ);
+            diffusionComputePass.end();
+
+            if (this.integration.method == 'explicit') {
+                diffusionCommandEncoder.copyBufferToBuffer(
+                    this.concentrationOutputBuffer, 0,
+                    this.concentrationBuffer, 0,
+                    this.concentrationBuffer.size
+                );
+            }
+        }
+
+        if (this.integration.method == 'implicit') {
+            // the output buffer now holds the right hand side, iterate from the current field towards the solution
+            // an even number of iterations ends up back in the concentration buffer
+            const iterations = Math.max(2, this.integration.iterations + this.integration.iterations % 2);
+            const jacobiComputePass = diffusionCommandEncoder.beginComputePass();
+            jacobiComputePass.setPipeline(this.jacobiComputePipeline);
+            for (let i = 0; i < iterations; i++) {
+                jacobiComputePass.setBindGroup(0, this.jacobiBindGroups[i % 2]);
+                jacobiComputePass.dispatchWorkgroups(dimX, dimY, dimZ);
+            }
+            jacobiComputePass.end();
+
+            diffusionCommandEncoder.copyBufferToBuffer(
+                this.concentrationBuffer, 0,
+                this.concentrationOutputBuffer, 0,
+                this.concentrationBuffer.size
+            );
+        }
 
         this.device.queue.submit([diffusionCommandEncoder.finish()]);
     }
 
-    async readResults(): Promise<Float32Array | null> {
+    async readResults(): Promise<Float32Array<ArrayBuffer> | null> {
         // If there's already a read in progress, wait for it to complete
         if (this.readPromise) {
             return this.readPromise;
@@ -300,26 +711,145 @@ export class DiffusionSim {
     async cleanup() {
         this.concentrationBuffer.destroy();
         this.concentrationOutputBuffer.destroy();
+        this.jacobiBuffer.destroy();
         this.cellIndexBuffer.destroy();
         this.stagingBuffer.destroy();
         this.dimensionsBuffer.destroy();
-        this.combinedConstantBuffer.destroy();
+        this.speciesBuffer.destroy();
+        this.implicitSpeciesBuffer.destroy();
+        this.boundariesBuffer.destroy();
         this.cellsBuffer.destroy();
+        this.diffusivityBuffer.destroy();
+        this.velocityBuffer.destroy();
+        this.advectionBuffer.destroy();
+        this.implicitAdvectionBuffer.destroy();
+        this.reactionBuffer.destroy();
+        this.parametersBuffer.destroy();
         this.deltaTimeBuffer.destroy();
     }
 }
 
-const diffusionShader = /* wgsl */`
+// Shared by diffusionShader and jacobiShader
+const commonShader = /* wgsl */`
+// boundary kinds, see boundaryKinds
+const DIRICHLET = 0u;
+const NEUMANN = 1u;
+const PERIODIC = 2u;
+// cell index of solid voxels, see obstacleIndex
+const OBSTACLE = -2;
+
+struct SpeciesConstants {
+    combined_constant: f32,
+    decay_constant: f32,
+}
+
+struct Boundaries {
+    kind: vec3<u32>,
+    value: vec3<f32>,
+}
+
+@group(0) @binding(2) var<uniform> dimensions: vec3<u32>;
+@group(0) @binding(7) var<uniform> boundaries: Boundaries;
+@group(0) @binding(9) var<storage, read> diffusivity: array<f32>;
+// x, y, z per voxel
+@group(0) @binding(10) var<storage, read> velocity: array<f32>;
+// the time step to move along the flow by in this pass, 0 in the explicit pass when the jacobi iterations do it
+@group(0) @binding(11) var<uniform> advection: f32;
+
+fn xyz_to_index(x: u32, y: u32, z: u32) -> i32 {
+    return i32(x + y * dimensions.x + z * dimensions.x * dimensions.y);
+}
+
+// index of the voxel one step along an axis, wrapping around periodic boundaries
+// if out of bounds otherwise, return -1
+fn neighbour_index(position: vec3<u32>, axis: u32, direction: i32) -> i32 {
+    var p = vec3<i32>(position);
+    let size = vec3<i32>(dimensions);
+    p[axis] += direction;
+    if (p[axis] < 0 || p[axis] >= size[axis]) {
+        if (boundaries.kind[axis] != PERIODIC) {
+            return -1;
+        }
+        p[axis] = (p[axis] + size[axis]) % size[axis];
+    }
+    return xyz_to_index(u32(p.x), u32(p.y), u32(p.z));
+}
+
+// harmonic mean of the diffusivities either side of a face, so the flux across it is the same from both
+fn face_diffusivity(a: f32, b: f32) -> f32 {
+    if (a + b <= 0.0) {
+        return 0.0;
+    }
+    return 2.0 * a * b / (a + b);
+}
+
+// flow through the face to a neighbour, positive out of this voxel, the voxel's own velocity on boundaries
+fn face_velocity(idx: i32, neighbour_idx: i32, axis: u32, direction: f32) -> f32 {
+    var component = velocity[idx * 3 + i32(axis)];
+    if (neighbour_idx != -1) {
+        component = 0.5 * (component + velocity[neighbour_idx * 3 + i32(axis)]);
+    }
+    return direction * component;
+}
+`;
+
+const diffusionShader = commonShader + /* wgsl */`
+// reaction models, see the ids in reactionModels
+const GRAY_SCOTT = 1u;
+const GIERER_MEINHARDT = 2u;
+const SCHNAKENBERG = 3u;
+
+struct Reaction {
+    model: u32,
+    coefficients: vec4<f32>,
+}
+
 @group(0) @binding(0) var<storage, read> input_concentration: array<f32>;
 @group(0) @binding(1) var<storage, read_write> output_concentration: array<f32>;
-@group(0) @binding(2) var<uniform> dimensions: vec3<u32>;
-@group(0) @binding(3) var<storage, read> combined_constant: f32;
+@group(0) @binding(3) var<storage, read> species: array<SpeciesConstants>;
 @group(0) @binding(4) var<uniform> delta_time: f32;
 @group(0) @binding(5) var<storage, read> cell_indices: array<i32>;
 @group(0) @binding(6) var<storage, read> cells: array<f32>;
+@group(0) @binding(12) var<uniform> reaction: Reaction;
+// the named parameters of the expressions, 4 per element, see maxParameters
+@group(0) @binding(13) var<uniform> parameters: array<vec4<f32>, 4>;
+
+// custom_reaction and custom_secretion are generated from the user's expressions and appended, see expressionShader
+
+// mean concentration of species s over the open voxels around a cell, what its secretion expression sees
+fn surrounding_concentration(position: vec3<u32>, s: i32) -> f32 {
+    let num_voxels = i32(dimensions.x * dimensions.y * dimensions.z);
+    var total = 0.0;
+    var count = 0.0;
+    for (var i = 0u; i < 6u; i++) {
+        let neighbour_idx = neighbour_index(position, i / 2u, select(1, -1, i % 2u == 0u));
+        if (neighbour_idx != -1 && cell_indices[neighbour_idx] == -1) {
+            total += input_concentration[s * num_voxels + neighbour_idx];
+            count += 1.0;
+        }
+    }
+    return select(0.0, total / count, count > 0.0);
+}
 
-fn xyz_to_index(x: u32, y: u32, z: u32) -> i32 {
-    return i32(x + y * dimensions.x + z * dimensions.x * dimensions.y);
+// rates of change of the first two species, u and v, from the reactions between them, see the rates in reactionModels
+fn reaction_rates(u: f32, v: f32) -> vec2<f32> {
+    let p = reaction.coefficients;
+    switch reaction.model {
+        case GRAY_SCOTT: { // feed, kill
+            let uvv = u * v * v;
+            return vec2<f32>(-uvv + p.x * (1.0 - u), uvv - (p.x + p.y) * v);
+        }
+        case GIERER_MEINHARDT: { // rate, activator decay, inhibitor decay, basal production
+            return p.x * vec2<f32>(u * u / max(v, 1e-6) - p.y * u + p.w, u * u - p.z * v);
+        }
+        case SCHNAKENBERG: { // rate, a, b
+            let uuv = u * u * v;
+            return p.x * vec2<f32>(p.y - u + uuv, p.z - uuv);
+        }
+        default: {
+            return vec2<f32>(0.0);
+        }
+    }
 }
 
 @compute @workgroup_size(8, 8, 8)
@@ -328,117 +858,192 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
     let x = global_id.x;
     let y = global_id.y;
     let z = global_id.z;
+    if (x >= dimensions.x || y >= dimensions.y || z >= dimensions.z) {
+        return;
+    }
     let idx = xyz_to_index(x, y, z);
 
-    // get neighbor indices, if out of bounds, return -1
-    let x_prev_idx = select(xyz_to_index(x - 1u, y, z), -1, x == 0u);
-    let x_next_idx = select(xyz_to_index(x + 1u, y, z), -1, x + 1u == dimensions.x);
-    let y_prev_idx = select(xyz_to_index(x, y - 1u, z), -1, y == 0u);
-    let y_next_idx = select(xyz_to_index(x, y + 1u, z), -1, y + 1u == dimensions.y);
-    let z_prev_idx = select(xyz_to_index(x, y, z - 1u), -1, z == 0u);
-    let z_next_idx = select(xyz_to_index(x, y, z + 1u), -1, z + 1u == dimensions.z);
+    // each species is stored as a full volume, one after another
+    let num_species = arrayLength(&species);
+    let num_voxels = i32(dimensions.x * dimensions.y * dimensions.z);
+    // x,y,z, one production rate per species, then one uptake rate per species
+    let cell_stride = 3 + 2 * i32(num_species);
+
+    // neighbours in the order x prev, x next, y prev, y next, z prev, z next
+    var neighbours: array<i32, 6>;
+    for (var i = 0u; i < 6u; i++) {
+        neighbours[i] = neighbour_index(global_id, i / 2u, select(1, -1, i % 2u == 0u));
+    }
 
     // get cell index
     let this_position_cell_idx = cell_indices[idx];
+    // obstacles hold nothing, the output is already zero
+    if (this_position_cell_idx == OBSTACLE) {
+        return;
+    }
     // is this a cell?
     if (this_position_cell_idx != -1) {
-        var num_open = 6;
-        // if in bounds voxel that has a cell, decrement num_open
-        if (x_prev_idx != -1 && cell_indices[x_prev_idx] != -1) {
-            num_open -= 1;
-        }
-        if (x_next_idx != -1 && cell_indices[x_next_idx] != -1) {
-            num_open -= 1;
-        }
-        if (y_prev_idx != -1 && cell_indices[y_prev_idx] != -1) {
-            num_open -= 1;
-        }
-        if (y_next_idx != -1 && cell_indices[y_next_idx] != -1) {
-            num_open -= 1;
-        }
-        if (z_prev_idx != -1 && cell_indices[z_prev_idx] != -1) {
-            num_open -= 1;
-        }
-        if (z_next_idx != -1 && cell_indices[z_next_idx] != -1) {
-            num_open -= 1;
+        // in bounds voxels without a cell or obstacle are open, out of bounds ones only on fixed value boundaries
+        var num_open = 0;
+        for (var i = 0u; i < 6u; i++) {
+            let neighbour_idx = neighbours[i];
+            if (neighbour_idx == -1) {
+                if (boundaries.kind[i / 2u] == DIRICHLET) {
+                    num_open += 1;
+                }
+            } else if (cell_indices[neighbour_idx] == -1) {
+                num_open += 1;
+            }
         }
 
-        // get cell production rate
-        let cell_production_rate = cells[this_position_cell_idx * 4 + 3];
-        let cell_production = cell_production_rate * delta_time;
-        let cell_production_per_open = cell_production / f32(num_open);
-
-        // add production
-        // is this an inbounds voxel without a cell?
-        if (x_prev_idx != -1 && cell_indices[x_prev_idx] == -1) {
-            output_concentration[x_prev_idx] += cell_production_per_open;
-        }
-        if (x_next_idx != -1 && cell_indices[x_next_idx] == -1) {
-            output_concentration[x_next_idx] += cell_production_per_open;
-        }
-        if (y_prev_idx != -1 && cell_indices[y_prev_idx] == -1) {
-            output_concentration[y_prev_idx] += cell_production_per_open;
-        }
-        if (y_next_idx != -1 && cell_indices[y_next_idx] == -1) {
-            output_concentration[y_next_idx] += cell_production_per_open;
-        }
-        if (z_prev_idx != -1 && cell_indices[z_prev_idx] == -1) {
-            output_concentration[z_prev_idx] += cell_production_per_open;
-        }
-        if (z_next_idx != -1 && cell_indices[z_next_idx] == -1) {
-            output_concentration[z_next_idx] += cell_production_per_open;
+        for (var s = 0; s < i32(num_species); s++) {
+            let offset = s * num_voxels;
+
+            // get cell production rate, as its secretion expression has it
+            let production_rate = cells[this_position_cell_idx * cell_stride + 3 + s];
+            let uptake_rate = cells[this_position_cell_idx * cell_stride + 3 + i32(num_species) + s];
+            let cell_production_rate = custom_secretion(s, global_id, production_rate, uptake_rate);
+            let cell_production = cell_production_rate * delta_time;
+            let cell_production_per_open = cell_production / f32(num_open);
+
+            // add production to in bounds voxels without a cell, production onto the boundary is lost
+            for (var i = 0u; i < 6u; i++) {
+                let neighbour_idx = neighbours[i];
+                if (neighbour_idx != -1 && cell_indices[neighbour_idx] == -1) {
+                    output_concentration[offset + neighbour_idx] += cell_production_per_open;
+                }
+            }
         }
     } else {
-        var sum_open = 0.0;
-        var num_open = 0;
-
-        // if voxel is out of bounds, add 1 to num_open
-        // otherwise, if voxel doesn't have a cell, add its concentration to the sum and add 1 to num_open
-        if (x_prev_idx == -1) {
-            num_open += 1;
-        } else if (cell_indices[x_prev_idx] == -1) {
-            sum_open += input_concentration[x_prev_idx];
-            num_open += 1;
+        let own_diffusivity = diffusivity[idx];
+        var reaction_rate = vec2<f32>(0.0);
+        if (num_species >= 2u) {
+            reaction_rate = reaction_rates(input_concentration[idx], input_concentration[num_voxels + idx]);
         }
-
-        if (x_next_idx == -1) {
-            num_open += 1;
-        } else if (cell_indices[x_next_idx] == -1) {
-            sum_open += input_concentration[x_next_idx];
-            num_open += 1;
+        for (var s = 0; s < i32(num_species); s++) {
+            let offset = s * num_voxels;
+            // open neighbours weighted by the diffusivity of the face to them
+            var sum_open = 0.0;
+            var weight_open = 0.0;
+            var uptake_constant = 0.0;
+            // upwind: what flows in brings the upstream concentration, what flows out takes this one
+            var inflow = 0.0;
+            var outflow = 0.0;
+
+            // fixed value boundaries are open with the boundary value, zero flux boundaries are closed
+            // in bounds voxels without a cell add their concentration, voxels with a cell are closed and take up from this one
+            // obstacles are closed
+            for (var i = 0u; i < 6u; i++) {
+                let neighbour_idx = neighbours[i];
+                let direction = select(1.0, -1.0, i % 2u == 0u);
+                if (neighbour_idx == -1) {
+                    if (boundaries.kind[i / 2u] == DIRICHLET) {
+                        sum_open += own_diffusivity * boundaries.value[i / 2u];
+                        weight_open += own_diffusivity;
+                        let flow = face_velocity(idx, -1, i / 2u, direction);
+                        inflow += max(-flow, 0.0) * boundaries.value[i / 2u];
+                        outflow += max(flow, 0.0);
+                    }
+                } else if (cell_indices[neighbour_idx] == -1) {
+                    let face = face_diffusivity(own_diffusivity, diffusivity[neighbour_idx]);
+                    sum_open += face * input_concentration[offset + neighbour_idx];
+                    weight_open += face;
+                    let flow = face_velocity(idx, neighbour_idx, i / 2u, direction);
+                    inflow += max(-flow, 0.0) * input_concentration[offset + neighbour_idx];
+                    outflow += max(flow, 0.0);
+                } else if (cell_indices[neighbour_idx] != OBSTACLE) {
+                    let uptake_rate = cells[cell_indices[neighbour_idx] * cell_stride + 3 + i32(num_species) + s];
+                    uptake_constant += uptake_rate * delta_time;
+                }
+            }
+
+            let concentration = input_concentration[offset + idx];
+            let diffusion_term = species[s].combined_constant * (sum_open - weight_open * concentration);
+            let decay_term = species[s].decay_constant * concentration;
+            // neighbouring cells can't take up more than there is
+            let uptake_term = min(uptake_constant, 1.0) * concentration;
+            let advection_term = advection * (inflow - outflow * concentration);
+            var reaction_term = delta_time * custom_reaction(s, idx);
+            if (s < 2) {
+                reaction_term += delta_time * reaction_rate[s];
+            }
+
+            output_concentration[offset + idx] += concentration + diffusion_term - decay_term - uptake_term + advection_term + reaction_term;
         }
+    }
+}
+`;
+
+// One Jacobi iteration of the backward Euler step, solving
+// (1 + combined_constant * weight_open + decay_constant + advection * outflow) c - combined_constant * sum_open - advection * inflow = rhs
+// where weight_open sums the face diffusivities to the open neighbours, sum_open their concentrations weighted the same,
+// outflow the upwind flow out of the voxel, inflow the flow in times the upstream concentrations, and rhs is the current field plus cell production minus uptake
+const jacobiShader = commonShader + /* wgsl */`
+@group(0) @binding(0) var<storage, read> rhs: array<f32>;
+@group(0) @binding(1) var<storage, read_write> output_concentration: array<f32>;
+@group(0) @binding(3) var<storage, read> species: array<SpeciesConstants>;
+@group(0) @binding(5) var<storage, read> cell_indices: array<i32>;
+@group(0) @binding(8) var<storage, read> guess: array<f32>;
 
-        if (y_prev_idx == -1) {
-            num_open += 1;
-        } else if (cell_indices[y_prev_idx] == -1) {
-            sum_open += input_concentration[y_prev_idx];
-            num_open += 1;
-        }
+@compute @workgroup_size(8, 8, 8)
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+    let x = global_id.x;
+    let y = global_id.y;
+    let z = global_id.z;
+    if (x >= dimensions.x || y >= dimensions.y || z >= dimensions.z) {
+        return;
+    }
+    let idx = xyz_to_index(x, y, z);
 
-        if (y_next_idx == -1) {
-            num_open += 1;
-        } else if (cell_indices[y_next_idx] == -1) {
-            sum_open += input_concentration[y_next_idx];
-            num_open += 1;
-        }
+    let num_species = arrayLength(&species);
+    let num_voxels = i32(dimensions.x * dimensions.y * dimensions.z);
 
-        if (z_prev_idx == -1) {
-            num_open += 1;
-        } else if (cell_indices[z_prev_idx] == -1) {
-            sum_open += input_concentration[z_prev_idx];
-            num_open += 1;
+    // voxels holding a cell or obstacle stay empty
+    if (cell_indices[idx] != -1) {
+        for (var s = 0; s < i32(num_species); s++) {
+            output_concentration[s * num_voxels + idx] = 0.0;
         }
+        return;
+    }
 
-        if (z_next_idx == -1) {
-            num_open += 1;
-        } else if (cell_indices[z_next_idx] == -1) {
-            sum_open += input_concentration[z_next_idx];
-            num_open += 1;
-        }
+    var neighbours: array<i32, 6>;
+    for (var i = 0u; i < 6u; i++) {
+        neighbours[i] = neighbour_index(global_id, i / 2u, select(1, -1, i % 2u == 0u));
+    }
 
-        let diffusion_term = combined_constant * (sum_open - f32(num_open) * input_concentration[idx]);
+    let own_diffusivity = diffusivity[idx];
+    for (var s = 0; s < i32(num_species); s++) {
+        let offset = s * num_voxels;
+        var sum_open = 0.0;
+        var weight_open = 0.0;
+        var inflow = 0.0;
+        var outflow = 0.0;
+
+        // same open/closed rules, face diffusivities and face velocities as the explicit step
+        for (var i = 0u; i < 6u; i++) {
+            let neighbour_idx = neighbours[i];
+            let direction = select(1.0, -1.0, i % 2u == 0u);
+            if (neighbour_idx == -1) {
+                if (boundaries.kind[i / 2u] == DIRICHLET) {
+                    sum_open += own_diffusivity * boundaries.value[i / 2u];
+                    weight_open += own_diffusivity;
+                    let flow = face_velocity(idx, -1, i / 2u, direction);
+                    inflow += max(-flow, 0.0) * boundaries.value[i / 2u];
+                    outflow += max(flow, 0.0);
+                }
+            } else if (cell_indices[neighbour_idx] == -1) {
+                let face = face_diffusivity(own_diffusivity, diffusivity[neighbour_idx]);
+                sum_open += face * guess[offset + neighbour_idx];
+                weight_open += face;
+                let flow = face_velocity(idx, neighbour_idx, i / 2u, direction);
+                inflow += max(-flow, 0.0) * guess[offset + neighbour_idx];
+                outflow += max(flow, 0.0);
+            }
+        }
 
-        output_concentration[idx] += input_concentration[idx] + diffusion_term;
+        let combined_constant = species[s].combined_constant;
+        let diagonal = 1.0 + combined_constant * weight_open + species[s].decay_constant + advection * outflow;
+        output_concentration[offset + idx] = (rhs[offset + idx] + combined_constant * sum_open + advection * inflow) / diagonal;
     }
 }
-`;
\ No newline at end of file
+`;
@@ -0,0 +1,46 @@
+// Seeded pseudo random numbers (mulberry32). All stochastic code draws from a Random instead of
+// Math.random so that a run can be repeated exactly from its seed.
+export class Random {
+    private state: number;
+
+    constructor(public seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // starts the sequence over from the given seed
+    reseed(seed: number) {
+        this.seed = seed;
+        this.state = seed >>> 0;
+    }
+
+    // the position in the sequence, restoring it continues exactly where it was saved
+    getState() {
+        return this.state;
+    }
+
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+
+    // uniform in [0, 1)
+    next() {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // uniform in [low, high)
+    range(low: number, high: number) {
+        return low + this.next() * (high - low);
+    }
+
+    // integer in [low, high], inclusive
+    int(low: number, high: number) {
+        return low + Math.floor(this.next() * (high - low + 1));
+    }
+}
+
+// Shared by the whole app, reseeded from its seed whenever the simulation is reset
+export const random = new Random(1);
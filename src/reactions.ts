@@ -0,0 +1,140 @@
+import type { Random } from "./random";
+import type { Species } from "./simulation";
+
+type Position = { x: number, y: number, z: number };
+
+// A coefficient of a reaction model, with the range offered in the GUI
+export interface ReactionParameter {
+    name: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+}
+
+// Local reaction terms between the first two species, u and v, stepped with the diffusion. The rates
+// here are the reference for reaction_rates in diffusionShader, which must match them.
+export interface ReactionModel {
+    id: number; // must match the model constants in diffusionShader
+    species: [Species, Species]; // u and v, with diffusion constants that give patterns with the default coefficients
+    parameters: ReactionParameter[]; // at most 4, in the order of the shader's coefficients
+    deltaTime: number;
+    rates: (u: number, v: number, p: number[]) => [number, number];
+    // the homogeneous state with relative noise on it, plus seeds of a different state where the
+    // homogeneous one is stable (Gray-Scott)
+    initial: {
+        base: [number, number];
+        noise: number;
+        seeds?: { count: number, side: number, values: [number, number] };
+    };
+}
+
+// The active model and its coefficients, in the order of the model's parameters
+export interface Reaction {
+    model: string;
+    coefficients: number[];
+}
+
+// Classic Turing pattern models, written per voxel with unit spacing
+export const reactionModels: Record<string, ReactionModel | null> = {
+    'None': null,
+
+    // u' = -uv^2 + F(1 - u), v' = uv^2 - (F + k)v, spots and worms from seeded patches
+    'Gray-Scott': {
+        id: 1,
+        species: [
+            { name: 'U (substrate)', diffusionConstant: 0.2, decayRate: 0.0 },
+            { name: 'V (autocatalyst)', diffusionConstant: 0.1, decayRate: 0.0 },
+        ],
+        parameters: [
+            { name: 'Feed', value: 0.04, min: 0, max: 0.1, step: 0.0005 },
+            { name: 'Kill', value: 0.06, min: 0, max: 0.1, step: 0.0005 },
+        ],
+        deltaTime: 1.0,
+        rates: (u, v, [feed, kill]) => {
+            const uvv = u * v * v;
+            return [-uvv + feed * (1 - u), uvv - (feed + kill) * v];
+        },
+        initial: { base: [1, 0], noise: 0.02, seeds: { count: 20, side: 6, values: [0.5, 0.25] } },
+    },
+
+    // activator u and inhibitor v: u' = r(u^2/v - a u + s), v' = r(u^2 - b v), needs b > a and v diffusing much faster
+    'Gierer-Meinhardt': {
+        id: 2,
+        species: [
+            { name: 'Activator', diffusionConstant: 0.02, decayRate: 0.0 },
+            { name: 'Inhibitor', diffusionConstant: 0.5, decayRate: 0.0 },
+        ],
+        parameters: [
+            { name: 'Rate', value: 0.02, min: 0, max: 0.2, step: 0.001 },
+            { name: 'Activator Decay', value: 1.0, min: 0, max: 4, step: 0.01 },
+            { name: 'Inhibitor Decay', value: 2.0, min: 0, max: 4, step: 0.01 },
+            { name: 'Basal Production', value: 0.0, min: 0, max: 0.5, step: 0.001 },
+        ],
+        deltaTime: 1.0,
+        // the inhibitor is kept off zero, the shader does the same
+        rates: (u, v, [rate, activatorDecay, inhibitorDecay, basal]) =>
+            [rate * (u * u / Math.max(v, 1e-6) - activatorDecay * u + basal), rate * (u * u - inhibitorDecay * v)],
+        initial: { base: [2, 4], noise: 0.05 },
+    },
+
+    // u' = r(a - u + u^2 v), v' = r(b - u^2 v)
+    'Schnakenberg': {
+        id: 3,
+        species: [
+            { name: 'U (activator)', diffusionConstant: 0.02, decayRate: 0.0 },
+            { name: 'V (substrate)', diffusionConstant: 0.4, decayRate: 0.0 },
+        ],
+        parameters: [
+            { name: 'Rate', value: 0.02, min: 0, max: 0.2, step: 0.001 },
+            { name: 'a', value: 0.1, min: 0, max: 1, step: 0.01 },
+            { name: 'b', value: 0.9, min: 0, max: 2, step: 0.01 },
+        ],
+        deltaTime: 1.0,
+        rates: (u, v, [rate, a, b]) => {
+            const uuv = u * u * v;
+            return [rate * (a - u + uuv), rate * (b - uuv)];
+        },
+        initial: { base: [1, 0.9], noise: 0.05 },
+    },
+};
+
+export function defaultReaction(model: string): Reaction {
+    return { model, coefficients: reactionModels[model]?.parameters.map((parameter) => parameter.value) ?? [] };
+}
+
+// The model's starting state for the first two species, from the shared seeded random so the
+// pattern is the same for the same seed. Any further species start empty.
+export function reactionInitialField(model: ReactionModel, dimensions: Position, numSpecies: number, random: Random) {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const field = new Float32Array(numVoxels * numSpecies);
+    const { base, noise, seeds } = model.initial;
+    for (let s = 0; s < Math.min(numSpecies, 2); s++) {
+        for (let i = 0; i < numVoxels; i++) {
+            field[s * numVoxels + i] = base[s] * (1 + noise * (2 * random.next() - 1));
+        }
+    }
+
+    if (seeds) {
+        // cubes of side voxels at random places, cut off by thin domains
+        const { side } = seeds;
+        for (let n = 0; n < seeds.count; n++) {
+            const corner = {
+                x: random.int(0, Math.max(0, dimensions.x - side)),
+                y: random.int(0, Math.max(0, dimensions.y - side)),
+                z: random.int(0, Math.max(0, dimensions.z - side)),
+            };
+            for (let z = corner.z; z < Math.min(corner.z + side, dimensions.z); z++) {
+                for (let y = corner.y; y < Math.min(corner.y + side, dimensions.y); y++) {
+                    for (let x = corner.x; x < Math.min(corner.x + side, dimensions.x); x++) {
+                        const i = x + y * dimensions.x + z * dimensions.x * dimensions.y;
+                        for (let s = 0; s < Math.min(numSpecies, 2); s++) {
+                            field[s * numVoxels + i] = seeds.values[s] * (1 + noise * (2 * random.next() - 1));
+                        }
+                    }
+                }
+            }
+        }
+    }
+    return field;
+}
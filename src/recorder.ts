@@ -0,0 +1,245 @@
+import { Cell } from "./cells";
+import { SavedCell, saveCell } from "./stateFile";
+
+type Position = { x: number, y: number, z: number };
+
+export interface RecorderOptions {
+    every: number; // simulation steps between frames
+    downsample: number; // frames keep one voxel per downsample^3 block, the block's mean
+    compress: boolean; // store 16 bit values scaled to each species' range instead of 32 bit floats
+    maxFrames: number; // the oldest frames are dropped beyond this
+    maxMegabytes: number; // or beyond this much frame data, a full resolution frame of a large volume is tens of MB
+}
+
+// One recorded step. The field is stored at the recorded (possibly downsampled) dimensions,
+// either as floats or as 16 bit values between the per species min and max.
+export interface RecordedFrame {
+    step: number;
+    cells: SavedCell[];
+    data: Float32Array<ArrayBuffer> | Uint16Array<ArrayBuffer>;
+    ranges: { min: number, max: number }[] | null; // per species, only for compressed frames
+}
+
+// Recordings are saved as a single binary file, laid out like saved states:
+//   8 bytes   magic "CELLREC\0"
+//   4 bytes   header length in bytes, little endian u32
+//   n bytes   header, UTF-8 JSON (RecordingHeader)
+//   padding   to a multiple of 4 bytes
+//   rest      every frame's data one after another, little endian, f32 or u16 padded to 4 bytes
+export const RECORDING_FORMAT_VERSION = 1;
+const MAGIC = "CELLREC\0";
+
+interface RecordingHeader {
+    version: number;
+    dimensions: Position;
+    numSpecies: number;
+    options: RecorderOptions;
+    frames: { step: number, cells: SavedCell[], ranges: { min: number, max: number }[] | null }[];
+}
+
+export class Recorder {
+    public frames: RecordedFrame[] = [];
+    private lastStep = -Infinity;
+
+    constructor(public dimensions: Position, public numSpecies: number, public options: RecorderOptions) { }
+
+    // dimensions of the stored frames
+    get recordedDimensions(): Position {
+        const f = Math.max(1, this.options.downsample);
+        return { x: Math.ceil(this.dimensions.x / f), y: Math.ceil(this.dimensions.y / f), z: Math.ceil(this.dimensions.z / f) };
+    }
+
+    clear(dimensions: Position = this.dimensions, numSpecies: number = this.numSpecies) {
+        this.frames = [];
+        this.lastStep = -Infinity;
+        this.dimensions = { ...dimensions };
+        this.numSpecies = numSpecies;
+    }
+
+    // Records a frame if at least `every` steps have passed since the last one, returns whether it did
+    record(step: number, field: Float32Array, cells: Cell[]) {
+        if (step - this.lastStep < this.options.every) {
+            return false;
+        }
+        // frames of different shapes can't share a recording
+        if (field.length != this.dimensions.x * this.dimensions.y * this.dimensions.z * this.numSpecies) {
+            return false;
+        }
+        this.lastStep = step;
+
+        const downsampled = downsampleField(field, this.dimensions, this.numSpecies, this.options.downsample);
+        const frame: RecordedFrame = this.options.compress
+            ? { step, cells: cells.map(saveCell), ...quantize(downsampled, this.numSpecies) }
+            : { step, cells: cells.map(saveCell), data: downsampled, ranges: null };
+
+        this.frames.push(frame);
+        this.trim();
+        return true;
+    }
+
+    // Drops the oldest frames until the recording is within both limits, keeping at least the newest frame
+    trim() {
+        let bytes = this.byteLength;
+        while (this.frames.length > 1 && (this.frames.length > this.options.maxFrames || bytes > this.options.maxMegabytes * 1e6)) {
+            bytes -= this.frames.shift()!.data.byteLength;
+        }
+    }
+
+    // The frame's field at the full simulation dimensions, ready for display
+    frameField(index: number): Float32Array<ArrayBuffer> {
+        const frame = this.frames[index];
+        const values = frame.ranges ? dequantize(frame.data as Uint16Array, frame.ranges) : frame.data as Float32Array<ArrayBuffer>;
+        return upsampleField(values, this.dimensions, this.numSpecies, this.options.downsample);
+    }
+
+    get byteLength() {
+        return this.frames.reduce((total, frame) => total + frame.data.byteLength, 0);
+    }
+}
+
+function downsampleField(field: Float32Array, dimensions: Position, numSpecies: number, factor: number): Float32Array<ArrayBuffer> {
+    if (factor <= 1) {
+        return new Float32Array(field);
+    }
+    const small = { x: Math.ceil(dimensions.x / factor), y: Math.ceil(dimensions.y / factor), z: Math.ceil(dimensions.z / factor) };
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const numSmall = small.x * small.y * small.z;
+    const sums = new Float32Array(numSmall * numSpecies);
+    const counts = new Uint32Array(numSmall);
+
+    for (let z = 0; z < dimensions.z; z++) {
+        for (let y = 0; y < dimensions.y; y++) {
+            for (let x = 0; x < dimensions.x; x++) {
+                const block = Math.floor(x / factor) + Math.floor(y / factor) * small.x + Math.floor(z / factor) * small.x * small.y;
+                const idx = x + y * dimensions.x + z * dimensions.x * dimensions.y;
+                counts[block]++;
+                for (let s = 0; s < numSpecies; s++) {
+                    sums[s * numSmall + block] += field[s * numVoxels + idx];
+                }
+            }
+        }
+    }
+    return sums.map((sum, i) => sum / counts[i % numSmall]);
+}
+
+// nearest neighbour, every voxel takes the value of its block
+function upsampleField(values: Float32Array, dimensions: Position, numSpecies: number, factor: number): Float32Array<ArrayBuffer> {
+    if (factor <= 1) {
+        return new Float32Array(values);
+    }
+    const small = { x: Math.ceil(dimensions.x / factor), y: Math.ceil(dimensions.y / factor), z: Math.ceil(dimensions.z / factor) };
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const numSmall = small.x * small.y * small.z;
+    const field = new Float32Array(numVoxels * numSpecies);
+
+    for (let z = 0; z < dimensions.z; z++) {
+        for (let y = 0; y < dimensions.y; y++) {
+            for (let x = 0; x < dimensions.x; x++) {
+                const block = Math.floor(x / factor) + Math.floor(y / factor) * small.x + Math.floor(z / factor) * small.x * small.y;
+                const idx = x + y * dimensions.x + z * dimensions.x * dimensions.y;
+                for (let s = 0; s < numSpecies; s++) {
+                    field[s * numVoxels + idx] = values[s * numSmall + block];
+                }
+            }
+        }
+    }
+    return field;
+}
+
+function quantize(values: Float32Array, numSpecies: number) {
+    const perSpecies = values.length / numSpecies;
+    const data = new Uint16Array(values.length);
+    const ranges: { min: number, max: number }[] = [];
+
+    for (let s = 0; s < numSpecies; s++) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = s * perSpecies; i < (s + 1) * perSpecies; i++) {
+            min = Math.min(min, values[i]);
+            max = Math.max(max, values[i]);
+        }
+        const scale = max > min ? 65535 / (max - min) : 0;
+        for (let i = s * perSpecies; i < (s + 1) * perSpecies; i++) {
+            data[i] = Math.round((values[i] - min) * scale);
+        }
+        ranges.push({ min, max });
+    }
+    return { data, ranges };
+}
+
+function dequantize(data: Uint16Array, ranges: { min: number, max: number }[]) {
+    const perSpecies = data.length / ranges.length;
+    const values = new Float32Array(data.length);
+    ranges.forEach(({ min, max }, s) => {
+        for (let i = s * perSpecies; i < (s + 1) * perSpecies; i++) {
+            values[i] = min + data[i] / 65535 * (max - min);
+        }
+    });
+    return values;
+}
+
+export function serializeRecording(recorder: Recorder): ArrayBuffer {
+    const headerData: RecordingHeader = {
+        version: RECORDING_FORMAT_VERSION,
+        dimensions: recorder.dimensions,
+        numSpecies: recorder.numSpecies,
+        options: recorder.options,
+        frames: recorder.frames.map(({ step, cells, ranges }) => ({ step, cells, ranges })),
+    };
+    const header = new TextEncoder().encode(JSON.stringify(headerData));
+    const dataOffset = Math.ceil((12 + header.byteLength) / 4) * 4;
+    const frameBytes = recorder.frames.map((frame) => Math.ceil(frame.data.byteLength / 4) * 4);
+
+    const buffer = new ArrayBuffer(dataOffset + frameBytes.reduce((total, bytes) => total + bytes, 0));
+    const bytes = new Uint8Array(buffer);
+    bytes.set(new TextEncoder().encode(MAGIC), 0);
+    new DataView(buffer).setUint32(8, header.byteLength, true);
+    bytes.set(header, 12);
+
+    const view = new DataView(buffer);
+    let offset = dataOffset;
+    recorder.frames.forEach((frame, i) => {
+        for (let j = 0; j < frame.data.length; j++) {
+            if (frame.ranges) {
+                view.setUint16(offset + j * 2, frame.data[j], true);
+            } else {
+                view.setFloat32(offset + j * 4, frame.data[j], true);
+            }
+        }
+        offset += frameBytes[i];
+    });
+    return buffer;
+}
+
+export function deserializeRecording(buffer: ArrayBuffer): Recorder {
+    if (buffer.byteLength < 12 || new TextDecoder().decode(new Uint8Array(buffer, 0, 8)) != MAGIC) {
+        throw new Error('Not a recording');
+    }
+
+    const headerLength = new DataView(buffer).getUint32(8, true);
+    const header: RecordingHeader = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 12, headerLength)));
+    if (header.version != RECORDING_FORMAT_VERSION) {
+        throw new Error(`Unsupported recording format version ${header.version}, expected ${RECORDING_FORMAT_VERSION}`);
+    }
+
+    // recordings from before the memory limit have none
+    const recorder = new Recorder(header.dimensions, header.numSpecies, { ...header.options, maxMegabytes: header.options.maxMegabytes ?? Infinity });
+    const { x, y, z } = recorder.recordedDimensions;
+    const numValues = x * y * z * header.numSpecies;
+    const view = new DataView(buffer);
+    let offset = Math.ceil((12 + headerLength) / 4) * 4;
+
+    for (const { step, cells, ranges } of header.frames) {
+        const bytesPerValue = ranges ? 2 : 4;
+        if (offset + numValues * bytesPerValue > buffer.byteLength) {
+            throw new Error(`Recording ends early, at the frame for step ${step}`);
+        }
+        const data = ranges ? new Uint16Array(numValues) : new Float32Array(numValues);
+        for (let j = 0; j < numValues; j++) {
+            data[j] = ranges ? view.getUint16(offset + j * 2, true) : view.getFloat32(offset + j * 4, true);
+        }
+        recorder.frames.push({ step, cells, data, ranges });
+        offset += Math.ceil(numValues * bytesPerValue / 4) * 4;
+    }
+    return recorder;
+}
@@ -0,0 +1,338 @@
+import { Cell } from "./cells";
+import { cellRules } from "./behaviour";
+import { CellLattice } from "./lattice";
+import { Random, random as sharedRandom } from "./random";
+import type { Boundaries, BoundaryCondition, Integration, Species } from "./simulation";
+
+// A scenario describes the initial conditions of an experiment as plain JSON, for example:
+//
+// {
+//     "name": "Two sources",
+//     "dimensions": { "x": 64, "y": 64, "z": 64 },
+//     "species": [{ "name": "Morphogen A", "diffusionConstant": 1.0, "decayRate": 0.01 }],
+//     "boundaries": { "z": { "type": "neumann", "value": 0 } },
+//     "field": [{ "type": "ramp", "species": 0, "axis": "x", "from": 0, "to": 1 }],
+//     "cellGroups": [
+//         { "placement": { "type": "list", "positions": [{ "x": 16, "y": 32, "z": 32 }] }, "productionRates": [1000] },
+//         { "placement": { "type": "random", "count": 50, "seed": 42 }, "productionRates": [0], "uptakeRates": [0.5], "rule": "Chemotaxis" }
+//     ]
+// }
+//
+// Everything but the dimensions is optional and falls back to the defaults below.
+
+type Position = { x: number, y: number, z: number };
+type Axis = 'x' | 'y' | 'z';
+
+export type CellPlacement =
+    | { type: 'list', positions: Position[] }
+    // every spacing voxels between min and max, inclusive, the whole domain by default
+    | { type: 'lattice', spacing: number, min?: Position, max?: Position }
+    // every voxel within radius of the centre, or only the outermost layer when shell is set
+    | { type: 'sphere', centre: Position, radius: number, shell?: boolean }
+    // every spacing voxels on the plane where axis == position
+    | { type: 'plane', axis: Axis, position: number, spacing?: number }
+    // count voxels drawn uniformly between min and max, from their own seed or else the scenario's
+    | { type: 'random', count: number, seed?: number, min?: Position, max?: Position };
+
+export interface CellGroup {
+    placement: CellPlacement;
+    productionRates: number[]; // per species, missing species produce nothing
+    uptakeRates?: number[];
+    rule?: string; // key into cellRules
+}
+
+// Presets are added on top of each other in order, starting from an empty field
+export type FieldPreset =
+    | { type: 'constant', species: number, value: number }
+    // linear from `from` at the low end of the axis to `to` at the high end
+    | { type: 'ramp', species: number, axis: Axis, from: number, to: number }
+    // gaussian blob with the given peak, a single voxel when radius is 0
+    | { type: 'point', species: number, position: Position, amount: number, radius?: number };
+
+export interface Scenario {
+    name?: string;
+    seed?: number; // for the app wide random numbers, kept as is when not given
+    dimensions: Position;
+    species?: Species[];
+    deltaTime?: number;
+    boundaries?: Partial<Boundaries>;
+    integration?: Partial<Integration>;
+    field?: FieldPreset[];
+    cellGroups?: CellGroup[];
+}
+
+export interface LoadedScenario {
+    dimensions: Position;
+    species: Species[];
+    deltaTime: number;
+    boundaries: Boundaries;
+    integration: Integration;
+    cells: Cell[];
+    field: Float32Array<ArrayBuffer>; // every species, one volume after another
+    warnings: string[]; // positions outside the domain, random placements that placed fewer cells than their count
+}
+
+const defaultBoundary: BoundaryCondition = { type: 'dirichlet', value: 0.0 };
+const defaultSpecies: Species[] = [{ name: 'Morphogen A', diffusionConstant: 1.0, decayRate: 0.0 }];
+const defaultIntegration: Integration = { method: 'explicit', autoSubstep: true, iterations: 20 };
+
+// Builds the cells and initial field described by a scenario. Cells outside the domain or on an
+// already occupied voxel are skipped, so overlapping groups keep the cell of the earlier group.
+// Random placements without a seed of their own draw from the shared generator, reseed it first.
+// Positions outside the domain, except for spheres, and random placements whose draws land on
+// skipped voxels come with a warning.
+export function loadScenario(scenario: Scenario): LoadedScenario {
+    validateScenario(scenario);
+
+    const dimensions = { ...scenario.dimensions };
+    const species = structuredClone(scenario.species ?? defaultSpecies);
+    const boundaries: Boundaries = {
+        x: { ...defaultBoundary, ...scenario.boundaries?.x },
+        y: { ...defaultBoundary, ...scenario.boundaries?.y },
+        z: { ...defaultBoundary, ...scenario.boundaries?.z },
+    };
+
+    const lattice = new CellLattice(dimensions);
+    const cells: Cell[] = [];
+    const warnings: string[] = [];
+    for (const [i, group] of (scenario.cellGroups ?? []).entries()) {
+        const before = cells.length;
+        let outside = 0;
+        for (const position of placementPositions(group.placement, dimensions)) {
+            if (!lattice.inBounds(position)) {
+                outside++;
+                continue;
+            }
+            if (!lattice.isFree(position)) {
+                continue;
+            }
+            const cell = new Cell(
+                position,
+                species.map((_, s) => group.productionRates[s] ?? 0.0),
+                species.map((_, s) => group.uptakeRates?.[s] ?? 0.0));
+            cell.rule = group.rule ? cellRules[group.rule] : null;
+            cells.push(cell);
+            lattice.add(cell);
+        }
+        // spheres are meant to be cut off at the edges, other placements only leave the domain by mistake
+        if (outside > 0 && group.placement.type != 'sphere' && group.placement.type != 'random') {
+            warnings.push(`cell group ${i} has ${outside} ${group.placement.type} positions outside the domain, they were skipped`);
+        }
+        const placed = cells.length - before;
+        if (group.placement.type == 'random' && placed < group.placement.count) {
+            warnings.push(`cell group ${i} placed ${placed} of ${group.placement.count} random cells, ` +
+                `the rest fell outside the domain or on occupied voxels`);
+        }
+    }
+
+    return {
+        dimensions,
+        species,
+        deltaTime: scenario.deltaTime ?? 1.0 / 60.0,
+        boundaries,
+        integration: { ...defaultIntegration, ...scenario.integration },
+        cells,
+        field: buildField(scenario.field ?? [], dimensions, species.length, cells),
+        warnings,
+    };
+}
+
+export function parseScenario(json: string): Scenario {
+    const scenario = JSON.parse(json) as Scenario;
+    validateScenario(scenario);
+    return scenario;
+}
+
+function validateScenario(scenario: Scenario) {
+    const { dimensions } = scenario;
+    if (!dimensions || ![dimensions.x, dimensions.y, dimensions.z].every((d) => Number.isInteger(d) && d > 0)) {
+        throw new Error('Scenario needs positive integer dimensions');
+    }
+
+    const numSpecies = (scenario.species ?? defaultSpecies).length;
+    for (const preset of scenario.field ?? []) {
+        if (!['constant', 'ramp', 'point'].includes(preset.type)) {
+            throw new Error(`Unknown field preset "${preset.type}"`);
+        }
+        if (!Number.isInteger(preset.species) || preset.species < 0 || preset.species >= numSpecies) {
+            throw new Error(`Field preset "${preset.type}" refers to species ${preset.species}, there are ${numSpecies}`);
+        }
+    }
+
+    for (const group of scenario.cellGroups ?? []) {
+        if (!['list', 'lattice', 'sphere', 'plane', 'random'].includes(group.placement?.type)) {
+            throw new Error(`Unknown cell placement "${group.placement?.type}"`);
+        }
+        if (!Array.isArray(group.productionRates)) {
+            throw new Error(`Cell group placed by "${group.placement.type}" needs productionRates`);
+        }
+        if (group.rule !== undefined && !(group.rule in cellRules)) {
+            throw new Error(`Unknown cell rule "${group.rule}"`);
+        }
+        validatePlacement(group.placement);
+    }
+}
+
+const isVoxel = (position: Position | undefined) =>
+    typeof position == 'object' && position !== null && [position.x, position.y, position.z].every(Number.isInteger);
+
+function validatePlacement(placement: CellPlacement) {
+    const fail = (message: string) => {
+        throw new Error(`Cell group placed by "${placement.type}" ${message}`);
+    };
+    if ('min' in placement && placement.min !== undefined && !isVoxel(placement.min)) {
+        fail('needs integer coordinates for min');
+    }
+    if ('max' in placement && placement.max !== undefined && !isVoxel(placement.max)) {
+        fail('needs integer coordinates for max');
+    }
+    if ('min' in placement && placement.min && placement.max &&
+        (['x', 'y', 'z'] as const).some((axis) => placement.min![axis] > placement.max![axis])) {
+        fail('needs min at most max on every axis');
+    }
+
+    switch (placement.type) {
+        case 'list':
+            if (!Array.isArray(placement.positions) || !placement.positions.every(isVoxel)) {
+                fail('needs a list of positions with integer coordinates');
+            }
+            break;
+        case 'lattice':
+            if (!Number.isInteger(placement.spacing) || placement.spacing < 1) {
+                fail('needs a positive integer spacing');
+            }
+            break;
+        case 'sphere':
+            if (!isVoxel(placement.centre)) {
+                fail('needs a centre with integer coordinates');
+            }
+            if (typeof placement.radius != 'number' || !(placement.radius >= 0) || !Number.isFinite(placement.radius)) {
+                fail('needs a radius of at least 0');
+            }
+            break;
+        case 'plane':
+            if (!['x', 'y', 'z'].includes(placement.axis)) {
+                fail('needs an axis, x, y or z');
+            }
+            if (!Number.isInteger(placement.position)) {
+                fail('needs an integer position');
+            }
+            if (placement.spacing !== undefined && (!Number.isInteger(placement.spacing) || placement.spacing < 1)) {
+                fail('needs a positive integer spacing');
+            }
+            break;
+        case 'random':
+            if (!Number.isInteger(placement.count) || placement.count < 0) {
+                fail('needs a count of at least 0');
+            }
+            if (placement.seed !== undefined && !Number.isInteger(placement.seed)) {
+                fail('needs an integer seed');
+            }
+            break;
+    }
+}
+
+function placementPositions(placement: CellPlacement, dimensions: Position): Position[] {
+    const positions: Position[] = [];
+    const min = 'min' in placement && placement.min ? placement.min : { x: 0, y: 0, z: 0 };
+    const max = 'max' in placement && placement.max ? placement.max : { x: dimensions.x - 1, y: dimensions.y - 1, z: dimensions.z - 1 };
+
+    switch (placement.type) {
+        case 'list':
+            return placement.positions.map((position) => ({ ...position }));
+
+        case 'lattice': {
+            const { spacing } = placement;
+            for (let z = min.z; z <= max.z; z += spacing) {
+                for (let y = min.y; y <= max.y; y += spacing) {
+                    for (let x = min.x; x <= max.x; x += spacing) {
+                        positions.push({ x, y, z });
+                    }
+                }
+            }
+            return positions;
+        }
+
+        case 'sphere': {
+            const { centre, radius } = placement;
+            const r = Math.ceil(radius);
+            for (let z = centre.z - r; z <= centre.z + r; z++) {
+                for (let y = centre.y - r; y <= centre.y + r; y++) {
+                    for (let x = centre.x - r; x <= centre.x + r; x++) {
+                        const distance = Math.sqrt((x - centre.x) ** 2 + (y - centre.y) ** 2 + (z - centre.z) ** 2);
+                        if (distance <= radius && (!placement.shell || distance > radius - 1)) {
+                            positions.push({ x, y, z });
+                        }
+                    }
+                }
+            }
+            return positions;
+        }
+
+        case 'plane': {
+            const spacing = placement.spacing ?? 1;
+            // the two axes spanning the plane
+            const [u, v] = (['x', 'y', 'z'] as const).filter((axis) => axis != placement.axis);
+            for (let a = 0; a < dimensions[u]; a += spacing) {
+                for (let b = 0; b < dimensions[v]; b += spacing) {
+                    positions.push({ [placement.axis]: placement.position, [u]: a, [v]: b } as Position);
+                }
+            }
+            return positions;
+        }
+
+        case 'random': {
+            const random = placement.seed === undefined ? sharedRandom : new Random(placement.seed);
+            for (let i = 0; i < placement.count; i++) {
+                positions.push({ x: random.int(min.x, max.x), y: random.int(min.y, max.y), z: random.int(min.z, max.z) });
+            }
+            return positions;
+        }
+    }
+}
+
+function buildField(presets: FieldPreset[], dimensions: Position, numSpecies: number, cells: Cell[]) {
+    const numVoxels = dimensions.x * dimensions.y * dimensions.z;
+    const field = new Float32Array(numVoxels * numSpecies);
+
+    for (const preset of presets) {
+        const offset = preset.species * numVoxels;
+        for (let z = 0; z < dimensions.z; z++) {
+            for (let y = 0; y < dimensions.y; y++) {
+                for (let x = 0; x < dimensions.x; x++) {
+                    const idx = offset + x + y * dimensions.x + z * dimensions.x * dimensions.y;
+                    switch (preset.type) {
+                        case 'constant':
+                            field[idx] += preset.value;
+                            break;
+                        case 'ramp': {
+                            const length = dimensions[preset.axis] - 1;
+                            const t = length > 0 ? { x, y, z }[preset.axis] / length : 0;
+                            field[idx] += preset.from + (preset.to - preset.from) * t;
+                            break;
+                        }
+                        case 'point': {
+                            const { position, radius = 0 } = preset;
+                            const distanceSquared = (x - position.x) ** 2 + (y - position.y) ** 2 + (z - position.z) ** 2;
+                            if (radius > 0) {
+                                field[idx] += preset.amount * Math.exp(-distanceSquared / (2 * radius * radius));
+                            } else if (distanceSquared == 0) {
+                                field[idx] += preset.amount;
+                            }
+                            break;
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    // voxels holding a cell carry no concentration
+    for (const cell of cells) {
+        const idx = cell.position.x + cell.position.y * dimensions.x + cell.position.z * dimensions.x * dimensions.y;
+        for (let s = 0; s < numSpecies; s++) {
+            field[s * numVoxels + idx] = 0;
+        }
+    }
+    return field;
+}
@@ -0,0 +1,76 @@
+import { Cell } from "./cells";
+import { DiffusionSim } from "./processVolume";
+import { CpuDiffusionSim } from "./cpuDiffusionSim";
+import type { Medium } from "./medium";
+import type { FlowField } from "./flow";
+import type { Reaction } from "./reactions";
+import type { CustomExpressions, ExpressionError } from "./expressions";
+
+// A diffusing morphogen, stored as its own volume in the concentration field
+export interface Species {
+    name: string;
+    diffusionConstant: number;
+    decayRate: number;
+}
+
+// dirichlet holds the boundary at a fixed value, neumann is zero flux and periodic wraps around
+export type BoundaryType = 'dirichlet' | 'neumann' | 'periodic';
+
+export interface BoundaryCondition {
+    type: BoundaryType;
+    value: number; // only used by dirichlet
+}
+
+// one condition per axis, applied to both faces and every species
+export interface Boundaries {
+    x: BoundaryCondition;
+    y: BoundaryCondition;
+    z: BoundaryCondition;
+}
+
+// Explicit steps are cheap but only stable for small time steps, so they can be split into sub-steps
+// automatically (see stableSubsteps). Implicit (backward Euler) steps are stable for any time step and
+// are solved with a fixed number of Jacobi iterations.
+export interface Integration {
+    method: 'explicit' | 'implicit';
+    autoSubstep: boolean;
+    iterations: number;
+}
+
+// Common surface of the WebGPU and CPU diffusion backends
+export interface Simulation {
+    readonly backend: 'webgpu' | 'cpu';
+
+    setSpeciesConstants(species: Species[], deltaTime: number): void;
+    setBoundaries(boundaries: Boundaries): void;
+    setDeltaTime(value: number): void;
+    setIntegration(integration: Integration): void;
+    updateCells(cells: Cell[]): void;
+    setMedium(medium: Medium): void;
+    setFlow(flow: FlowField): void;
+    setReaction(reaction: Reaction): void;
+    // the errors if they don't compile, in which case the previous expressions stay
+    setExpressions(expressions: CustomExpressions): Promise<ExpressionError[]>;
+    process(): Promise<void>;
+    readResults(): Promise<Float32Array<ArrayBuffer> | null>;
+    cleanup(): Promise<void>;
+}
+
+// Use WebGPU when it is available, otherwise fall back to the CPU reference implementation
+export async function createSimulation(
+    dimensions: { x: number, y: number, z: number },
+    concentrationData: Float32Array,
+    species: Species[],
+    deltaTime: number,
+    cells: Cell[],
+    boundaries: Boundaries,
+    integration: Integration): Promise<Simulation> {
+    if (typeof navigator !== 'undefined' && navigator.gpu) {
+        try {
+            return await DiffusionSim.create(dimensions, concentrationData, species, deltaTime, cells, boundaries, integration);
+        } catch (error) {
+            console.warn("WebGPU simulation unavailable, falling back to CPU", error);
+        }
+    }
+    return new CpuDiffusionSim(dimensions, concentrationData, species, deltaTime, cells, boundaries, integration);
+}
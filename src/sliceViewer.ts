@@ -0,0 +1,242 @@
+import { SlicePlane, extractSlice, planeAxes, sampleLine, sliceVoxel, voxelValue } from "./slices";
+
+type Position = { x: number, y: number, z: number };
+
+const planes: SlicePlane[] = ['xy', 'xz', 'yz'];
+const panelSize = 180; // css pixels of the longer side
+
+// Axis aligned slice panels drawn next to the 3D view. Hovering reads the value under the cursor,
+// clicking two points, on any panel, plots the concentration along the line between them.
+// While onPaint is set, pressing and dragging paints voxels instead.
+export class SliceViewer {
+    public domElement: HTMLDivElement;
+    public indices: Record<SlicePlane, number> = { xy: 0, xz: 0, yz: 0 };
+    public onPaint: ((plane: SlicePlane, voxel: Position) => void) | null = null;
+
+    private canvases = {} as Record<SlicePlane, HTMLCanvasElement>;
+    private readout: HTMLDivElement;
+    private plot: HTMLCanvasElement;
+    private colormap: Uint8ClampedArray | null = null; // 256 rgba entries
+
+    private volume: Float32Array | null = null;
+    private obstacles: Uint8Array | null = null; // drawn grey over the volume
+    private dimensions: Position = { x: 1, y: 1, z: 1 };
+    private range = { min: 0, max: 1 };
+    private probe: Position[] = [];
+
+    constructor(colormapUrl: string) {
+        this.domElement = document.createElement('div');
+        Object.assign(this.domElement.style, {
+            position: 'absolute', left: '0', bottom: '0', padding: '6px',
+            background: 'rgba(255, 255, 255, 0.85)', font: '11px monospace', display: 'none',
+        });
+
+        const row = document.createElement('div');
+        row.style.display = 'flex';
+        row.style.gap = '6px';
+        row.style.alignItems = 'flex-end';
+        for (const plane of planes) {
+            const panel = document.createElement('div');
+            const label = document.createElement('div');
+            label.textContent = plane.toUpperCase();
+            const canvas = document.createElement('canvas');
+            canvas.style.imageRendering = 'pixelated';
+            canvas.style.cursor = 'crosshair';
+            canvas.addEventListener('mousemove', (event) => {
+                this.onHover(plane, event);
+                if (event.buttons & 1) {
+                    this.paint(plane, event);
+                }
+            });
+            canvas.addEventListener('mousedown', (event) => this.paint(plane, event));
+            canvas.addEventListener('click', (event) => this.onClick(plane, event));
+            panel.append(label, canvas);
+            row.append(panel);
+            this.canvases[plane] = canvas;
+        }
+
+        this.readout = document.createElement('div');
+        this.readout.textContent = 'hover for values, click two points for a line probe';
+        this.plot = document.createElement('canvas');
+        this.plot.width = 3 * panelSize;
+        this.plot.height = 100;
+        this.plot.style.display = 'block';
+        this.domElement.append(row, this.readout, this.plot);
+
+        this.loadColormap(colormapUrl);
+    }
+
+    private loadColormap(url: string) {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = 256;
+            canvas.height = 1;
+            const context = canvas.getContext('2d')!;
+            context.drawImage(image, 0, 0, 256, 1);
+            this.colormap = context.getImageData(0, 0, 256, 1).data;
+            this.draw();
+        };
+        image.src = url;
+    }
+
+    setVisible(visible: boolean) {
+        this.domElement.style.display = visible ? 'block' : 'none';
+        this.draw();
+    }
+
+    get visible() {
+        return this.domElement.style.display != 'none';
+    }
+
+    // volume is a single species, range the values mapped to the ends of the colormap
+    update(volume: Float32Array, dimensions: Position, range: { min: number, max: number }, obstacles: Uint8Array | null = null) {
+        const resized = dimensions.x != this.dimensions.x || dimensions.y != this.dimensions.y || dimensions.z != this.dimensions.z;
+        this.volume = volume;
+        this.obstacles = obstacles;
+        this.dimensions = { ...dimensions };
+        this.range = { ...range };
+        if (resized) {
+            this.probe = [];
+        }
+        this.draw();
+    }
+
+    clearProbe() {
+        this.probe = [];
+        this.draw();
+    }
+
+    draw() {
+        if (!this.volume || !this.visible) {
+            return;
+        }
+        for (const plane of planes) {
+            this.drawSlice(plane);
+        }
+        this.drawProbe();
+    }
+
+    private drawSlice(plane: SlicePlane) {
+        const slice = extractSlice(this.volume!, this.dimensions, plane, this.indices[plane]);
+        const canvas = this.canvases[plane];
+        canvas.width = slice.width;
+        canvas.height = slice.height;
+        const scale = panelSize / Math.max(slice.width, slice.height);
+        canvas.style.width = `${slice.width * scale}px`;
+        canvas.style.height = `${slice.height * scale}px`;
+
+        const context = canvas.getContext('2d')!;
+        const image = context.createImageData(slice.width, slice.height);
+        const span = this.range.max > this.range.min ? this.range.max - this.range.min : 1;
+        const obstacles = this.obstacles ? extractSlice(this.obstacles, this.dimensions, plane, this.indices[plane]) : null;
+        for (let j = 0; j < slice.height; j++) {
+            for (let i = 0; i < slice.width; i++) {
+                const t = Math.min(Math.max((slice.data[i + j * slice.width] - this.range.min) / span, 0), 1);
+                const entry = Math.round(t * 255);
+                // the vertical axis points up
+                const pixel = (i + (slice.height - 1 - j) * slice.width) * 4;
+                if (obstacles?.data[i + j * slice.width]) {
+                    image.data.fill(96, pixel, pixel + 3);
+                } else if (this.colormap) {
+                    image.data.set(this.colormap.subarray(entry * 4, entry * 4 + 3), pixel);
+                } else {
+                    image.data.fill(entry, pixel, pixel + 3);
+                }
+                image.data[pixel + 3] = 255;
+            }
+        }
+        context.putImageData(image, 0, 0);
+
+        // the probe projected onto this plane
+        const { u, v } = planeAxes[plane];
+        context.strokeStyle = '#ff3030';
+        context.fillStyle = '#ff3030';
+        context.lineWidth = Math.max(slice.width, slice.height) / panelSize;
+        context.beginPath();
+        this.probe.forEach((point, n) => {
+            const x = point[u] + 0.5;
+            const y = slice.height - point[v] - 0.5;
+            if (n == 0) {
+                context.moveTo(x, y);
+            } else {
+                context.lineTo(x, y);
+            }
+            context.fillRect(x - 0.5, y - 0.5, 1, 1);
+        });
+        context.stroke();
+    }
+
+    private drawProbe() {
+        const context = this.plot.getContext('2d')!;
+        const { width, height } = this.plot;
+        context.clearRect(0, 0, width, height);
+        if (this.probe.length < 2) {
+            this.plot.style.display = 'none';
+            return;
+        }
+        this.plot.style.display = 'block';
+
+        const samples = sampleLine(this.volume!, this.dimensions, this.probe[0], this.probe[1]);
+        const length = samples[samples.length - 1].distance || 1;
+        const values = samples.map((sample) => sample.value);
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        const span = max > min ? max - min : 1;
+        const margin = 14;
+
+        context.strokeStyle = '#404040';
+        context.strokeRect(margin, 2, width - margin - 2, height - margin - 2);
+        context.strokeStyle = '#ff3030';
+        context.beginPath();
+        samples.forEach((sample, n) => {
+            const x = margin + sample.distance / length * (width - margin - 2);
+            const y = height - margin - (sample.value - min) / span * (height - margin - 2);
+            if (n == 0) {
+                context.moveTo(x, y);
+            } else {
+                context.lineTo(x, y);
+            }
+        });
+        context.stroke();
+
+        context.fillStyle = '#000000';
+        context.font = '10px monospace';
+        context.fillText(max.toPrecision(3), margin + 2, 12);
+        context.fillText(min.toPrecision(3), margin + 2, height - margin - 2);
+        context.fillText(`0`, margin, height - 2);
+        context.fillText(`${length.toFixed(1)} voxels`, width - 80, height - 2);
+    }
+
+    private voxelUnderCursor(plane: SlicePlane, event: MouseEvent) {
+        const canvas = this.canvases[plane];
+        const i = Math.floor(event.offsetX / canvas.clientWidth * canvas.width);
+        const j = canvas.height - 1 - Math.floor(event.offsetY / canvas.clientHeight * canvas.height);
+        return sliceVoxel(this.dimensions, plane, this.indices[plane], i, j);
+    }
+
+    private onHover(plane: SlicePlane, event: MouseEvent) {
+        const voxel = this.voxelUnderCursor(plane, event);
+        if (!voxel || !this.volume) {
+            return;
+        }
+        this.readout.textContent = `(${voxel.x}, ${voxel.y}, ${voxel.z}) = ${voxelValue(this.volume, this.dimensions, voxel).toPrecision(5)}`;
+    }
+
+    private paint(plane: SlicePlane, event: MouseEvent) {
+        const voxel = this.voxelUnderCursor(plane, event);
+        if (this.onPaint && voxel) {
+            this.onPaint(plane, voxel);
+        }
+    }
+
+    private onClick(plane: SlicePlane, event: MouseEvent) {
+        const voxel = this.voxelUnderCursor(plane, event);
+        if (!voxel || this.onPaint) {
+            return;
+        }
+        // a third point starts a new probe
+        this.probe = this.probe.length >= 2 ? [voxel] : [...this.probe, voxel];
+        this.draw();
+    }
+}
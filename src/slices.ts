@@ -0,0 +1,70 @@
+type Position = { x: number, y: number, z: number };
+type Axis = 'x' | 'y' | 'z';
+
+export type SlicePlane = 'xy' | 'xz' | 'yz';
+
+// The two in plane axes, horizontal then vertical, and the axis the slice index runs along
+export const planeAxes: Record<SlicePlane, { u: Axis, v: Axis, normal: Axis }> = {
+    xy: { u: 'x', v: 'y', normal: 'z' },
+    xz: { u: 'x', v: 'z', normal: 'y' },
+    yz: { u: 'y', v: 'z', normal: 'x' },
+};
+
+export interface Slice {
+    width: number;
+    height: number;
+    data: Float32Array; // row major, data[u + v * width]
+}
+
+// One species' volume, x varies fastest, then y, then z
+export function voxelValue(volume: ArrayLike<number>, dimensions: Position, position: Position) {
+    return volume[position.x + position.y * dimensions.x + position.z * dimensions.x * dimensions.y];
+}
+
+export function extractSlice(volume: ArrayLike<number>, dimensions: Position, plane: SlicePlane, index: number): Slice {
+    const { u, v, normal } = planeAxes[plane];
+    const width = dimensions[u];
+    const height = dimensions[v];
+    const data = new Float32Array(width * height);
+    const position = { x: 0, y: 0, z: 0 };
+    position[normal] = Math.min(Math.max(index, 0), dimensions[normal] - 1);
+
+    for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+            position[u] = i;
+            position[v] = j;
+            data[i + j * width] = voxelValue(volume, dimensions, position);
+        }
+    }
+    return { width, height, data };
+}
+
+// The voxel position on a slice, null outside the domain
+export function sliceVoxel(dimensions: Position, plane: SlicePlane, index: number, i: number, j: number): Position | null {
+    const { u, v, normal } = planeAxes[plane];
+    const position = { x: 0, y: 0, z: 0 };
+    position[u] = i;
+    position[v] = j;
+    position[normal] = index;
+    const inBounds = (['x', 'y', 'z'] as const).every((axis) => position[axis] >= 0 && position[axis] < dimensions[axis]);
+    return inBounds ? position : null;
+}
+
+// Concentration against distance along the straight line between two voxels, one sample per voxel
+// length, each taken from the nearest voxel
+export function sampleLine(volume: Float32Array, dimensions: Position, start: Position, end: Position) {
+    const length = Math.sqrt((end.x - start.x) ** 2 + (end.y - start.y) ** 2 + (end.z - start.z) ** 2);
+    const numSamples = Math.max(2, Math.ceil(length) + 1);
+    const samples: { distance: number, value: number }[] = [];
+
+    for (let i = 0; i < numSamples; i++) {
+        const t = i / (numSamples - 1);
+        const position = {
+            x: Math.round(start.x + (end.x - start.x) * t),
+            y: Math.round(start.y + (end.y - start.y) * t),
+            z: Math.round(start.z + (end.z - start.z) * t),
+        };
+        samples.push({ distance: t * length, value: voxelValue(volume, dimensions, position) });
+    }
+    return samples;
+}
@@ -0,0 +1,143 @@
+import { Cell } from "./cells";
+import { cellRules } from "./behaviour";
+import { FlowField, FlowSettings, presetFlow } from "./flow";
+import { Medium, uniformMedium } from "./medium";
+import { Reaction, reactionModels } from "./reactions";
+import { CustomExpressions, isCustomExpressions } from "./expressions";
+import type { Boundaries, Integration, Species } from "./simulation";
+
+// Saved states are a single binary file:
+//   8 bytes   magic "CELLDEV\0"
+//   4 bytes   header length in bytes, little endian u32
+//   n bytes   header, UTF-8 JSON (SavedState)
+//   padding   to a multiple of 4 bytes
+//   n bytes   concentration field, little endian f32, every species one volume after another
+//   n bytes   the medium's diffusivity then obstacles (0 or 1) as little endian f32, if the header says so
+//   rest      the flow's interleaved x, y, z velocity as little endian f32, for a flow loaded from a file
+// Bump the version whenever the header or field layout changes.
+export const STATE_FORMAT_VERSION = 6;
+const MAGIC = "CELLDEV\0";
+
+export interface SavedCell {
+    position: { x: number, y: number, z: number };
+    productionRates: number[];
+    uptakeRates: number[];
+    state: Record<string, number>;
+    rule: string | null; // key into cellRules
+}
+
+export interface SavedState {
+    version: number;
+    dimensions: { x: number, y: number, z: number };
+    species: Species[];
+    deltaTime: number;
+    boundaries: Boundaries;
+    integration: Integration;
+    cells: SavedCell[];
+    random: { seed: number, state: number }; // see Random
+    medium: boolean; // whether the medium follows the field, a uniform one isn't saved
+    flow: FlowSettings; // presets are generated again on loading, only a loaded flow's velocity is saved
+    reaction: Reaction;
+    expressions: CustomExpressions;
+    // GUI only settings that don't affect the simulation itself
+    settings: Record<string, unknown>;
+}
+
+export function saveCell(cell: Cell): SavedCell {
+    const rule = Object.keys(cellRules).find((name) => cellRules[name] === cell.rule) ?? null;
+    return {
+        position: { ...cell.position },
+        productionRates: [...cell.productionRates],
+        uptakeRates: [...cell.uptakeRates],
+        state: { ...cell.state },
+        rule: rule == 'None' ? null : rule,
+    };
+}
+
+export function loadCell(saved: SavedCell): Cell {
+    const cell = new Cell({ ...saved.position }, [...saved.productionRates], [...saved.uptakeRates]);
+    cell.state = { ...saved.state };
+    cell.rule = saved.rule ? cellRules[saved.rule] ?? null : null;
+    return cell;
+}
+
+function isUniform(medium: Medium) {
+    return medium.diffusivity.every((value) => value == 1) && medium.obstacles.every((value) => value == 0);
+}
+
+// the volumes that follow the header, in order
+function stateVolumes(field: Float32Array, medium: Medium | null, velocity: Float32Array | null): (Float32Array | Uint8Array)[] {
+    return [field, ...(medium ? [medium.diffusivity, medium.obstacles] : []), ...(velocity ? [velocity] : [])];
+}
+
+// flow is only needed for the 'file' preset
+export function serializeState(
+    state: Omit<SavedState, 'version' | 'medium'>,
+    field: Float32Array,
+    medium: Medium | null = null,
+    flow: FlowField | null = null): ArrayBuffer {
+    if (state.flow.preset == 'file' && !flow) {
+        throw new Error('A loaded flow needs its velocity saved');
+    }
+    const savedMedium = medium && !isUniform(medium) ? medium : null;
+    const header = new TextEncoder().encode(JSON.stringify({ version: STATE_FORMAT_VERSION, ...state, medium: savedMedium != null }));
+    const fieldOffset = Math.ceil((12 + header.byteLength) / 4) * 4;
+    const volumes = stateVolumes(field, savedMedium, state.flow.preset == 'file' ? flow!.velocity : null);
+
+    const buffer = new ArrayBuffer(fieldOffset + volumes.reduce((total, volume) => total + volume.length * 4, 0));
+    const bytes = new Uint8Array(buffer);
+    bytes.set(new TextEncoder().encode(MAGIC), 0);
+    new DataView(buffer).setUint32(8, header.byteLength, true);
+    bytes.set(header, 12);
+
+    const view = new DataView(buffer, fieldOffset);
+    let offset = 0;
+    for (const volume of volumes) {
+        for (let i = 0; i < volume.length; i++, offset += 4) {
+            view.setFloat32(offset, volume[i], true);
+        }
+    }
+    return buffer;
+}
+
+// The medium is uniform when the state didn't save one, and a preset flow is generated from its settings
+export function deserializeState(buffer: ArrayBuffer): {
+    state: SavedState, field: Float32Array<ArrayBuffer>, medium: Medium, flow: FlowField } {
+    if (buffer.byteLength < 12 || new TextDecoder().decode(new Uint8Array(buffer, 0, 8)) != MAGIC) {
+        throw new Error('Not a saved simulation state');
+    }
+
+    const headerLength = new DataView(buffer).getUint32(8, true);
+    const state: SavedState = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 12, headerLength)));
+    if (state.version != STATE_FORMAT_VERSION) {
+        throw new Error(`Unsupported state format version ${state.version}, expected ${STATE_FORMAT_VERSION}`);
+    }
+
+    const model = state.reaction.model;
+    if (!Object.hasOwn(reactionModels, model) || state.reaction.coefficients.length != (reactionModels[model]?.parameters.length ?? 0)) {
+        throw new Error(`Unknown reaction model ${model} or wrong number of coefficients`);
+    }
+    if (!isCustomExpressions(state.expressions)) {
+        throw new Error('Malformed expressions');
+    }
+
+    const fieldOffset = Math.ceil((12 + headerLength) / 4) * 4;
+    const numVoxels = state.dimensions.x * state.dimensions.y * state.dimensions.z;
+    const field = new Float32Array(numVoxels * state.species.length);
+    const medium = uniformMedium(state.dimensions);
+    const flow = presetFlow(state.flow, state.dimensions);
+    const volumes = stateVolumes(field, state.medium ? medium : null, state.flow.preset == 'file' ? flow.velocity : null);
+    const numValues = volumes.reduce((total, volume) => total + volume.length, 0);
+    if (buffer.byteLength - fieldOffset != numValues * 4) {
+        throw new Error(`Expected ${numValues} values, found ${(buffer.byteLength - fieldOffset) / 4}`);
+    }
+
+    const view = new DataView(buffer, fieldOffset);
+    let offset = 0;
+    for (const volume of volumes) {
+        for (let i = 0; i < volume.length; i++, offset += 4) {
+            volume[i] = view.getFloat32(offset, true);
+        }
+    }
+    return { state, field, medium, flow };
+}
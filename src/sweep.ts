@@ -0,0 +1,210 @@
+import { HeadlessRun } from "./headless";
+import { SteadyStateDetector, computeMetrics } from "./metrics";
+import { random } from "./random";
+import { Scenario, loadScenario, parseScenario } from "./scenario";
+
+// A sweep runs a scenario for every combination of parameter values, several times each with different seeds:
+//
+// {
+//     "scenario": "../public/scenarios/gradient-and-chemotaxis.json",
+//     "steps": 500,
+//     "repeats": 3,
+//     "parameters": {
+//         "species.0.diffusionConstant": [0.5, 1.0, 2.0],
+//         "deltaTime": { "from": 0.05, "to": 0.2, "count": 4 },
+//         "cellGroups.0.productionRates.0": { "from": 500, "to": 2500, "step": 500 }
+//     }
+// }
+//
+// Parameters are dot separated paths into the scenario, which has to already contain the object they point into.
+export type ParameterValues =
+    | number[]
+    | { from: number, to: number, count: number }
+    | { from: number, to: number, step: number };
+
+export interface Sweep {
+    scenario: string | Scenario; // path relative to the sweep file, or the scenario itself
+    steps: number;
+    iterations?: number; // simulation steps between steady state checks
+    ruleInterval?: number; // simulation steps between cell rule updates, 1 by default
+    repeats?: number;
+    seed?: number; // repeat r runs with seed + r, so every parameter combination sees the same seeds
+    parameters: Record<string, ParameterValues>;
+}
+
+export interface SweepPoint {
+    run: number;
+    repeat: number;
+    seed: number;
+    parameters: Record<string, number>;
+}
+
+// one row of the results table, the parameters followed by the metrics of the run
+export type SweepResult = Record<string, number>;
+
+export function parameterValues(values: ParameterValues): number[] {
+    if (Array.isArray(values)) {
+        return values;
+    }
+    if ('count' in values) {
+        if (values.count < 2) {
+            return [values.from];
+        }
+        return Array.from({ length: values.count }, (_, i) => values.from + (values.to - values.from) * i / (values.count - 1));
+    }
+    if (!(values.step > 0)) {
+        throw new Error('Parameter range step must be positive');
+    }
+    const result: number[] = [];
+    // small tolerance so the end is included despite rounding
+    for (let i = 0; values.from + i * values.step <= values.to + values.step * 1e-9; i++) {
+        result.push(values.from + i * values.step);
+    }
+    return result;
+}
+
+export function parseSweep(json: string): Sweep {
+    const sweep = JSON.parse(json) as Sweep;
+    validateSweep(sweep);
+    return sweep;
+}
+
+function validateSweep(sweep: Sweep) {
+    if (typeof sweep.scenario != 'string' && (typeof sweep.scenario != 'object' || sweep.scenario === null)) {
+        throw new Error('Sweep needs a scenario, a path or the scenario itself');
+    }
+    if (!Number.isInteger(sweep.steps) || sweep.steps < 1) {
+        throw new Error('Sweep needs a positive integer number of steps');
+    }
+    for (const key of ['iterations', 'ruleInterval', 'repeats'] as const) {
+        if (sweep[key] !== undefined && (!Number.isInteger(sweep[key]) || sweep[key] < 1)) {
+            throw new Error(`Sweep ${key} must be a positive integer`);
+        }
+    }
+    if (sweep.seed !== undefined && !Number.isInteger(sweep.seed)) {
+        throw new Error('Sweep seed must be an integer');
+    }
+    if (typeof sweep.parameters != 'object' || sweep.parameters === null || Array.isArray(sweep.parameters)) {
+        throw new Error('Sweep needs parameters, an object of paths and their values');
+    }
+
+    for (const [path, values] of Object.entries(sweep.parameters)) {
+        if (path.split('.').some((key) => key == '')) {
+            throw new Error(`Parameter "${path}" is not a dot separated path`);
+        }
+        const finite = (value: unknown) => typeof value == 'number' && Number.isFinite(value);
+        if (Array.isArray(values)) {
+            if (values.length == 0 || !values.every(finite)) {
+                throw new Error(`Parameter ${path} needs a list of numbers`);
+            }
+        } else if (typeof values != 'object' || values === null || !finite(values.from) || !finite(values.to)) {
+            throw new Error(`Parameter ${path} needs a list of numbers or a range with from and to`);
+        } else if ('count' in values) {
+            if (!Number.isInteger(values.count) || values.count < 1) {
+                throw new Error(`Parameter ${path} needs a positive integer count`);
+            }
+        } else if (!('step' in values) || !finite(values.step) || values.step <= 0 || values.to < values.from) {
+            throw new Error(`Parameter ${path} needs a positive step or a count, and to at least from when stepping`);
+        }
+    }
+}
+
+// Checks every run's scenario up front, so a bad parameter path or value doesn't end the sweep halfway
+export function validateSweepPoints(sweep: Sweep, scenario: Scenario) {
+    for (const point of expandSweep(sweep)) {
+        try {
+            parseScenario(JSON.stringify(applyParameters(scenario, point.parameters)));
+        } catch (error) {
+            throw new Error(`run ${point.run} ${JSON.stringify(point.parameters)}: ${(error as Error).message}`);
+        }
+    }
+}
+
+// Every combination of parameter values, times the number of repeats
+export function expandSweep(sweep: Sweep): SweepPoint[] {
+    let combinations: Record<string, number>[] = [{}];
+    for (const [path, values] of Object.entries(sweep.parameters)) {
+        combinations = combinations.flatMap((combination) =>
+            parameterValues(values).map((value) => ({ ...combination, [path]: value })));
+    }
+
+    const points: SweepPoint[] = [];
+    for (const parameters of combinations) {
+        for (let repeat = 0; repeat < (sweep.repeats ?? 1); repeat++) {
+            points.push({ run: points.length, repeat, seed: (sweep.seed ?? 1) + repeat, parameters });
+        }
+    }
+    return points;
+}
+
+// Returns a copy of the scenario with the parameters set
+export function applyParameters(scenario: Scenario, parameters: Record<string, number>): Scenario {
+    const result = structuredClone(scenario);
+    for (const [path, value] of Object.entries(parameters)) {
+        const keys = path.split('.');
+        let target = result as unknown as Record<string, unknown>;
+        for (const key of keys.slice(0, -1)) {
+            const next = target[key];
+            if (next === undefined || next === null || typeof next != 'object') {
+                throw new Error(`Parameter ${path}: the scenario has no ${key}`);
+            }
+            target = next as Record<string, unknown>;
+        }
+        target[keys[keys.length - 1]] = value;
+    }
+    return result;
+}
+
+export async function runSweepPoint(sweep: Sweep, scenario: Scenario, point: SweepPoint): Promise<SweepResult> {
+    const pointScenario = applyParameters(scenario, point.parameters);
+    random.reseed(point.seed);
+    const setup = loadScenario(pointScenario);
+    setup.warnings.forEach((warning) => console.warn(`run ${point.run}: ${warning}`));
+    const run = await HeadlessRun.create(setup, sweep.ruleInterval ?? 1);
+
+    const iterations = Math.max(1, sweep.iterations ?? 1);
+    const steadyState = new SteadyStateDetector();
+    while (run.step < sweep.steps) {
+        await run.advance(Math.min(iterations, sweep.steps - run.step));
+        steadyState.update(run.field, run.step);
+    }
+    await run.cleanup();
+
+    // -1 when the field was still changing at the end
+    const result: SweepResult = {
+        run: point.run, repeat: point.repeat, seed: point.seed, ...point.parameters,
+        cells: run.cells.length, 'steady step': steadyState.steadyStep ?? -1,
+    };
+    for (const metrics of computeMetrics(run.field, setup.dimensions, setup.species.map((species) => species.name), run.cells, run.lattice)) {
+        result[`${metrics.species} total`] = metrics.total;
+        result[`${metrics.species} min`] = metrics.min;
+        result[`${metrics.species} max`] = metrics.max;
+        result[`${metrics.species} mean`] = metrics.mean;
+        if (metrics.centreOfMass) {
+            result[`${metrics.species} centre x`] = metrics.centreOfMass.x;
+            result[`${metrics.species} centre y`] = metrics.centreOfMass.y;
+            result[`${metrics.species} centre z`] = metrics.centreOfMass.z;
+        }
+        result[`${metrics.species} mean cell gradient`] = metrics.meanCellGradient;
+    }
+    return result;
+}
+
+// Runs the points one after another, onResult sees every result as soon as it is done
+export async function runSweep(sweep: Sweep, scenario: Scenario, onResult?: (result: SweepResult, point: SweepPoint, total: number) => void) {
+    const points = expandSweep(sweep);
+    const results: SweepResult[] = [];
+    for (const point of points) {
+        const result = await runSweepPoint(sweep, scenario, point);
+        results.push(result);
+        onResult?.(result, point, points.length);
+    }
+    return results;
+}
+
+export function resultsToCsv(results: SweepResult[]) {
+    const columns = [...new Set(results.flatMap((result) => Object.keys(result)))];
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = results.map((result) => columns.map((column) => result[column] ?? '').join(','));
+    return [columns.map(escape).join(','), ...rows].join('\n') + '\n';
+}
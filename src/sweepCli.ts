@@ -0,0 +1,60 @@
+/// <reference types="node" />
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { parseScenario } from "./scenario";
+import { expandSweep, parseSweep, resultsToCsv, runSweep, validateSweepPoints } from "./sweep";
+
+const usage = `Runs every combination of a parameter sweep, see src/sweep.ts for the file format.
+
+usage: npm run sweep -- <sweep.json> [options]
+
+  --out <dir>   output directory for results.csv and results.json (default out/sweep)
+  --dry-run     only list the runs
+  --help        show this message
+`;
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', default: join('out', 'sweep') },
+            'dry-run': { type: 'boolean', default: false },
+            help: { type: 'boolean', default: false },
+        },
+    });
+
+    if (values.help || positionals.length != 1) {
+        console.log(usage);
+        process.exit(values.help ? 0 : 1);
+    }
+
+    const sweepPath = positionals[0];
+    const sweep = parseSweep(readFileSync(sweepPath, 'utf8'));
+    const scenario = typeof sweep.scenario == 'string'
+        ? parseScenario(readFileSync(resolve(dirname(sweepPath), sweep.scenario), 'utf8'))
+        : parseScenario(JSON.stringify(sweep.scenario));
+    validateSweepPoints(sweep, scenario);
+
+    if (values['dry-run']) {
+        for (const point of expandSweep(sweep)) {
+            console.log(`run ${point.run}, seed ${point.seed}: ${JSON.stringify(point.parameters)}`);
+        }
+        return;
+    }
+
+    const out = values.out!;
+    mkdirSync(out, { recursive: true });
+    const results = await runSweep(sweep, scenario, (result, point, total) => {
+        console.log(`run ${point.run + 1}/${total} ${JSON.stringify(point.parameters)} seed ${point.seed}: ${result.cells} cells`);
+    });
+
+    writeFileSync(join(out, 'results.csv'), resultsToCsv(results));
+    writeFileSync(join(out, 'results.json'), JSON.stringify(results, null, 4));
+    console.log(`wrote ${results.length} runs to ${out}`);
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
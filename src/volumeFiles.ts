@@ -0,0 +1,502 @@
+import { Cell } from "./cells";
+import { cellRules } from "./behaviour";
+import { saveCell } from "./stateFile";
+
+type Position = { x: number, y: number, z: number };
+
+// A field in any of the exchange formats, every volume one after another with x varying fastest,
+// then y, then z, the same layout as the simulation. Voxel (i, j, k) sits at (i, j, k), unit spacing,
+// which is also where the cells are.
+export interface VolumeData {
+    dimensions: Position;
+    names: string[]; // one per volume
+    field: Float32Array<ArrayBuffer>;
+}
+
+export type VolumeFormat = 'vtk' | 'vti' | 'nrrd' | 'raw';
+
+export const volumeExtensions: Record<VolumeFormat, string> = { vtk: '.vtk', vti: '.vti', nrrd: '.nrrd', raw: '.raw' };
+
+// element types shared by the formats, under each format's own name
+interface ElementType { bytes: number, read: (view: DataView, offset: number, littleEndian: boolean) => number }
+const float32: ElementType = { bytes: 4, read: (view, offset, little) => view.getFloat32(offset, little) };
+const float64: ElementType = { bytes: 8, read: (view, offset, little) => view.getFloat64(offset, little) };
+const int8: ElementType = { bytes: 1, read: (view, offset) => view.getInt8(offset) };
+const uint8: ElementType = { bytes: 1, read: (view, offset) => view.getUint8(offset) };
+const int16: ElementType = { bytes: 2, read: (view, offset, little) => view.getInt16(offset, little) };
+const uint16: ElementType = { bytes: 2, read: (view, offset, little) => view.getUint16(offset, little) };
+const int32: ElementType = { bytes: 4, read: (view, offset, little) => view.getInt32(offset, little) };
+const uint32: ElementType = { bytes: 4, read: (view, offset, little) => view.getUint32(offset, little) };
+
+const vtkTypes: Record<string, ElementType> = {
+    float: float32, double: float64, char: int8, unsigned_char: uint8, short: int16, unsigned_short: uint16,
+    int: int32, unsigned_int: uint32,
+};
+const vtiTypes: Record<string, ElementType> = {
+    Float32: float32, Float64: float64, Int8: int8, UInt8: uint8, Int16: int16, UInt16: uint16, Int32: int32, UInt32: uint32,
+};
+const nrrdTypes: Record<string, ElementType> = {
+    float: float32, double: float64, int8: int8, 'signed char': int8, uint8: uint8, uchar: uint8, 'unsigned char': uint8,
+    int16: int16, short: int16, uint16: uint16, ushort: uint16, 'unsigned short': uint16, int32: int32, int: int32,
+    uint32: uint32, uint: uint32, 'unsigned int': uint32,
+};
+const numpyTypes: Record<string, ElementType> = {
+    '<f4': float32, '<f8': float64, '|i1': int8, '|u1': uint8, '<i2': int16, '<u2': uint16, '<i4': int32, '<u4': uint32,
+};
+
+function readValues(bytes: Uint8Array, offset: number, count: number, type: ElementType, littleEndian: boolean) {
+    if (offset + count * type.bytes > bytes.byteLength) {
+        throw new Error(`the data ends early, expected ${count} values`);
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    const values = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        values[i] = type.read(view, i * type.bytes, littleEndian);
+    }
+    return values;
+}
+
+function writeFloats(values: Float32Array, littleEndian: boolean) {
+    const bytes = new Uint8Array(values.length * 4);
+    const view = new DataView(bytes.buffer);
+    values.forEach((value, i) => view.setFloat32(i * 4, value, littleEndian));
+    return bytes;
+}
+
+function concatBytes(parts: (Uint8Array | string)[]): ArrayBuffer {
+    const encoded = parts.map((part) => typeof part == 'string' ? new TextEncoder().encode(part) : part);
+    const result = new Uint8Array(encoded.reduce((total, part) => total + part.byteLength, 0));
+    let offset = 0;
+    for (const part of encoded) {
+        result.set(part, offset);
+        offset += part.byteLength;
+    }
+    return result.buffer;
+}
+
+function numVoxels(dimensions: Position) {
+    return dimensions.x * dimensions.y * dimensions.z;
+}
+
+function volumeOf(volume: VolumeData, index: number) {
+    const n = numVoxels(volume.dimensions);
+    return volume.field.subarray(index * n, (index + 1) * n);
+}
+
+// names can't hold whitespace in VTK
+function vtkName(name: string) {
+    return name.trim().replace(/\s+/g, '_') || 'field';
+}
+
+const xmlEntities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+// for attribute values, names can hold any character
+function escapeXml(value: string) {
+    return value.replace(/[&<>"']/g, (c) => xmlEntities[c]);
+}
+
+function unescapeXml(value: string) {
+    const characters = Object.fromEntries(Object.entries(xmlEntities).map(([c, entity]) => [entity, c]));
+    return value.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => characters[entity]);
+}
+
+function checkDimensions(dimensions: Position) {
+    if (![dimensions.x, dimensions.y, dimensions.z].every((size) => Number.isInteger(size) && size > 0)) {
+        throw new Error(`invalid dimensions ${dimensions.x} x ${dimensions.y} x ${dimensions.z}`);
+    }
+}
+
+// Legacy VTK structured points, binary, one SCALARS array per volume
+export function writeVtk(volume: VolumeData): ArrayBuffer {
+    const { x, y, z } = volume.dimensions;
+    const parts: (Uint8Array | string)[] = [
+        `# vtk DataFile Version 3.0\ncell-dev concentration field\nBINARY\nDATASET STRUCTURED_POINTS\n` +
+        `DIMENSIONS ${x} ${y} ${z}\nORIGIN 0 0 0\nSPACING 1 1 1\nPOINT_DATA ${numVoxels(volume.dimensions)}\n`,
+    ];
+    volume.names.forEach((name, i) => {
+        parts.push(`SCALARS ${vtkName(name)} float 1\nLOOKUP_TABLE default\n`);
+        parts.push(writeFloats(volumeOf(volume, i), false)); // legacy binary is big endian
+        parts.push('\n');
+    });
+    return concatBytes(parts);
+}
+
+// Reads the structured points written above, or any other ASCII or binary legacy file with scalar point data
+export function readVtk(buffer: ArrayBuffer): VolumeData {
+    const bytes = new Uint8Array(buffer);
+    let position = 0;
+    const nextLine = () => {
+        const end = bytes.indexOf(10, position);
+        const line = new TextDecoder('latin1').decode(bytes.subarray(position, end < 0 ? bytes.length : end));
+        position = end < 0 ? bytes.length : end + 1;
+        return line.trim();
+    };
+    // the next count whitespace separated numbers, for ASCII files
+    const nextNumbers = (count: number) => {
+        const values = new Float32Array(count);
+        let n = 0;
+        while (n < count && position < bytes.length) {
+            for (const token of nextLine().split(/\s+/)) {
+                if (token && n < count) {
+                    values[n++] = Number(token);
+                }
+            }
+        }
+        if (n < count) {
+            throw new Error(`the data ends early, expected ${count} values`);
+        }
+        return values;
+    };
+
+    if (!nextLine().startsWith('# vtk DataFile')) {
+        throw new Error('not a legacy VTK file');
+    }
+    nextLine(); // title
+    const encoding = nextLine().toUpperCase();
+    if (encoding != 'ASCII' && encoding != 'BINARY') {
+        throw new Error(`unknown encoding ${encoding}`);
+    }
+
+    let dimensions: Position | null = null;
+    let numPoints = 0;
+    const names: string[] = [];
+    const volumes: Float32Array[] = [];
+    while (position < bytes.length) {
+        const words = nextLine().split(/\s+/);
+        const keyword = words[0].toUpperCase();
+        if (keyword == 'DATASET' && words[1] === undefined) {
+            throw new Error('DATASET without a type');
+        } else if (keyword == 'DATASET' && words[1].toUpperCase() != 'STRUCTURED_POINTS') {
+            throw new Error(`only STRUCTURED_POINTS datasets can be read, not ${words[1]}`);
+        } else if (keyword == 'DIMENSIONS') {
+            dimensions = { x: Number(words[1]), y: Number(words[2]), z: Number(words[3]) };
+        } else if (keyword == 'POINT_DATA') {
+            numPoints = Number(words[1]);
+        } else if (keyword == 'CELL_DATA') {
+            throw new Error('only point data can be read');
+        } else if (['FIELD', 'VECTORS', 'NORMALS', 'TENSORS', 'COLOR_SCALARS', 'TEXTURE_COORDINATES'].includes(keyword)) {
+            throw new Error(`only SCALARS can be read, not ${keyword}`);
+        } else if (keyword == 'SCALARS') {
+            const type = vtkTypes[words[2]];
+            if (!type) {
+                throw new Error(`unsupported data type ${words[2]}`);
+            }
+            if (Number(words[3] ?? 1) != 1) {
+                throw new Error(`${words[1]} has more than one component`);
+            }
+            // the lookup table line is optional
+            const save = position;
+            if (!nextLine().toUpperCase().startsWith('LOOKUP_TABLE')) {
+                position = save;
+            }
+            if (encoding == 'BINARY') {
+                volumes.push(readValues(bytes, position, numPoints, type, false));
+                position += numPoints * type.bytes;
+            } else {
+                volumes.push(nextNumbers(numPoints));
+            }
+            names.push(words[1]);
+        }
+    }
+
+    if (!dimensions) {
+        throw new Error('no DIMENSIONS');
+    }
+    return assemble(dimensions, names, volumes);
+}
+
+function assemble(dimensions: Position, names: string[], volumes: Float32Array[]): VolumeData {
+    checkDimensions(dimensions);
+    if (volumes.length == 0) {
+        throw new Error('no scalar data');
+    }
+    const n = numVoxels(dimensions);
+    const field = new Float32Array(n * volumes.length);
+    volumes.forEach((values, i) => {
+        if (values.length != n) {
+            throw new Error(`${names[i]} has ${values.length} values, expected ${n}`);
+        }
+        field.set(values, i * n);
+    });
+    return { dimensions, names, field };
+}
+
+// VTK XML image data, little endian floats appended raw after the XML
+export function writeVti(volume: VolumeData): ArrayBuffer {
+    const { x, y, z } = volume.dimensions;
+    const bytesPerVolume = numVoxels(volume.dimensions) * 4;
+    const arrays = volume.names.map((name, i) =>
+        `        <DataArray type="Float32" Name="${escapeXml(vtkName(name))}" format="appended" offset="${i * (4 + bytesPerVolume)}"/>\n`).join('');
+    const header =
+        `<?xml version="1.0"?>\n` +
+        `<VTKFile type="ImageData" version="1.0" byte_order="LittleEndian" header_type="UInt32">\n` +
+        `  <ImageData WholeExtent="0 ${x - 1} 0 ${y - 1} 0 ${z - 1}" Origin="0 0 0" Spacing="1 1 1">\n` +
+        `    <Piece Extent="0 ${x - 1} 0 ${y - 1} 0 ${z - 1}">\n` +
+        `      <PointData Scalars="${escapeXml(vtkName(volume.names[0] ?? 'field'))}">\n${arrays}      </PointData>\n` +
+        `    </Piece>\n  </ImageData>\n  <AppendedData encoding="raw">\n   _`;
+
+    const parts: (Uint8Array | string)[] = [header];
+    volume.names.forEach((_, i) => {
+        const size = new Uint8Array(4);
+        new DataView(size.buffer).setUint32(0, bytesPerVolume, true);
+        parts.push(size, writeFloats(volumeOf(volume, i), true));
+    });
+    parts.push('\n  </AppendedData>\n</VTKFile>\n');
+    return concatBytes(parts);
+}
+
+// Reads ascii, base64 binary or raw appended arrays, without compression
+export function readVti(buffer: ArrayBuffer): VolumeData {
+    const bytes = new Uint8Array(buffer);
+    // latin1 keeps one character per byte, so offsets into the text are offsets into the file
+    const text = new TextDecoder('latin1').decode(bytes);
+    const attribute = (tag: string, name: string) => {
+        const value = tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+        return value === undefined ? undefined : unescapeXml(value);
+    };
+
+    const file = text.match(/<VTKFile\b[^>]*>/)?.[0];
+    if (!file || attribute(file, 'type') != 'ImageData') {
+        throw new Error('not a VTK image data file');
+    }
+    if (attribute(file, 'compressor')) {
+        throw new Error('compressed files can\'t be read, save without compression');
+    }
+    const littleEndian = attribute(file, 'byte_order') != 'BigEndian';
+    const headerType = attribute(file, 'header_type') == 'UInt64' ? 8 : 4;
+
+    const extent = attribute(text.match(/<ImageData\b[^>]*>/)?.[0] ?? '', 'WholeExtent')?.trim().split(/\s+/).map(Number);
+    if (!extent || extent.length != 6) {
+        throw new Error('no WholeExtent');
+    }
+    const dimensions = { x: extent[1] - extent[0] + 1, y: extent[3] - extent[2] + 1, z: extent[5] - extent[4] + 1 };
+    checkDimensions(dimensions);
+    const count = numVoxels(dimensions);
+
+    const appendedStart = text.match(/<AppendedData\b[^>]*>\s*_/);
+    const appendedOffset = appendedStart ? appendedStart.index! + appendedStart[0].length : -1;
+    if (appendedStart && attribute(appendedStart[0], 'encoding') != 'raw') {
+        throw new Error('only raw appended data can be read');
+    }
+    const readSize = (offset: number) => headerType == 8
+        ? Number(new DataView(buffer, offset).getBigUint64(0, littleEndian))
+        : new DataView(buffer, offset).getUint32(0, littleEndian);
+
+    const pointData = text.slice(0, appendedOffset < 0 ? text.length : appendedOffset).match(/<PointData\b[^>]*>([\s\S]*?)<\/PointData>/)?.[1] ?? '';
+    const names: string[] = [];
+    const volumes: Float32Array[] = [];
+    for (const match of pointData.matchAll(/<DataArray\b([^>]*?)(\/>|>([\s\S]*?)<\/DataArray>)/g)) {
+        const tag = match[1];
+        const name = attribute(tag, 'Name') ?? `array${names.length}`;
+        const type = vtiTypes[attribute(tag, 'type') ?? ''];
+        if (!type) {
+            throw new Error(`${name} has an unsupported type ${attribute(tag, 'type')}`);
+        }
+        if (Number(attribute(tag, 'NumberOfComponents') ?? 1) != 1) {
+            throw new Error(`${name} has more than one component`);
+        }
+
+        const format = attribute(tag, 'format');
+        if (format == 'ascii') {
+            const values = (match[3] ?? '').trim().split(/\s+/).map(Number);
+            volumes.push(new Float32Array(values));
+        } else if (format == 'binary') {
+            const decoded = Uint8Array.from(atob((match[3] ?? '').replace(/\s+/g, '')), (c) => c.charCodeAt(0));
+            volumes.push(readValues(decoded, headerType, count, type, littleEndian));
+        } else if (format == 'appended') {
+            if (appendedOffset < 0) {
+                throw new Error(`${name} is appended but there is no AppendedData`);
+            }
+            const offset = appendedOffset + Number(attribute(tag, 'offset') ?? 0);
+            const size = readSize(offset);
+            if (size != count * type.bytes) {
+                throw new Error(`${name} has ${size} bytes, expected ${count * type.bytes}`);
+            }
+            volumes.push(readValues(bytes, offset + headerType, count, type, littleEndian));
+        } else {
+            throw new Error(`${name} has an unknown format ${format}`);
+        }
+        names.push(name);
+    }
+    return assemble(dimensions, names, volumes);
+}
+
+// NRRD with the volumes along a fourth axis, raw little endian floats after the header
+export function writeNrrd(volume: VolumeData): ArrayBuffer {
+    const { x, y, z } = volume.dimensions;
+    const header =
+        `NRRD0004\n# cell-dev concentration field\ntype: float\ndimension: 4\n` +
+        `sizes: ${x} ${y} ${z} ${volume.names.length}\nkinds: domain domain domain list\n` +
+        `labels: "x" "y" "z" "species"\nspacings: 1 1 1 nan\nendian: little\nencoding: raw\n` +
+        `species:=${JSON.stringify(volume.names)}\n\n`;
+    return concatBytes([header, writeFloats(volume.field, true)]);
+}
+
+// Reads attached raw data with 3 axes, or 4 with the volumes along the last
+export function readNrrd(buffer: ArrayBuffer): VolumeData {
+    const bytes = new Uint8Array(buffer);
+    // the header ends at an empty line, with \n or \r\n line endings
+    const headerEnd = bytes.findIndex((byte, i) => byte == 10 && (bytes[i + 1] == 10 || (bytes[i + 1] == 13 && bytes[i + 2] == 10)));
+    const dataStart = headerEnd + (bytes[headerEnd + 1] == 13 ? 3 : 2);
+    const lines = new TextDecoder('latin1').decode(bytes.subarray(0, headerEnd < 0 ? bytes.length : headerEnd))
+        .split('\n').map((line) => line.replace(/\r$/, ''));
+    if (!lines[0].startsWith('NRRD')) {
+        throw new Error('not a NRRD file');
+    }
+    if (headerEnd < 0) {
+        throw new Error('no end of header');
+    }
+
+    const fields: Record<string, string> = {};
+    const keys: Record<string, string> = {};
+    for (const line of lines.slice(1)) {
+        if (line.startsWith('#')) {
+            continue;
+        }
+        const key = line.match(/^([^:]+):=(.*)$/);
+        const field = line.match(/^([^:]+):\s*(.*)$/);
+        if (key) {
+            keys[key[1]] = key[2];
+        } else if (field) {
+            fields[field[1].toLowerCase()] = field[2].trim();
+        }
+    }
+
+    if (fields['data file'] || fields['datafile']) {
+        throw new Error('detached data files can\'t be read, save with the data attached');
+    }
+    if ((fields.encoding ?? 'raw') != 'raw') {
+        throw new Error(`only raw encoding can be read, not ${fields.encoding}`);
+    }
+    const type = nrrdTypes[fields.type ?? ''];
+    if (!type) {
+        throw new Error(`unsupported type ${fields.type}`);
+    }
+    const sizes = (fields.sizes ?? '').split(/\s+/).map(Number);
+    if (sizes.length < 3 || sizes.length > 4) {
+        throw new Error(`expected 3 or 4 axes, not ${sizes.length}`);
+    }
+
+    const dimensions = { x: sizes[0], y: sizes[1], z: sizes[2] };
+    checkDimensions(dimensions);
+    const numVolumes = sizes[3] ?? 1;
+    let names = Array.from({ length: numVolumes }, (_, i) => `volume${i}`);
+    try {
+        const saved = JSON.parse(keys.species ?? 'null');
+        if (Array.isArray(saved) && saved.length == numVolumes) {
+            names = saved.map(String);
+        }
+    } catch {
+        // names are only a nicety
+    }
+
+    const values = readValues(bytes, dataStart, numVoxels(dimensions) * numVolumes, type, fields.endian != 'big');
+    const n = numVoxels(dimensions);
+    return assemble(dimensions, names, names.map((_, i) => values.subarray(i * n, (i + 1) * n)));
+}
+
+// Raw little endian floats with a JSON header next to them, for numpy:
+//   np.fromfile('field.raw', header['dtype']).reshape(header['shape'])
+// gives an array indexed [species, z, y, x]
+export interface RawHeader {
+    dtype: string;
+    shape: number[]; // [volumes, z, y, x] or [z, y, x]
+    order: 'C';
+    names?: string[];
+}
+
+export function writeRaw(volume: VolumeData): { data: ArrayBuffer, header: string } {
+    const { x, y, z } = volume.dimensions;
+    const header: RawHeader = { dtype: '<f4', shape: [volume.names.length, z, y, x], order: 'C', names: volume.names };
+    return { data: concatBytes([writeFloats(volume.field, true)]), header: JSON.stringify(header, null, 2) };
+}
+
+export function readRaw(data: ArrayBuffer, headerJson: string): VolumeData {
+    const header: RawHeader = JSON.parse(headerJson);
+    const type = numpyTypes[header.dtype];
+    if (!type) {
+        throw new Error(`unsupported dtype ${header.dtype}`);
+    }
+    if ((header.order ?? 'C') != 'C') {
+        throw new Error('only C order arrays can be read');
+    }
+    if (!Array.isArray(header.shape) || header.shape.length < 3 || header.shape.length > 4) {
+        throw new Error('shape must be [z, y, x] or [volumes, z, y, x]');
+    }
+    const [numVolumes, z, y, x] = header.shape.length == 4 ? header.shape : [1, ...header.shape];
+    const dimensions = { x, y, z };
+    checkDimensions(dimensions);
+    const names = header.names?.length == numVolumes ? header.names : Array.from({ length: numVolumes }, (_, i) => `volume${i}`);
+
+    const values = readValues(new Uint8Array(data), 0, numVoxels(dimensions) * numVolumes, type, true);
+    const n = numVoxels(dimensions);
+    return assemble(dimensions, names, names.map((_, i) => values.subarray(i * n, (i + 1) * n)));
+}
+
+// Reads a field picked by the user, by extension. Raw data needs its JSON header picked with it.
+export async function readVolumeFiles(files: File[]): Promise<VolumeData> {
+    const byExtension = (extension: string) => files.find((file) => file.name.toLowerCase().endsWith(extension));
+    const raw = byExtension('.raw');
+    if (raw) {
+        const header = byExtension('.json');
+        if (!header) {
+            throw new Error(`${raw.name} needs its .json header, pick both files`);
+        }
+        return readRaw(await raw.arrayBuffer(), await header.text());
+    }
+    const readers: [string, (buffer: ArrayBuffer) => VolumeData][] = [['.vtk', readVtk], ['.vti', readVti], ['.nrrd', readNrrd]];
+    for (const [extension, read] of readers) {
+        const file = byExtension(extension);
+        if (file) {
+            return read(await file.arrayBuffer());
+        }
+    }
+    throw new Error('expected a .vtk, .vti, .nrrd, or .raw with its .json header');
+}
+
+// The imported volumes as a simulation field, in order, missing species empty and extra volumes left out
+export function volumeToField(volume: VolumeData, numSpecies: number): Float32Array<ArrayBuffer> {
+    const n = numVoxels(volume.dimensions);
+    const field = new Float32Array(n * numSpecies);
+    field.set(volume.field.subarray(0, Math.min(volume.names.length, numSpecies) * n));
+    return field;
+}
+
+function csvField(value: string | number) {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per cell: voxel position, rule, then production and uptake per species
+export function cellsToCsv(cells: Cell[], speciesNames: string[]) {
+    const header = ['x', 'y', 'z', 'rule', ...speciesNames.map((name) => `production ${name}`), ...speciesNames.map((name) => `uptake ${name}`)];
+    const rows = cells.map(saveCell).map((cell) => [
+        cell.position.x, cell.position.y, cell.position.z, cell.rule ?? '',
+        ...speciesNames.map((_, s) => cell.productionRates[s] ?? 0),
+        ...speciesNames.map((_, s) => cell.uptakeRates[s] ?? 0),
+    ]);
+    return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// Legacy VTK poly data, a vertex per cell with the rates as point data. The rule is the index into cellRules.
+export function cellsToVtk(cells: Cell[], speciesNames: string[]) {
+    const ruleNames = Object.keys(cellRules);
+    const saved = cells.map(saveCell);
+    const lines = [
+        '# vtk DataFile Version 3.0', 'cell-dev cells', 'ASCII', 'DATASET POLYDATA',
+        `POINTS ${cells.length} float`,
+        ...saved.map(({ position }) => `${position.x} ${position.y} ${position.z}`),
+        `VERTICES ${cells.length} ${cells.length * 2}`,
+        ...saved.map((_, i) => `1 ${i}`),
+    ];
+    if (cells.length > 0) {
+        const scalars = (name: string, type: string, values: number[]) => [`SCALARS ${vtkName(name)} ${type} 1`, 'LOOKUP_TABLE default', ...values.map(String)];
+        lines.push(
+            `POINT_DATA ${cells.length}`,
+            ...speciesNames.flatMap((name, s) => scalars(`production_${name}`, 'float', saved.map((cell) => cell.productionRates[s] ?? 0))),
+            ...speciesNames.flatMap((name, s) => scalars(`uptake_${name}`, 'float', saved.map((cell) => cell.uptakeRates[s] ?? 0))),
+            ...scalars('rule', 'int', saved.map((cell) => Math.max(0, ruleNames.indexOf(cell.rule ?? 'None')))),
+        );
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,318 @@
+import * as THREE from 'three';
+
+type Position = { x: number, y: number, z: number };
+
+export interface VolumeView {
+    species: number;
+    clim: { min: number, max: number };
+    renderStyle: number; // 0 maximum intensity projection, 1 isosurface, as in VolumeRenderShader1
+    threshold: number; // isosurface value
+}
+
+// Raymarches the field straight out of the simulation's concentration buffer into its own WebGPU
+// canvas, so nothing has to be read back to draw a frame. The canvas sits behind the WebGL one,
+// which keeps drawing the cells, outline and axes on a transparent background.
+export class GpuVolumeRenderer {
+    public canvas: HTMLCanvasElement;
+
+    private context: GPUCanvasContext;
+    private device: GPUDevice | null = null;
+    private format: GPUTextureFormat;
+    private pipeline: GPURenderPipeline | null = null;
+    private viewBuffer: GPUBuffer | null = null;
+    private colormap: GPUTexture | null = null;
+    private sampler: GPUSampler | null = null;
+    private bindGroup: GPUBindGroup | null = null;
+    private colormapImage: ImageBitmap | null = null;
+
+    private field: GPUBuffer | null = null;
+    private dimensions: Position = { x: 1, y: 1, z: 1 };
+    private inverseViewProjection = new THREE.Matrix4();
+    private background = { r: 0, g: 0, b: 0 };
+
+    constructor(colormapUrl: string, background: THREE.Color) {
+        // the WebGL renderer writes the background as sRGB, this canvas takes the values as they are
+        background.getRGB(this.background, THREE.SRGBColorSpace);
+        this.canvas = document.createElement('canvas');
+        Object.assign(this.canvas.style, { position: 'fixed', left: '0', top: '0', zIndex: '-1', display: 'none' });
+        this.context = this.canvas.getContext('webgpu')!;
+        this.format = navigator.gpu.getPreferredCanvasFormat();
+        this.loadColormap(colormapUrl);
+    }
+
+    private async loadColormap(url: string) {
+        const response = await fetch(url);
+        this.colormapImage = await createImageBitmap(await response.blob());
+        if (this.device) {
+            this.writeColormap();
+        }
+    }
+
+    private writeColormap() {
+        const device = this.device!;
+        const image = this.colormapImage;
+        this.colormap?.destroy();
+        this.colormap = device.createTexture({
+            label: "Volume colormap",
+            size: [image?.width ?? 1, 1],
+            format: 'rgba8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+        });
+        if (image) {
+            device.queue.copyExternalImageToTexture({ source: image }, { texture: this.colormap }, [image.width, 1]);
+        } else {
+            // grey until the image has loaded
+            device.queue.writeTexture({ texture: this.colormap }, new Uint8Array([128, 128, 128, 128]), {}, [1, 1]);
+        }
+        this.bindGroup = null;
+    }
+
+    // Draws from the given buffer, species one volume after another as in DiffusionSim.
+    // A new device, after the simulation was recreated, rebuilds everything that belongs to it.
+    setSource(device: GPUDevice, field: GPUBuffer, dimensions: Position) {
+        if (device !== this.device) {
+            this.device = device;
+            this.context.configure({ device, format: this.format, alphaMode: 'opaque' });
+            const module = device.createShaderModule({ code: volumeShader });
+            this.pipeline = device.createRenderPipeline({
+                label: "Volume raymarch pipeline",
+                layout: 'auto',
+                vertex: { module, entryPoint: 'vertex_main' },
+                fragment: { module, entryPoint: 'fragment_main', targets: [{ format: this.format }] },
+                primitive: { topology: 'triangle-list' },
+            });
+            this.viewBuffer = device.createBuffer({
+                label: "Volume view uniforms",
+                size: 112,
+                usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+            });
+            this.sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
+            this.writeColormap();
+        }
+        this.field = field;
+        this.dimensions = { ...dimensions };
+        this.bindGroup = null;
+    }
+
+    // Stops drawing until the next setSource, e.g. while the buffer is being replaced
+    clearSource() {
+        this.field = null;
+        this.bindGroup = null;
+    }
+
+    setVisible(visible: boolean) {
+        this.canvas.style.display = visible ? 'block' : 'none';
+    }
+
+    render(camera: THREE.Camera, view: VolumeView) {
+        if (!this.device || !this.pipeline || !this.field || !this.viewBuffer) {
+            return;
+        }
+        const width = Math.floor(window.innerWidth * window.devicePixelRatio);
+        const height = Math.floor(window.innerHeight * window.devicePixelRatio);
+        if (this.canvas.width != width || this.canvas.height != height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+            this.canvas.style.width = `${window.innerWidth}px`;
+            this.canvas.style.height = `${window.innerHeight}px`;
+        }
+
+        if (!this.bindGroup) {
+            this.bindGroup = this.device.createBindGroup({
+                label: "Volume raymarch bind group",
+                layout: this.pipeline.getBindGroupLayout(0),
+                entries: [
+                    { binding: 0, resource: { buffer: this.viewBuffer } },
+                    { binding: 1, resource: { buffer: this.field } },
+                    { binding: 2, resource: this.colormap!.createView() },
+                    { binding: 3, resource: this.sampler! },
+                ],
+            });
+        }
+
+        // matches the View struct in volumeShader
+        this.inverseViewProjection.multiplyMatrices(camera.matrixWorld, camera.projectionMatrixInverse);
+        const data = new ArrayBuffer(112);
+        const floats = new Float32Array(data);
+        const uints = new Uint32Array(data);
+        floats.set(this.inverseViewProjection.elements, 0);
+        floats.set([this.dimensions.x, this.dimensions.y, this.dimensions.z], 16);
+        uints[19] = view.renderStyle;
+        floats.set([view.clim.min, view.clim.max, view.threshold], 20);
+        uints[23] = view.species * this.dimensions.x * this.dimensions.y * this.dimensions.z;
+        floats.set([this.background.r, this.background.g, this.background.b, 1], 24);
+        this.device.queue.writeBuffer(this.viewBuffer, 0, data);
+
+        const encoder = this.device.createCommandEncoder();
+        const pass = encoder.beginRenderPass({
+            colorAttachments: [{
+                view: this.context.getCurrentTexture().createView(),
+                clearValue: { r: this.background.r, g: this.background.g, b: this.background.b, a: 1 },
+                loadOp: 'clear',
+                storeOp: 'store',
+            }],
+        });
+        pass.setPipeline(this.pipeline);
+        pass.setBindGroup(0, this.bindGroup);
+        pass.draw(3);
+        pass.end();
+        this.device.queue.submit([encoder.finish()]);
+    }
+
+    cleanup() {
+        this.colormap?.destroy();
+        this.viewBuffer?.destroy();
+        this.context.unconfigure();
+        this.device = null;
+    }
+}
+
+// Follows VolumeRenderShader1: rays through the box from 0 to size, one sample per voxel length,
+// refined in quarter steps, voxel centres at integer plus a half like the cells
+const volumeShader = /* wgsl */`
+struct View {
+    inverse_view_projection: mat4x4<f32>,
+    size: vec3<f32>,
+    render_style: u32,
+    clim: vec2<f32>,
+    threshold: f32,
+    species_offset: u32,
+    background: vec4<f32>,
+}
+
+@group(0) @binding(0) var<uniform> view: View;
+@group(0) @binding(1) var<storage, read> concentration: array<f32>;
+@group(0) @binding(2) var colormap: texture_2d<f32>;
+@group(0) @binding(3) var colormap_sampler: sampler;
+
+const REFINEMENT_STEPS = 4;
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) ndc: vec2<f32>,
+}
+
+// one triangle covering the screen
+@vertex
+fn vertex_main(@builtin(vertex_index) index: u32) -> VertexOutput {
+    let corner = vec2<f32>(f32((index << 1u) & 2u), f32(index & 2u)) * 2.0 - 1.0;
+    var output: VertexOutput;
+    output.position = vec4<f32>(corner, 0.0, 1.0);
+    output.ndc = corner;
+    return output;
+}
+
+fn voxel(p: vec3<i32>) -> f32 {
+    let size = vec3<i32>(view.size);
+    let q = clamp(p, vec3<i32>(0), size - 1);
+    return concentration[view.species_offset + u32(q.x + q.y * size.x + q.z * size.x * size.y)];
+}
+
+// trilinear, clamped at the edges like the WebGL texture
+fn sample_field(position: vec3<f32>) -> f32 {
+    let p = clamp(position - 0.5, vec3<f32>(0.0), view.size - 1.0);
+    let base = vec3<i32>(floor(p));
+    let t = p - floor(p);
+    let c00 = mix(voxel(base), voxel(base + vec3<i32>(1, 0, 0)), t.x);
+    let c10 = mix(voxel(base + vec3<i32>(0, 1, 0)), voxel(base + vec3<i32>(1, 1, 0)), t.x);
+    let c01 = mix(voxel(base + vec3<i32>(0, 0, 1)), voxel(base + vec3<i32>(1, 0, 1)), t.x);
+    let c11 = mix(voxel(base + vec3<i32>(0, 1, 1)), voxel(base + vec3<i32>(1, 1, 1)), t.x);
+    return mix(mix(c00, c10, t.y), mix(c01, c11, t.y), t.z);
+}
+
+fn apply_colormap(value: f32) -> vec4<f32> {
+    let t = clamp((value - view.clim.x) / (view.clim.y - view.clim.x), 0.0, 1.0);
+    return textureSampleLevel(colormap, colormap_sampler, vec2<f32>(t, 0.5), 0.0);
+}
+
+fn unproject(ndc: vec2<f32>, depth: f32) -> vec3<f32> {
+    let p = view.inverse_view_projection * vec4<f32>(ndc, depth, 1.0);
+    return p.xyz / p.w;
+}
+
+fn cast_mip(start: vec3<f32>, ray_step: vec3<f32>, num_steps: i32) -> vec4<f32> {
+    var max_value = -1e6;
+    var max_i = 0;
+    for (var i = 0; i < num_steps; i++) {
+        let value = sample_field(start + ray_step * f32(i));
+        if (value > max_value) {
+            max_value = value;
+            max_i = i;
+        }
+    }
+    // refine around the maximum
+    var position = start + ray_ray_step * (f32(max_i) - 0.5);
+    for (var i = 0; i < REFINEMENT_STEPS; i++) {
+        max_value = max(max_value, sample_field(position));
+        position += ray_step / f32(REFINEMENT_STEPS);
+    }
+    return apply_colormap(max_value);
+}
+
+// diffuse only, the ambient and specular terms of VolumeRenderShader1 come out as zero
+fn add_lighting(value: f32, position: vec3<f32>, view_ray: vec3<f32>) -> vec4<f32> {
+    let d = 1.5;
+    var normal = vec3<f32>(
+        sample_field(position - vec3<f32>(d, 0.0, 0.0)) - sample_field(position + vec3<f32>(d, 0.0, 0.0)),
+        sample_field(position - vec3<f32>(0.0, d, 0.0)) - sample_field(position + vec3<f32>(0.0, d, 0.0)),
+        sample_field(position - vec3<f32>(0.0, 0.0, d)) - sample_field(position + vec3<f32>(0.0, 0.0, d)));
+    normal = normalize(normal + vec3<f32>(1e-12));
+    // towards the viewer
+    if (dot(normal, view_ray) < 0.0) {
+        normal = -normal;
+    }
+    let lambert = clamp(dot(normal, view_ray), 0.0, 1.0);
+    let colour = apply_colormap(value);
+    return vec4<f32>(colour.rgb * lambert, colour.a);
+}
+
+fn cast_iso(start: vec3<f32>, ray_step: vec3<f32>, num_steps: i32, view_ray: vec3<f32>) -> vec4<f32> {
+    let low_threshold = view.threshold - 0.02 * (view.clim.y - view.clim.x);
+    for (var i = 0; i < num_steps; i++) {
+        let position = start + ray_step * f32(i);
+        if (sample_field(position) > low_threshold) {
+            // the last interval in smaller steps
+            var refined = position - 0.5 * ray_step;
+            for (var j = 0; j < REFINEMENT_STEPS; j++) {
+                let value = sample_field(refined);
+                if (value > view.threshold) {
+                    return add_lighting(value, refined, view_ray);
+                }
+                refined += ray_step / f32(REFINEMENT_STEPS);
+            }
+        }
+    }
+    return vec4<f32>(0.0);
+}
+
+@fragment
+fn fragment_main(input: VertexOutput) -> @location(0) vec4<f32> {
+    let near = unproject(input.ndc, -1.0);
+    let far = unproject(input.ndc, 1.0);
+    let direction = normalize(far - near);
+
+    // where the ray enters and leaves the box
+    let inverse_direction = 1.0 / direction;
+    let t0 = (vec3<f32>(0.0) - near) * inverse_direction;
+    let t1 = (view.size - near) * inverse_direction;
+    let t_enter = max(max(min(t0.x, t1.x), min(t0.y, t1.y)), max(min(t0.z, t1.z), 0.0));
+    let t_exit = min(min(max(t0.x, t1.x), max(t0.y, t1.y)), max(t0.z, t1.z));
+    let num_steps = i32(t_exit - t_enter + 0.5);
+    if (num_steps < 1) {
+        return view.background;
+    }
+
+    let start = near + direction * t_enter;
+    let ray_step = direction * (t_exit - t_enter) / f32(num_steps);
+    var colour: vec4<f32>;
+    if (view.render_style == 0u) {
+        colour = cast_mip(start, ray_step, num_steps);
+    } else {
+        colour = cast_iso(start, ray_step, num_steps, -direction);
+    }
+    if (colour.a < 0.05) {
+        return view.background;
+    }
+    return vec4<f32>(mix(view.background.rgb, colour.rgb, colour.a), 1.0);
+}
+`;
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { Cell, checkIntersection } from "../src/cells";
+
+describe('checkIntersection', () => {
+    const cells = [new Cell({ x: 1, y: 2, z: 3 }, [1]), new Cell({ x: 0, y: 0, z: 0 }, [1])];
+
+    it('finds a cell on the same voxel', () => {
+        expect(checkIntersection(cells, { x: 1, y: 2, z: 3 })).toBe(true);
+        expect(checkIntersection(cells, { x: 0, y: 0, z: 0 })).toBe(true);
+    });
+
+    it('ignores neighbouring voxels', () => {
+        expect(checkIntersection(cells, { x: 1, y: 2, z: 4 })).toBe(false);
+        expect(checkIntersection(cells, { x: 2, y: 1, z: 3 })).toBe(false);
+        expect(checkIntersection([], { x: 0, y: 0, z: 0 })).toBe(false);
+    });
+});
@@ -0,0 +1,413 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../src/cells";
+import { CpuDiffusionSim } from "../src/cpuDiffusionSim";
+import { CellLattice } from "../src/lattice";
+import { flowToVolume, presetFlow, stillFlow, volumeToFlow } from "../src/flow";
+import { faceDiffusivity, paintDisc, uniformMedium } from "../src/medium";
+import { Random } from "../src/random";
+import { noExpressions } from "../src/expressions";
+import { defaultReaction, reactionInitialField, reactionModels } from "../src/reactions";
+import type { Boundaries, BoundaryType, Integration } from "../src/simulation";
+
+// The CPU backend mirrors the WGSL kernels line by line, so these run the same update rule without a GPU
+
+const explicit: Integration = { method: 'explicit', autoSubstep: false, iterations: 20 };
+const implicit: Integration = { method: 'implicit', autoSubstep: false, iterations: 40 };
+
+function allBoundaries(type: BoundaryType, value = 0): Boundaries {
+    return { x: { type, value }, y: { type, value }, z: { type, value } };
+}
+
+function index(dimensions: { x: number, y: number }, x: number, y: number, z: number) {
+    return x + y * dimensions.x + z * dimensions.x * dimensions.y;
+}
+
+function pointSource(size: number, amount: number) {
+    const dimensions = { x: size, y: size, z: size };
+    const field = new Float32Array(size ** 3);
+    const centre = Math.floor(size / 2);
+    field[index(dimensions, centre, centre, centre)] = amount;
+    return { dimensions, field, centre };
+}
+
+async function run(sim: CpuDiffusionSim, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        await sim.process();
+    }
+    return (await sim.readResults())!;
+}
+
+function sum(field: Float32Array) {
+    return field.reduce((total, value) => total + value, 0);
+}
+
+describe('mass conservation', () => {
+    for (const type of ['neumann', 'periodic'] as const) {
+        for (const integration of [explicit, implicit]) {
+            it(`keeps the total with ${type} walls, ${integration.method}`, async () => {
+                const { dimensions, field } = pointSource(9, 100);
+                // off centre so the mass reaches the walls
+                field[index(dimensions, 1, 2, 7)] = 50;
+                const species = [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.0 }];
+                const sim = new CpuDiffusionSim(dimensions, field, species, 0.1, [], allBoundaries(type), integration);
+
+                const result = await run(sim, 100);
+                expect(sum(result)).toBeCloseTo(150, 2);
+            });
+        }
+    }
+
+    it('loses mass through fixed value walls at zero', async () => {
+        const { dimensions, field } = pointSource(5, 100);
+        const species = [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.0 }];
+        const sim = new CpuDiffusionSim(dimensions, field, species, 0.1, [], allBoundaries('dirichlet'), explicit);
+
+        expect(sum(await run(sim, 50))).toBeLessThan(100);
+    });
+
+    it('decays at the decay rate', async () => {
+        const { dimensions, field } = pointSource(7, 100);
+        const species = [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.5 }];
+        const sim = new CpuDiffusionSim(dimensions, field, species, 0.1, [], allBoundaries('neumann'), explicit);
+
+        expect(sum(await run(sim, 10))).toBeCloseTo(100 * (1 - 0.05) ** 10, 2);
+    });
+});
+
+describe('point source', () => {
+    it('spreads symmetrically', async () => {
+        const { dimensions, field, centre } = pointSource(11, 1000);
+        const species = [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.0 }];
+        const sim = new CpuDiffusionSim(dimensions, field, species, 0.1, [], allBoundaries('dirichlet'), explicit);
+        const result = await run(sim, 30);
+
+        for (let z = 0; z < 11; z++) {
+            for (let y = 0; y < 11; y++) {
+                for (let x = 0; x < 11; x++) {
+                    const value = result[index(dimensions, x, y, z)];
+                    // mirrored along each axis and with the axes swapped
+                    expect(result[index(dimensions, 2 * centre - x, y, z)]).toBeCloseTo(value, 4);
+                    expect(result[index(dimensions, x, 2 * centre - y, z)]).toBeCloseTo(value, 4);
+                    expect(result[index(dimensions, x, y, 2 * centre - z)]).toBeCloseTo(value, 4);
+                    expect(result[index(dimensions, y, x, z)]).toBeCloseTo(value, 4);
+                    expect(result[index(dimensions, z, y, x)]).toBeCloseTo(value, 4);
+                }
+            }
+        }
+    });
+
+    it('matches the analytic gaussian', async () => {
+        const amount = 1000;
+        const diffusionConstant = 1.0;
+        const deltaTime = 0.1;
+        const steps = 50;
+        const { dimensions, field, centre } = pointSource(31, amount);
+        const species = [{ name: 'A', diffusionConstant, decayRate: 0.0 }];
+        const sim = new CpuDiffusionSim(dimensions, field, species, deltaTime, [], allBoundaries('neumann'), explicit);
+        const result = await run(sim, steps);
+
+        // c(r, t) = M / (4 pi D t)^(3/2) exp(-r^2 / 4 D t)
+        const t = steps * deltaTime;
+        const analytic = (r2: number) => amount / (4 * Math.PI * diffusionConstant * t) ** 1.5 * Math.exp(-r2 / (4 * diffusionConstant * t));
+        const peak = analytic(0);
+
+        let variance = 0;
+        for (let z = 0; z < 31; z++) {
+            for (let y = 0; y < 31; y++) {
+                for (let x = 0; x < 31; x++) {
+                    const r2 = (x - centre) ** 2 + (y - centre) ** 2 + (z - centre) ** 2;
+                    const value = result[index(dimensions, x, y, z)];
+                    variance += value * r2 / amount;
+                    expect(Math.abs(value - analytic(r2))).toBeLessThan(0.03 * peak);
+                }
+            }
+        }
+        // every step adds exactly 2 D dt per axis
+        expect(variance).toBeCloseTo(6 * diffusionConstant * t, 2);
+    });
+});
+
+describe('cell secretion', () => {
+    const species = [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.0 }];
+    const dimensions = { x: 5, y: 5, z: 5 };
+
+    async function secreteOnce(cells: Cell[], boundaries: Boundaries) {
+        const sim = new CpuDiffusionSim(dimensions, new Float32Array(125), species, 0.5, cells, boundaries, explicit);
+        return run(sim, 1);
+    }
+
+    it('splits production among the six neighbours', async () => {
+        const result = await secreteOnce([new Cell({ x: 2, y: 2, z: 2 }, [60])], allBoundaries('neumann'));
+
+        for (const [x, y, z] of [[1, 2, 2], [3, 2, 2], [2, 1, 2], [2, 3, 2], [2, 2, 1], [2, 2, 3]]) {
+            expect(result[index(dimensions, x, y, z)]).toBeCloseTo(60 * 0.5 / 6, 5);
+        }
+        expect(sum(result)).toBeCloseTo(30, 4);
+    });
+
+    it('skips neighbours holding a cell', async () => {
+        const producer = new Cell({ x: 2, y: 2, z: 2 }, [60]);
+        const neighbour = new Cell({ x: 3, y: 2, z: 2 }, [0]);
+        const result = await secreteOnce([producer, neighbour], allBoundaries('neumann'));
+
+        expect(result[index(dimensions, 3, 2, 2)]).toBe(0);
+        for (const [x, y, z] of [[1, 2, 2], [2, 1, 2], [2, 3, 2], [2, 2, 1], [2, 2, 3]]) {
+            expect(result[index(dimensions, x, y, z)]).toBeCloseTo(60 * 0.5 / 5, 5);
+        }
+        expect(sum(result)).toBeCloseTo(30, 4);
+    });
+
+    it('counts fixed value walls as open and zero flux walls as closed', async () => {
+        const corner = () => [new Cell({ x: 0, y: 0, z: 0 }, [60])];
+
+        // three in bounds neighbours, plus three walls when they are fixed value
+        const fixed = await secreteOnce(corner(), allBoundaries('dirichlet'));
+        expect(fixed[index(dimensions, 1, 0, 0)]).toBeCloseTo(60 * 0.5 / 6, 5);
+
+        const zeroFlux = await secreteOnce(corner(), allBoundaries('neumann'));
+        expect(zeroFlux[index(dimensions, 1, 0, 0)]).toBeCloseTo(60 * 0.5 / 3, 5);
+    });
+
+    it('secretes across periodic boundaries', async () => {
+        const result = await secreteOnce([new Cell({ x: 0, y: 2, z: 2 }, [60])], allBoundaries('periodic'));
+
+        expect(result[index(dimensions, 4, 2, 2)]).toBeCloseTo(60 * 0.5 / 6, 5);
+    });
+});
+
+describe('medium', () => {
+    const species = [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.0 }];
+
+    it('takes the harmonic mean at faces', () => {
+        expect(faceDiffusivity(1, 1)).toBe(1);
+        expect(faceDiffusivity(1, 3)).toBeCloseTo(1.5);
+        expect(faceDiffusivity(1, 0)).toBe(0);
+        expect(faceDiffusivity(0, 0)).toBe(0);
+    });
+
+    for (const integration of [explicit, implicit]) {
+        it(`keeps the total with patchy diffusivity, ${integration.method}`, async () => {
+            const { dimensions, field } = pointSource(9, 100);
+            const medium = uniformMedium(dimensions);
+            medium.diffusivity.forEach((_, i) => medium.diffusivity[i] = 0.2 + (i * 7919 % 13) / 10);
+            const sim = new CpuDiffusionSim(dimensions, field, species, 0.05, [], allBoundaries('neumann'), integration);
+            sim.setMedium(medium);
+
+            expect(sum(await run(sim, 100))).toBeCloseTo(100, 2);
+        });
+    }
+
+    it('slows diffusion where the diffusivity is low', async () => {
+        const spread = async (diffusivity: number) => {
+            const { dimensions, field, centre } = pointSource(9, 100);
+            const medium = uniformMedium(dimensions);
+            medium.diffusivity.fill(diffusivity);
+            const sim = new CpuDiffusionSim(dimensions, field, species, 0.05, [], allBoundaries('neumann'), explicit);
+            sim.setMedium(medium);
+            return (await run(sim, 10))[index(dimensions, centre, centre, centre)];
+        };
+        expect(await spread(0.1)).toBeGreaterThan(await spread(1));
+    });
+
+    for (const integration of [explicit, implicit]) {
+        it(`keeps everything behind an obstacle wall, ${integration.method}`, async () => {
+            const dimensions = { x: 9, y: 5, z: 5 };
+            const field = new Float32Array(9 * 5 * 5);
+            field[index(dimensions, 1, 2, 2)] = 100;
+            const medium = uniformMedium(dimensions);
+            paintDisc(medium, 'yz', { x: 4, y: 2, z: 2 }, 10, 'obstacle', 1);
+            const sim = new CpuDiffusionSim(dimensions, field, species, 0.1, [], allBoundaries('neumann'), integration);
+            sim.setMedium(medium);
+            const result = await run(sim, 100);
+
+            let beyond = 0;
+            for (let z = 0; z < 5; z++) {
+                for (let y = 0; y < 5; y++) {
+                    for (let x = 4; x < 9; x++) {
+                        beyond += result[index(dimensions, x, y, z)];
+                    }
+                }
+            }
+            expect(beyond).toBe(0);
+            expect(sum(result)).toBeCloseTo(100, 2);
+        });
+    }
+
+    it('does not secrete into obstacles or let cells in', async () => {
+        const dimensions = { x: 5, y: 5, z: 5 };
+        const medium = uniformMedium(dimensions);
+        medium.obstacles[index(dimensions, 3, 2, 2)] = 1;
+        const sim = new CpuDiffusionSim(dimensions, new Float32Array(125), species, 0.5, [new Cell({ x: 2, y: 2, z: 2 }, [60])], allBoundaries('neumann'), explicit);
+        sim.setMedium(medium);
+        const result = await run(sim, 1);
+
+        expect(result[index(dimensions, 3, 2, 2)]).toBe(0);
+        expect(result[index(dimensions, 1, 2, 2)]).toBeCloseTo(60 * 0.5 / 5, 5);
+        expect(new CellLattice(dimensions, [], medium.obstacles).isFree({ x: 3, y: 2, z: 2 })).toBe(false);
+    });
+});
+
+describe('advection', () => {
+    const still = [{ name: 'A', diffusionConstant: 0.0, decayRate: 0.0 }];
+
+    function centroidX(field: Float32Array, dimensions: { x: number, y: number, z: number }) {
+        let total = 0;
+        let moment = 0;
+        field.forEach((value, i) => {
+            total += value;
+            moment += value * (i % dimensions.x);
+        });
+        return moment / total;
+    }
+
+    for (const integration of [explicit, implicit]) {
+        it(`carries the field along a uniform flow, ${integration.method}`, async () => {
+            const dimensions = { x: 31, y: 3, z: 3 };
+            const field = new Float32Array(31 * 9);
+            field[index(dimensions, 5, 1, 1)] = 100;
+            const sim = new CpuDiffusionSim(dimensions, field, still, 0.1, [], allBoundaries('neumann'), integration);
+            sim.setFlow(presetFlow({ preset: 'uniform', speed: 1, axis: 'x' }, dimensions));
+            const result = await run(sim, 50);
+
+            expect(sum(result)).toBeCloseTo(100, 2);
+            expect(centroidX(result, dimensions)).toBeCloseTo(10, 1);
+        });
+    }
+
+    it('keeps the total in a vortex', async () => {
+        const { dimensions, field } = pointSource(9, 100);
+        field[index(dimensions, 2, 6, 4)] = 50;
+        const species = [{ name: 'A', diffusionConstant: 0.1, decayRate: 0.0 }];
+        const sim = new CpuDiffusionSim(dimensions, field, species, 0.1, [], allBoundaries('neumann'), { ...explicit, autoSubstep: true });
+        sim.setFlow(presetFlow({ preset: 'vortex', speed: 2, axis: 'z' }, dimensions));
+        const result = await run(sim, 100);
+
+        expect(sum(result)).toBeCloseTo(150, 2);
+        expect(Math.min(...result)).toBeGreaterThanOrEqual(0);
+    });
+
+    it('brings the boundary value in through fixed value walls', async () => {
+        const dimensions = { x: 8, y: 1, z: 1 };
+        const sim = new CpuDiffusionSim(dimensions, new Float32Array(8), still, 0.5, [], allBoundaries('dirichlet', 2), explicit);
+        sim.setFlow(presetFlow({ preset: 'uniform', speed: 1, axis: 'x' }, dimensions));
+        const result = await run(sim, 200);
+
+        result.forEach((value) => expect(value).toBeCloseTo(2, 3));
+    });
+
+    it('generates divergence free presets', () => {
+        const dimensions = { x: 4, y: 6, z: 8 };
+        const shear = presetFlow({ preset: 'shear', speed: 1, axis: 'x' }, dimensions);
+        // along x, varying across y only
+        expect(shear.velocity[index(dimensions, 0, 0, 0) * 3]).toBeCloseTo(-5 / 6);
+        expect(shear.velocity[index(dimensions, 3, 5, 7) * 3]).toBeCloseTo(5 / 6);
+        expect(shear.velocity[index(dimensions, 1, 2, 3) * 3 + 1]).toBe(0);
+
+        const vortex = presetFlow({ preset: 'vortex', speed: 1, axis: 'z' }, dimensions);
+        for (let i = 0; i < 4 * 6 * 8; i++) {
+            const x = i % 4 + 0.5 - 2;
+            const y = Math.floor(i / 4) % 6 + 0.5 - 3;
+            // tangential, no radial or axial component
+            expect(vortex.velocity[i * 3] * x + vortex.velocity[i * 3 + 1] * y).toBeCloseTo(0);
+            expect(vortex.velocity[i * 3 + 2]).toBe(0);
+        }
+    });
+
+    it('round trips a flow through the volume layout', () => {
+        const dimensions = { x: 3, y: 2, z: 2 };
+        const flow = stillFlow(dimensions);
+        flow.velocity.forEach((_, i) => flow.velocity[i] = i);
+        const volume = flowToVolume(flow);
+
+        expect(volume.names).toEqual(['vx', 'vy', 'vz']);
+        expect(Array.from(volumeToFlow(volume).velocity)).toEqual(Array.from(flow.velocity));
+    });
+});
+
+describe('reactions', () => {
+    const dimensions = { x: 4, y: 4, z: 1 };
+    const numVoxels = 16;
+
+    function uniformField(values: number[]) {
+        const field = new Float32Array(numVoxels * values.length);
+        values.forEach((value, s) => field.fill(value, s * numVoxels, (s + 1) * numVoxels));
+        return field;
+    }
+
+    for (const name of ['Gray-Scott', 'Gierer-Meinhardt', 'Schnakenberg']) {
+        it(`steps ${name} by its rates on a uniform field`, async () => {
+            const model = reactionModels[name]!;
+            const reaction = defaultReaction(name);
+            const [u, v] = [0.7, 0.3];
+            const sim = new CpuDiffusionSim(dimensions, uniformField([u, v]), model.species, 0.5, [], allBoundaries('periodic'), explicit);
+            sim.setReaction(reaction);
+            const result = await run(sim, 1);
+
+            // nothing to diffuse, so every voxel takes the same reaction step
+            const [du, dv] = model.rates(u, v, reaction.coefficients);
+            result.subarray(0, numVoxels).forEach((value) => expect(value).toBeCloseTo(u + 0.5 * du, 5));
+            result.subarray(numVoxels).forEach((value) => expect(value).toBeCloseTo(v + 0.5 * dv, 5));
+        });
+    }
+
+    it('leaves a third species and a lone species alone', async () => {
+        const species = [...reactionModels['Schnakenberg']!.species, { name: 'C', diffusionConstant: 0.0, decayRate: 0.0 }];
+        const sim = new CpuDiffusionSim(dimensions, uniformField([1, 1, 2]), species, 1, [], allBoundaries('periodic'), explicit);
+        sim.setReaction(defaultReaction('Schnakenberg'));
+        (await run(sim, 3)).subarray(2 * numVoxels).forEach((value) => expect(value).toBe(2));
+
+        const lone = new CpuDiffusionSim(dimensions, uniformField([1]), species.slice(0, 1), 1, [], allBoundaries('periodic'), explicit);
+        lone.setReaction(defaultReaction('Schnakenberg'));
+        (await run(lone, 3)).forEach((value) => expect(value).toBe(1));
+    });
+
+    it('starts from the same noise for the same seed', () => {
+        const model = reactionModels['Gray-Scott']!;
+        const size = { x: 16, y: 16, z: 2 };
+        const first = reactionInitialField(model, size, 3, new Random(7));
+        expect(reactionInitialField(model, size, 3, new Random(7))).toEqual(first);
+        expect(reactionInitialField(model, size, 3, new Random(8))).not.toEqual(first);
+
+        // u near 1 with seeds of v, and the third species empty
+        const count = 16 * 16 * 2;
+        expect(Math.max(...first.subarray(0, count))).toBeLessThanOrEqual(1.02);
+        expect(Math.max(...first.subarray(count, 2 * count))).toBeGreaterThan(0.2);
+        expect(first.subarray(2 * count).every((value) => value == 0)).toBe(true);
+    });
+});
+
+describe('expressions', () => {
+    it('adds the reaction expression to the model', async () => {
+        const { dimensions, field } = pointSource(7, 100);
+        const decaying = [{ name: 'A', diffusionConstant: 0.1, decayRate: 0.2 }];
+        const expected = await run(new CpuDiffusionSim(dimensions, field, decaying, 0.5, [], allBoundaries('neumann'), explicit), 10);
+
+        const sim = new CpuDiffusionSim(dimensions, field, [{ ...decaying[0], decayRate: 0 }], 0.5, [], allBoundaries('neumann'), explicit);
+        expect(await sim.setExpressions({ parameters: [{ name: 'k', value: 0.2 }], reaction: ['-k * a'], secretion: [] })).toEqual([]);
+        const result = await run(sim, 10);
+        result.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 4));
+    });
+
+    it('sets cell production from the secretion expression', async () => {
+        const dimensions = { x: 5, y: 5, z: 5 };
+        const species = [{ name: 'A', diffusionConstant: 0.0, decayRate: 0.0 }];
+        const cell = new Cell({ x: 2, y: 2, z: 2 }, [3]);
+        const sim = new CpuDiffusionSim(dimensions, new Float32Array(125), species, 1, [cell], allBoundaries('neumann'), explicit);
+        await sim.setExpressions({ parameters: [{ name: 'gain', value: 2 }], reaction: [], secretion: ['gain * production + a'] });
+
+        // nothing around the cell to start with, then the first step's 1 per open voxel on top
+        expect(sum(await run(sim, 1))).toBeCloseTo(6, 5);
+        expect(sum(await run(sim, 1))).toBeCloseTo(6 + 7, 5);
+    });
+
+    it('keeps the previous expressions when the new ones have errors', async () => {
+        const dimensions = { x: 3, y: 3, z: 3 };
+        const species = [{ name: 'A', diffusionConstant: 0.0, decayRate: 0.0 }];
+        const sim = new CpuDiffusionSim(dimensions, new Float32Array(27), species, 1, [], allBoundaries('neumann'), explicit);
+        await sim.setExpressions({ ...noExpressions(), reaction: ['1.0'] });
+
+        const errors = await sim.setExpressions({ ...noExpressions(), reaction: ['1.0 +'] });
+        expect(errors.map((error) => error.label)).toEqual(['da/dt']);
+        (await run(sim, 2)).forEach((value) => expect(value).toBeCloseTo(2, 5));
+    });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { checkNames, compileScalar, expressionFunctions, expressionShader, fieldNames, locateMessage, noExpressions } from "../src/expressions";
+
+const species = [
+    { name: 'U (substrate)', diffusionConstant: 1.0, decayRate: 0.0 },
+    { name: 'Morphogen B', diffusionConstant: 1.0, decayRate: 0.0 },
+    { name: '2nd', diffusionConstant: 1.0, decayRate: 0.0 },
+];
+
+describe('fieldNames', () => {
+    it('turns the species names into identifiers', () => {
+        expect(fieldNames(species)).toEqual(['u', 'morphogen_b', 's2']);
+        expect(fieldNames([species[0], species[0]])).toEqual(['u', 'u_1']);
+    });
+});
+
+describe('checkNames', () => {
+    it('rejects parameters that are not identifiers or clash', () => {
+        const expressions = { ...noExpressions(), parameters: [{ name: 'k', value: 1 }, { name: 'u', value: 2 }, { name: '1x', value: 3 }] };
+        expect(checkNames(species, expressions).map((error) => error.message)).toEqual([
+            "parameter 'u' is already a species or parameter",
+            "parameter '1x' is not a valid name",
+        ]);
+    });
+
+    it('rejects species and parameters named like WGSL keywords, builtins or the cell rates', () => {
+        const clashing = [{ name: 'Let', diffusionConstant: 1.0, decayRate: 0.0 }, { name: 'Select', diffusionConstant: 1.0, decayRate: 0.0 },
+            { name: 'Production', diffusionConstant: 1.0, decayRate: 0.0 }];
+        const expressions = { ...noExpressions(), reaction: ['1.0'], parameters: [{ name: 'vec3f', value: 1 }, { name: '__k', value: 2 }] };
+        expect(checkNames(clashing, expressions).map((error) => error.message)).toEqual([
+            "species 'Let' is 'let' in expressions, which is a WGSL keyword, rename the species",
+            "species 'Select' is 'select' in expressions, which is a WGSL builtin, rename the species",
+            "species 'Production' is 'production' in expressions, which is the cell's own rate in secretion, rename the species",
+            "parameter 'vec3f' is a WGSL builtin",
+            "parameter '__k' is not a valid name",
+        ]);
+        // without expressions the species names don't reach the shader
+        expect(checkNames(clashing, noExpressions())).toEqual([]);
+    });
+});
+
+describe('expressionShader', () => {
+    it('generates a function per expression and points errors back at them', () => {
+        const { code, sources } = expressionShader(species, {
+            parameters: [{ name: 'k', value: 1 }],
+            reaction: ['k * u * morphogen_b', '', ''],
+            secretion: ['', '', 'let x = production * k;\nreturn x;'],
+        });
+        const lines = code.split('\n');
+
+        expect(lines[0]).toBe('fn reaction_0(u: f32, morphogen_b: f32, s2: f32, k: f32) -> f32 {');
+        expect(lines[sources[0].firstLine - 1]).toBe('    return k * u * morphogen_b;');
+        expect(code).toContain('case 0: { return reaction_0(input_concentration[0 * num_voxels + idx], ' +
+            'input_concentration[1 * num_voxels + idx], input_concentration[2 * num_voxels + idx], parameters[0][0]); }');
+        expect(code).toContain('case 2: { return secretion_2(');
+        expect(code).not.toContain('case 1:');
+
+        expect(sources[1]).toMatchObject({ label: 's2 secretion', lastLine: sources[1].firstLine + 1 });
+        expect(locateMessage(sources, sources[1].firstLine + 1, 'oops')).toEqual({ label: 's2 secretion', message: 'line 2: oops' });
+        expect(locateMessage(sources, lines.length, 'oops').label).toBe('');
+    });
+
+    it('falls back to no reaction and the cell production without expressions', () => {
+        const { code, sources } = expressionShader(species, noExpressions());
+        expect(sources).toEqual([]);
+        expect(code).toContain('default: { return 0.0; }');
+        expect(code).toContain('default: { return production; }');
+    });
+});
+
+describe('expressionFunctions', () => {
+    it('runs WGSL scalar code on the CPU', () => {
+        const { reaction, secretion, errors } = expressionFunctions(species, {
+            parameters: [{ name: 'k', value: 1 }],
+            reaction: ['clamp(k * u, 0.0, 1.5f)', '', 'select(0.0, 2.0, u > morphogen_b)'],
+            secretion: ['let x: f32 = production * k;\nreturn x + uptake;'],
+        });
+
+        expect(errors).toEqual([]);
+        expect(reaction[0]!(1, 0, 0, 2)).toBe(1.5);
+        expect(reaction[1]).toBeNull();
+        expect(reaction[2]!(1, 0, 0, 0)).toBe(2);
+        expect(secretion[0]!(0, 0, 0, 3, 4, 0.5)).toBe(12.5);
+    });
+
+    it('reports syntax errors and unknown names by expression', () => {
+        const { errors } = expressionFunctions(species, { ...noExpressions(), reaction: ['u +* 2.0', 'q * 2'] });
+        expect(errors.map((error) => error.label)).toEqual(['du/dt', 'dmorphogen_b/dt']);
+        expect(errors[1].message).toContain('q');
+    });
+});
+
+describe('compileScalar', () => {
+    it('runs declarations, assignments and branches', () => {
+        const fn = compileScalar('var y: f32 = x * 2.0;\nif x > 1.0 { y += 1.0; } else if (x < 0.0) { return -1.0; }\nreturn y;', ['x']);
+        expect(fn(0.5)).toBe(1);
+        expect(fn(2)).toBe(5);
+        expect(fn(-3)).toBe(-1);
+        expect(compileScalar('select(0.0, 1.0, !(a == 0.0) && a != 2.0 || false)', ['a'])(1)).toBe(1);
+    });
+
+    it('rejects what WGSL would', () => {
+        expect(() => compileScalar('let y = x; y = 2.0; return y;', ['x'])).toThrow("only a var");
+        expect(() => compileScalar('if x > 0.0 { return 1.0; }', ['x'])).toThrow('missing return');
+        expect(() => compileScalar('max(x)', ['x'])).toThrow('takes 2 arguments');
+    });
+
+    // the values the WGSL compiler gives for the same code with x = 0.5 and y = 3.0, as f32
+    it('agrees with WGSL on types and values', () => {
+        const agreed: [string, number][] = [
+            ['1 / 2', 0], // abstract integers divide as integers
+            ['x + 1 / 2', 0.5],
+            ['1.0 / 2', 0.5],
+            ['7 % 3 + 0.5', 1.5],
+            ['f32(7i / 2i)', 3],
+            ['f32(-7i % 2i)', -1],
+            ['f32(2147483647i + 1i)', -2147483648],
+            ['f32(1u - 2u)', 2 ** 32], // wraps to the largest u32, which rounds up as f32
+            ['f32(i32(-2.7))', -2],
+            ['f32(u32(-1.0))', 0],
+            ['x * 0.1', Math.fround(Math.fround(0.5) * Math.fround(0.1))],
+            ['0.1 + 0.2', Math.fround(0.1 + 0.2)],
+            ['f32(0.1f + 0.2f == 0.3f)', 1],
+            ['round(2.5) + round(-0.5)', 2],
+            ['select(1, 2.0, x < y)', 2],
+            ['clamp(y, 0, 1)', 1],
+            ['sqrt(4)', 2],
+            ['let a = 1;\nreturn f32(a / 2);', 0],
+            ['var a = 3;\na /= 2;\nreturn f32(a);', 1],
+            ['const c = 1 / 2;\nreturn c;', 0],
+        ];
+        for (const [source, value] of agreed) {
+            expect(compileScalar(source, ['x', 'y'])(0.5, 3), source).toBe(value);
+        }
+
+        const rejected = [
+            'true', 'x > y', '1i', 'bool(x)', 'let a = 1;\nreturn a / 2;', // not f32
+            'x + 1i', 'x * 1u', 'max(x, 1i)', // no implicit conversion between concrete types
+            '-1u', 'sign(1u)', 'floor(3i)', '!x', 'x && true', '1.5i', '1.0h', 'f32(1 / 0)',
+            'if x { return 1.0; }\nreturn 0.0;', 'const c = x;\nreturn c;', 'var a;\nreturn 1.0;',
+        ];
+        for (const source of rejected) {
+            expect(() => compileScalar(source, ['x', 'y']), source).toThrow();
+        }
+    });
+
+    it('rejects anything but the scalar subset, without running it', () => {
+        const hostile = [
+            'constructor.constructor("throw new Error()")()',
+            'globalThis',
+            'x.constructor',
+            'loop {}\nreturn x;',
+            'for (var i = 0; i < 1; i++) {}\nreturn x;',
+            'toString(x)',
+            '`${x}`',
+            'vec2<f32>(x, x).x',
+        ];
+        for (const source of hostile) {
+            expect(() => compileScalar(source, ['x'])).toThrow();
+        }
+    });
+});
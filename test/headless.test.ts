@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { HeadlessRun } from "../src/headless";
+import { random } from "../src/random";
+import { Scenario, loadScenario } from "../src/scenario";
+
+const scenario: Scenario = {
+    seed: 3,
+    dimensions: { x: 12, y: 12, z: 12 },
+    species: [{ name: 'Morphogen A', diffusionConstant: 0.1, decayRate: 0.0 }],
+    field: [{ type: 'point', species: 0, position: { x: 2, y: 6, z: 6 }, amount: 50, radius: 2 }],
+    cellGroups: [{
+        placement: { type: 'list', positions: [{ x: 8, y: 6, z: 6 }, { x: 6, y: 3, z: 6 }] },
+        productionRates: [0],
+        rule: 'Chemotaxis',
+    }],
+};
+
+async function runFor(steps: number, iterations: number, ruleInterval: number) {
+    random.reseed(scenario.seed!);
+    const run = await HeadlessRun.create(loadScenario(structuredClone(scenario)), ruleInterval);
+    while (run.step < steps) {
+        await run.advance(Math.min(iterations, steps - run.step));
+    }
+    await run.cleanup();
+    return run;
+}
+
+describe('HeadlessRun', () => {
+    it('gives the same result however the steps are batched', async () => {
+        const single = await runFor(12, 1, 3);
+        const batched = await runFor(12, 5, 3);
+        expect(batched.step).toBe(12);
+        expect(batched.cells.map((cell) => cell.position)).toEqual(single.cells.map((cell) => cell.position));
+        expect(batched.field).toEqual(single.field);
+    });
+
+    it('only lets cells react every ruleInterval steps', async () => {
+        const everyStep = await runFor(4, 4, 1);
+        const once = await runFor(4, 4, 4);
+        const moved = (run: HeadlessRun) => run.cells.reduce((sum, cell, i) =>
+            sum + Math.abs(cell.position.x - [8, 6][i]) + Math.abs(cell.position.y - [6, 3][i]), 0);
+        expect(moved(everyStep)).toBe(8);
+        expect(moved(once)).toBe(2);
+    });
+});
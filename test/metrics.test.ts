@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../src/cells";
+import { CellLattice } from "../src/lattice";
+import { SteadyStateDetector, centreOfMass, fieldHistogram, meanRadialProfile, radialProfile } from "../src/metrics";
+
+const dimensions = { x: 5, y: 5, z: 5 };
+const numVoxels = 5 * 5 * 5;
+const index = (x: number, y: number, z: number) => x + y * dimensions.x + z * dimensions.x * dimensions.y;
+
+// the distance from the middle voxel, rounded like the radial profile rounds it
+function distanceField() {
+    const field = new Float32Array(numVoxels);
+    for (let z = 0; z < 5; z++) {
+        for (let y = 0; y < 5; y++) {
+            for (let x = 0; x < 5; x++) {
+                field[index(x, y, z)] = Math.round(Math.sqrt((x - 2) ** 2 + (y - 2) ** 2 + (z - 2) ** 2));
+            }
+        }
+    }
+    return field;
+}
+
+describe('SteadyStateDetector', () => {
+    it('reports the first step the change per step drops below the tolerance', () => {
+        const detector = new SteadyStateDetector(0.01);
+        expect(detector.update(new Float32Array([1, 0]), 0)).toBe(false);
+        expect(detector.update(new Float32Array([2, 0]), 10)).toBe(false);
+        expect(detector.lastChange).toBeCloseTo(0.05);
+        // 0.01 over 10 steps, relative to 2
+        expect(detector.update(new Float32Array([2.01, 0]), 20)).toBe(true);
+        expect(detector.steadyStep).toBe(20);
+        expect(detector.update(new Float32Array([2.01, 0]), 30)).toBe(true);
+        expect(detector.steadyStep).toBe(20);
+    });
+
+    it('starts over when the field changes again or is reset', () => {
+        const detector = new SteadyStateDetector(0.01);
+        detector.update(new Float32Array([1]), 0);
+        detector.update(new Float32Array([1]), 1);
+        expect(detector.steadyStep).toBe(1);
+        expect(detector.update(new Float32Array([3]), 2)).toBe(false);
+        expect(detector.steadyStep).toBeNull();
+
+        detector.reset();
+        expect(detector.update(new Float32Array([3]), 0)).toBe(false);
+        expect(detector.lastChange).toBe(Infinity);
+    });
+
+    it('ignores fields of another size and steps that go back', () => {
+        const detector = new SteadyStateDetector();
+        detector.update(new Float32Array([1]), 5);
+        expect(detector.update(new Float32Array([1, 1]), 6)).toBe(false);
+        expect(detector.update(new Float32Array([1, 1]), 6)).toBe(false);
+        expect(detector.update(new Float32Array([1, 1]), 7)).toBe(true);
+    });
+});
+
+describe('radialProfile', () => {
+    it('averages the field at each whole voxel distance', () => {
+        const profile = radialProfile(distanceField(), dimensions, 0, new CellLattice(dimensions), { x: 2, y: 2, z: 2 }, 3);
+        expect(profile).toEqual([0, 1, 2, 3]);
+    });
+
+    it('leaves out occupied voxels, obstacles and voxels outside the domain', () => {
+        const field = new Float32Array(numVoxels);
+        field[index(1, 0, 0)] = 6;
+        field[index(0, 1, 0)] = 100;
+        field[index(0, 0, 1)] = 100;
+        const obstacles = new Uint8Array(numVoxels);
+        obstacles[index(0, 0, 1)] = 1;
+        const cell = new Cell({ x: 0, y: 0, z: 0 }, [0], [0]);
+        const lattice = new CellLattice(dimensions, [cell, new Cell({ x: 0, y: 1, z: 0 }, [0], [0])], obstacles);
+
+        // of the six voxels a rounded distance of 1 away, along the axes and diagonals in the domain, the
+        // two holding 100 are left out and the other four average to 6 / 4, the cell's own voxel is occupied
+        expect(radialProfile(field, dimensions, 0, lattice, cell.position, 1)).toEqual([0, 1.5]);
+    });
+
+    it('reads the requested species', () => {
+        const field = new Float32Array(2 * numVoxels);
+        field.fill(4, numVoxels);
+        expect(radialProfile(field, dimensions, 1, new CellLattice(dimensions), { x: 2, y: 2, z: 2 }, 1)).toEqual([4, 4]);
+    });
+});
+
+describe('meanRadialProfile', () => {
+    it('averages the profiles of every cell', () => {
+        expect(meanRadialProfile([[1, 2, 3], [3, 4, 5]])).toEqual([2, 3, 4]);
+    });
+
+    it('is empty without cells', () => {
+        expect(meanRadialProfile([])).toEqual([]);
+    });
+});
+
+describe('fieldHistogram', () => {
+    it('puts values in equal width bins with the maximum in the last one', () => {
+        const field = new Float32Array([0, 0.1, 0.5, 0.99, 1, 7]);
+        // the second species, the first is left alone
+        const histogram = fieldHistogram(new Float32Array([...new Float32Array(6), ...field]), 6, 1, 4, 0, 1);
+        expect(histogram).toEqual({ min: 0, max: 1, counts: [2, 0, 1, 3] });
+    });
+
+    it('puts a constant field in the first bin', () => {
+        expect(fieldHistogram(new Float32Array([2, 2, 2]), 3, 0, 3, 2, 2).counts).toEqual([3, 0, 0]);
+    });
+});
+
+describe('centreOfMass', () => {
+    it('weights voxel positions by concentration', () => {
+        const field = new Float32Array(numVoxels);
+        field[index(0, 0, 0)] = 1;
+        field[index(4, 2, 1)] = 3;
+        expect(centreOfMass(field, dimensions, 0)).toEqual({ x: 3, y: 1.5, z: 0.75 });
+    });
+
+    it('is the middle of the domain for a symmetric field', () => {
+        expect(centreOfMass(distanceField(), dimensions, 0)).toEqual({ x: 2, y: 2, z: 2 });
+    });
+
+    it('is null for an empty field', () => {
+        expect(centreOfMass(new Float32Array(numVoxels), dimensions, 0)).toBeNull();
+    });
+});
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../src/cells";
+import { DiffusionSim, obstacleIndex } from "../src/processVolume";
+
+describe('flattenCells', () => {
+    it('lays out position, production then uptake per cell', () => {
+        const cells = [
+            new Cell({ x: 1, y: 2, z: 3 }, [10, 20], [0.1, 0.2]),
+            new Cell({ x: 4, y: 5, z: 6 }, [30, 40]),
+        ];
+        const data = DiffusionSim.flattenCells(cells, 2);
+
+        expect(data.length).toBe(2 * (3 + 2 * 2));
+        expect(Array.from(data.subarray(0, 7))).toEqual([1, 2, 3, 10, 20, 0.1, 0.2].map(Math.fround));
+        // missing uptake rates are zero
+        expect(Array.from(data.subarray(7, 14))).toEqual([4, 5, 6, 30, 40, 0, 0]);
+    });
+
+    it('is empty without cells', () => {
+        expect(DiffusionSim.flattenCells([], 3).length).toBe(0);
+    });
+});
+
+describe('buildCellIndices', () => {
+    it('holds the cell index at each occupied voxel and -1 elsewhere', () => {
+        const dimensions = { x: 4, y: 3, z: 2 };
+        const cells = [new Cell({ x: 3, y: 0, z: 0 }, [1]), new Cell({ x: 1, y: 2, z: 1 }, [1])];
+        const indices = DiffusionSim.buildCellIndices(cells, dimensions);
+
+        expect(indices.length).toBe(4 * 3 * 2);
+        // x varies fastest, then y, then z
+        expect(indices[3]).toBe(0);
+        expect(indices[1 + 2 * 4 + 1 * 4 * 3]).toBe(1);
+        expect(Array.from(indices).filter((index) => index == -1).length).toBe(4 * 3 * 2 - 2);
+    });
+
+    it('marks obstacles under the cells', () => {
+        const dimensions = { x: 2, y: 1, z: 2 };
+        const obstacles = new Uint8Array([1, 0, 1, 0]);
+        const indices = DiffusionSim.buildCellIndices([new Cell({ x: 0, y: 0, z: 1 }, [1])], dimensions, obstacles);
+
+        expect(Array.from(indices)).toEqual([obstacleIndex, -1, 0, -1]);
+    });
+});
+
+describe('incremental cell updates', () => {
+    const dimensions = { x: 4, y: 3, z: 2 };
+
+    // stands in for the GPU buffers, only ever written through planCellUpdate's writes
+    function gpuState(cells: Cell[]) {
+        const update = DiffusionSim.planCellUpdate(
+            { cellData: new Float32Array(0), cellSlots: new Map(), bufferSize: 0 }, cells, dimensions, 1);
+        const state = { ...update, records: new Float32Array(update.bufferSize / 4), indices: DiffusionSim.buildCellIndices([], dimensions) };
+        write(state, update);
+        return state;
+    }
+
+    function write(state: ReturnType<typeof gpuState>, update: ReturnType<typeof DiffusionSim.planCellUpdate>) {
+        if (update.grown) {
+            state.records = new Float32Array(update.bufferSize / 4);
+        }
+        update.recordWrites.forEach(({ offset, data }) => state.records.set(data, offset));
+        update.indexWrites.forEach(({ offset, data }) => state.indices.set(data, offset));
+        Object.assign(state, { cellData: update.cellData, cellSlots: update.cellSlots, bufferSize: update.bufferSize });
+    }
+
+    function applyChanges(state: ReturnType<typeof gpuState>, next: Cell[], obstacles: Uint8Array | null = null) {
+        const update = DiffusionSim.planCellUpdate(state, next, dimensions, 1, obstacles);
+        write(state, update);
+        return update;
+    }
+
+    it('ends up with the same cells buffers as a full rebuild', () => {
+        const a = new Cell({ x: 0, y: 0, z: 0 }, [1]);
+        const b = new Cell({ x: 2, y: 1, z: 0 }, [1]);
+        const c = new Cell({ x: 3, y: 2, z: 1 }, [1]);
+        const state = gpuState([a, b]);
+
+        // c added, a removed so b shifts down, then b moves
+        let update = applyChanges(state, [b, c]);
+        expect(state.indices).toEqual(DiffusionSim.buildCellIndices([b, c], dimensions));
+        expect(state.records.subarray(0, 10)).toEqual(DiffusionSim.flattenCells([b, c], 1));
+        expect(update.indexWrites.map(({ offset, data }) => [offset, data.length])).toEqual([[0, 1], [6, 1], [23, 1]]);
+
+        const moved = new Cell({ x: 3, y: 1, z: 0 }, [1]);
+        update = applyChanges(state, [moved, c]);
+        expect(state.indices).toEqual(DiffusionSim.buildCellIndices([moved, c], dimensions));
+        expect(update.indexWrites.map(({ offset, data }) => [offset, data.length])).toEqual([[6, 2]]);
+        expect(update.recordWrites.map(({ offset, data }) => [offset, data.length])).toEqual([[0, 5]]);
+    });
+
+    it('keeps obstacles under voxels a cell leaves', () => {
+        const obstacles = new Uint8Array(24);
+        obstacles[5] = 1;
+        const state = gpuState([new Cell({ x: 1, y: 1, z: 0 }, [1])]);
+        applyChanges(state, [new Cell({ x: 2, y: 1, z: 0 }, [1])], obstacles);
+        expect(state.indices[5]).toBe(obstacleIndex);
+        expect(state.indices[6]).toBe(0);
+    });
+
+    it('writes every record to a grown buffer', () => {
+        const cells = [new Cell({ x: 0, y: 0, z: 0 }, [1])];
+        const state = gpuState(cells);
+        expect(state.bufferSize).toBe(256);
+
+        // 13 records of 5 floats no longer fit in 256 bytes
+        const more = [...cells, ...Array.from({ length: 12 }, (_, i) => new Cell({ x: i % 4, y: Math.floor(i / 4), z: 1 }, [2]))];
+        const update = applyChanges(state, more);
+        expect(update.grown).toBe(true);
+        expect(update.bufferSize).toBe(512);
+        expect(update.recordWrites.map(({ offset, data }) => [offset, data.length])).toEqual([[0, 65]]);
+        expect(state.records.subarray(0, 65)).toEqual(DiffusionSim.flattenCells(more, 1));
+    });
+
+    it('finds nothing to write when the cells are unchanged', () => {
+        const cells = [new Cell({ x: 1, y: 1, z: 1 }, [5], [0.5])];
+        const slots = DiffusionSim.buildCellSlots(cells, dimensions);
+        expect(DiffusionSim.changedCellIndices(slots, DiffusionSim.buildCellSlots(cells, dimensions))).toEqual([]);
+        const data = DiffusionSim.flattenCells(cells, 1);
+        expect(DiffusionSim.changedRecords(data, DiffusionSim.flattenCells(cells, 1), 5)).toEqual([]);
+    });
+
+    it('finds changed and new cell records', () => {
+        const cells = [new Cell({ x: 0, y: 0, z: 0 }, [1]), new Cell({ x: 1, y: 0, z: 0 }, [2])];
+        const previous = DiffusionSim.flattenCells(cells, 1);
+        cells[1].productionRates[0] = 3;
+        cells.push(new Cell({ x: 2, y: 0, z: 0 }, [4]));
+        expect(DiffusionSim.changedRecords(previous, DiffusionSim.flattenCells(cells, 1), 5)).toEqual([1, 2]);
+    });
+
+    it('groups consecutive indices into runs', () => {
+        expect(DiffusionSim.contiguousRuns([1, 2, 3, 7, 9, 10])).toEqual([
+            { start: 1, count: 3 }, { start: 7, count: 1 }, { start: 9, count: 2 },
+        ]);
+        expect(DiffusionSim.contiguousRuns([])).toEqual([]);
+    });
+
+    it('grows buffers geometrically', () => {
+        expect(DiffusionSim.bufferCapacity(4, 0)).toBe(256);
+        expect(DiffusionSim.bufferCapacity(300, 256)).toBe(512);
+        expect(DiffusionSim.bufferCapacity(5000, 512)).toBe(8192);
+        expect(DiffusionSim.bufferCapacity(100, 1024)).toBe(1024);
+    });
+});
+
+describe('flattenSpecies', () => {
+    it('combines the diffusion constant and decay rate with the time step', () => {
+        const species = [
+            { name: 'A', diffusionConstant: 2.0, decayRate: 0.5 },
+            { name: 'B', diffusionConstant: 0.1, decayRate: 0.0 },
+        ];
+        expect(Array.from(DiffusionSim.flattenSpecies(species, 0.25))).toEqual([0.5, 0.125, 0.025, 0].map(Math.fround));
+    });
+});
+
+describe('flattenBoundaries', () => {
+    it('matches the Boundaries struct layout', () => {
+        const data = DiffusionSim.flattenBoundaries({
+            x: { type: 'dirichlet', value: 1.5 },
+            y: { type: 'neumann', value: 0.0 },
+            z: { type: 'periodic', value: 2.0 },
+        });
+
+        expect(data.byteLength).toBe(32);
+        expect(Array.from(new Uint32Array(data, 0, 3))).toEqual([0, 1, 2]);
+        expect(Array.from(new Float32Array(data, 16, 3))).toEqual([1.5, 0.0, 2.0]);
+    });
+});
+
+describe('flattenReaction', () => {
+    it('matches the Reaction struct layout', () => {
+        const data = DiffusionSim.flattenReaction({ model: 'Gierer-Meinhardt', coefficients: [0.02, 1, 2, 0.1] });
+
+        expect(data.byteLength).toBe(32);
+        expect(new Uint32Array(data, 0, 1)[0]).toBe(2);
+        expect(Array.from(new Float32Array(data, 16, 4))).toEqual([0.02, 1, 2, 0.1].map(Math.fround));
+        expect(new Uint32Array(DiffusionSim.flattenReaction({ model: 'None', coefficients: [] }), 0, 1)[0]).toBe(0);
+    });
+});
+
+describe('flattenParameters', () => {
+    it('fills the parameters uniform in order, zero past the last', () => {
+        const data = DiffusionSim.flattenParameters([{ value: 0.5 }, { value: 2 }]);
+        expect(data.byteLength).toBe(64);
+        expect(Array.from(data.subarray(0, 3))).toEqual([0.5, 2, 0]);
+    });
+});
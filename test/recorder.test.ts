@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../src/cells";
+import { Recorder, deserializeRecording, serializeRecording } from "../src/recorder";
+
+const dimensions = { x: 4, y: 4, z: 2 };
+
+function ramp(numSpecies: number) {
+    return new Float32Array(4 * 4 * 2 * numSpecies).map((_, i) => i * 0.25);
+}
+
+describe('Recorder', () => {
+    it('records every N steps', () => {
+        const recorder = new Recorder(dimensions, 1, { every: 10, downsample: 1, compress: false, maxFrames: 100, maxMegabytes: 100 });
+        for (let step = 0; step <= 30; step += 5) {
+            recorder.record(step, ramp(1), []);
+        }
+        expect(recorder.frames.map((frame) => frame.step)).toEqual([0, 10, 20, 30]);
+    });
+
+    it('drops the oldest frames beyond maxFrames', () => {
+        const recorder = new Recorder(dimensions, 1, { every: 1, downsample: 1, compress: false, maxFrames: 2, maxMegabytes: 100 });
+        [1, 2, 3].forEach((step) => recorder.record(step, ramp(1), []));
+        expect(recorder.frames.map((frame) => frame.step)).toEqual([2, 3]);
+    });
+
+    it('drops the oldest frames beyond maxMegabytes', () => {
+        // a frame of one species is 4 * 4 * 2 floats, 128 bytes
+        const recorder = new Recorder(dimensions, 1, { every: 1, downsample: 1, compress: false, maxFrames: 100, maxMegabytes: 300e-6 });
+        [1, 2, 3, 4].forEach((step) => recorder.record(step, ramp(1), []));
+        expect(recorder.frames.map((frame) => frame.step)).toEqual([3, 4]);
+        expect(recorder.byteLength).toBe(256);
+
+        recorder.options.maxMegabytes = 0;
+        recorder.trim();
+        expect(recorder.frames.map((frame) => frame.step)).toEqual([4]);
+    });
+
+    it('averages blocks when downsampling', () => {
+        const recorder = new Recorder(dimensions, 2, { every: 1, downsample: 2, compress: false, maxFrames: 10, maxMegabytes: 100 });
+        const field = new Float32Array(4 * 4 * 2 * 2);
+        field[0] = 8; // one voxel in the first 2x2x2 block of the first species
+        recorder.record(0, field, []);
+
+        expect(recorder.frames[0].data.length).toBe(2 * 2 * 1 * 2);
+        const restored = recorder.frameField(0);
+        expect(restored.length).toBe(field.length);
+        // every voxel of the block gets the mean
+        expect(restored[0]).toBe(1);
+        expect(restored[1 + 4 + 16]).toBe(1);
+        expect(restored[2]).toBe(0);
+    });
+
+    it('restores compressed frames to within the 16 bit step', () => {
+        const recorder = new Recorder(dimensions, 2, { every: 1, downsample: 1, compress: true, maxFrames: 10, maxMegabytes: 100 });
+        const field = ramp(2);
+        recorder.record(0, field, []);
+
+        expect(recorder.frames[0].data).toBeInstanceOf(Uint16Array);
+        const restored = recorder.frameField(0);
+        const step = (field[field.length - 1] - field[0]) / 65535;
+        restored.forEach((value, i) => expect(Math.abs(value - field[i])).toBeLessThanOrEqual(step));
+    });
+
+    it('round trips through the file format', () => {
+        const recorder = new Recorder(dimensions, 1, { every: 1, downsample: 1, compress: true, maxFrames: 10, maxMegabytes: 100 });
+        recorder.record(0, ramp(1), [new Cell({ x: 1, y: 2, z: 0 }, [5], [0.5])]);
+        recorder.options.compress = false;
+        recorder.record(1, ramp(1), []);
+
+        const loaded = deserializeRecording(serializeRecording(recorder));
+        expect(loaded.dimensions).toEqual(dimensions);
+        expect(loaded.frames.map((frame) => frame.step)).toEqual([0, 1]);
+        expect(loaded.frames[0].cells[0].position).toEqual({ x: 1, y: 2, z: 0 });
+        expect(Array.from(loaded.frameField(0))).toEqual(Array.from(recorder.frameField(0)));
+        expect(Array.from(loaded.frameField(1))).toEqual(Array.from(ramp(1)));
+    });
+});
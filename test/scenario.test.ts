@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { CellPlacement, loadScenario } from "../src/scenario";
+
+describe('loadScenario', () => {
+    it('warns when a random placement places fewer cells than its count', () => {
+        const setup = loadScenario({
+            dimensions: { x: 2, y: 2, z: 1 },
+            cellGroups: [{ placement: { type: 'random', count: 10, seed: 1 }, productionRates: [0] }],
+        });
+        expect(setup.cells.length).toBeLessThanOrEqual(4);
+        expect(setup.warnings).toEqual([
+            `cell group 0 placed ${setup.cells.length} of 10 random cells, the rest fell outside the domain or on occupied voxels`,
+        ]);
+    });
+
+    it('has no warnings when every cell is placed', () => {
+        const setup = loadScenario({
+            dimensions: { x: 8, y: 8, z: 8 },
+            cellGroups: [
+                { placement: { type: 'list', positions: [{ x: 1, y: 1, z: 1 }, { x: 1, y: 1, z: 1 }] }, productionRates: [0] },
+                { placement: { type: 'random', count: 1, seed: 1 }, productionRates: [0] },
+            ],
+        });
+        expect(setup.warnings).toEqual([]);
+    });
+
+    it('warns about list and lattice positions outside the domain', () => {
+        const setup = loadScenario({
+            dimensions: { x: 4, y: 4, z: 4 },
+            cellGroups: [
+                { placement: { type: 'list', positions: [{ x: 1, y: 1, z: 1 }, { x: 4, y: 0, z: 0 }] }, productionRates: [0] },
+                { placement: { type: 'lattice', spacing: 2, min: { x: 0, y: 0, z: 0 }, max: { x: 5, y: 1, z: 1 } }, productionRates: [0] },
+                { placement: { type: 'sphere', centre: { x: 0, y: 0, z: 0 }, radius: 1 }, productionRates: [0] },
+            ],
+        });
+        expect(setup.warnings).toEqual([
+            'cell group 0 has 1 list positions outside the domain, they were skipped',
+            'cell group 1 has 1 lattice positions outside the domain, they were skipped',
+        ]);
+    });
+
+    it('rejects placements with missing or fractional numbers', () => {
+        const load = (placement: CellPlacement) => () => loadScenario({ dimensions: { x: 4, y: 4, z: 4 }, cellGroups: [{ placement, productionRates: [0] }] });
+        expect(load({ type: 'list', positions: [{ x: 1.5, y: 0, z: 0 }] })).toThrow('Cell group placed by "list" needs a list of positions with integer coordinates');
+        expect(load({ type: 'lattice' } as CellPlacement)).toThrow('Cell group placed by "lattice" needs a positive integer spacing');
+        expect(load({ type: 'lattice', spacing: 1, min: { x: 2, y: 0, z: 0 }, max: { x: 1, y: 3, z: 3 } }))
+            .toThrow('Cell group placed by "lattice" needs min at most max on every axis');
+        expect(load({ type: 'random', count: 2.5 })).toThrow('Cell group placed by "random" needs a count of at least 0');
+        expect(load({ type: 'random', count: 1, max: { x: 1, y: 1 } as never })).toThrow('Cell group placed by "random" needs integer coordinates for max');
+    });
+});
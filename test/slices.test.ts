@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { extractSlice, sampleLine, sliceVoxel } from "../src/slices";
+
+const dimensions = { x: 4, y: 3, z: 2 };
+// each voxel holds its own x, y, z as the digits of a number
+const volume = new Float32Array(4 * 3 * 2).map((_, i) => (i % 4) * 100 + Math.floor(i / 4) % 3 * 10 + Math.floor(i / 12));
+
+describe('extractSlice', () => {
+    it('takes the horizontal axis first and the vertical axis second', () => {
+        const xy = extractSlice(volume, dimensions, 'xy', 1);
+        expect([xy.width, xy.height]).toEqual([4, 3]);
+        expect(xy.data[2 + 1 * 4]).toBe(211);
+
+        const xz = extractSlice(volume, dimensions, 'xz', 2);
+        expect([xz.width, xz.height]).toEqual([4, 2]);
+        expect(xz.data[3 + 1 * 4]).toBe(321);
+
+        const yz = extractSlice(volume, dimensions, 'yz', 1);
+        expect([yz.width, yz.height]).toEqual([3, 2]);
+        expect(yz.data[2 + 0 * 3]).toBe(120);
+    });
+
+    it('clamps the slice index to the domain', () => {
+        expect(extractSlice(volume, dimensions, 'xy', 10).data[0]).toBe(1);
+    });
+});
+
+describe('sliceVoxel', () => {
+    it('maps slice coordinates back to the voxel', () => {
+        expect(sliceVoxel(dimensions, 'xz', 2, 3, 1)).toEqual({ x: 3, y: 2, z: 1 });
+        expect(sliceVoxel(dimensions, 'yz', 0, 3, 0)).toBeNull();
+    });
+});
+
+describe('sampleLine', () => {
+    it('samples once per voxel of length, from start to end', () => {
+        const samples = sampleLine(volume, dimensions, { x: 0, y: 1, z: 0 }, { x: 3, y: 1, z: 0 });
+        expect(samples.map((sample) => sample.distance)).toEqual([0, 1, 2, 3]);
+        expect(samples.map((sample) => sample.value)).toEqual([10, 110, 210, 310]);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../src/cells";
+import { FlowSettings, presetFlow, stillFlow } from "../src/flow";
+import { uniformMedium } from "../src/medium";
+import { deserializeState, saveCell, serializeState } from "../src/stateFile";
+
+const dimensions = { x: 3, y: 2, z: 2 };
+
+function savedState(flow: FlowSettings = { preset: 'shear', speed: 0.5, axis: 'y' }) {
+    return {
+        dimensions,
+        species: [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.1 }, { name: 'B', diffusionConstant: 0.5, decayRate: 0.0 }],
+        deltaTime: 0.1,
+        boundaries: { x: { type: 'periodic', value: 0 }, y: { type: 'neumann', value: 0 }, z: { type: 'dirichlet', value: 1 } } as const,
+        integration: { method: 'explicit', autoSubstep: true, iterations: 20 } as const,
+        cells: [saveCell(new Cell({ x: 1, y: 0, z: 1 }, [2, 0], [0, 0.5]))],
+        random: { seed: 7, state: 1234 },
+        flow,
+        reaction: { model: 'Schnakenberg', coefficients: [0.02, 0.1, 0.9] },
+        expressions: { parameters: [{ name: 'k', value: 2 }], reaction: ['-k * a', ''], secretion: ['', 'production'] },
+        settings: {},
+    };
+}
+
+const field = new Float32Array(3 * 2 * 2 * 2).map((_, i) => i * 0.5);
+
+describe('state file', () => {
+    it('round trips the state, field and medium', () => {
+        const medium = uniformMedium(dimensions);
+        medium.diffusivity[4] = 0.25;
+        medium.obstacles[7] = 1;
+        const loaded = deserializeState(serializeState(savedState(), field, medium));
+
+        expect(loaded.state).toMatchObject({ ...savedState(), medium: true });
+        expect(loaded.field).toEqual(field);
+        expect(loaded.medium.diffusivity).toEqual(medium.diffusivity);
+        expect(loaded.medium.obstacles).toEqual(medium.obstacles);
+    });
+
+    it('leaves out a uniform medium and loads it back as uniform', () => {
+        const withMedium = serializeState(savedState(), field, uniformMedium(dimensions));
+        expect(withMedium.byteLength).toBe(serializeState(savedState(), field).byteLength);
+
+        const loaded = deserializeState(withMedium);
+        expect(loaded.state.medium).toBe(false);
+        expect(loaded.medium).toEqual(uniformMedium(dimensions));
+    });
+
+    it('generates a preset flow again and saves a loaded one', () => {
+        const preset = deserializeState(serializeState(savedState(), field));
+        expect(preset.flow).toEqual(presetFlow(savedState().flow, dimensions));
+
+        const loaded = stillFlow(dimensions);
+        loaded.velocity.forEach((_, i) => loaded.velocity[i] = i - 10);
+        const fileState = savedState({ preset: 'file', speed: 0.5, axis: 'x' });
+        const buffer = serializeState(fileState, field, null, loaded);
+        // the same header length as the file preset, so only the velocity differs
+        const still = serializeState(savedState({ preset: 'none', speed: 0.5, axis: 'x' }), field);
+        expect(buffer.byteLength).toBe(still.byteLength + loaded.velocity.byteLength);
+        expect(deserializeState(buffer).flow).toEqual(loaded);
+
+        expect(() => serializeState(fileState, field)).toThrow('velocity');
+    });
+
+    it('rejects an unknown reaction model', () => {
+        const state = { ...savedState(), reaction: { model: 'Brusselator', coefficients: [] } };
+        expect(() => deserializeState(serializeState(state, field))).toThrow('Brusselator');
+    });
+
+    it('rejects malformed expressions', () => {
+        const state = { ...savedState(), expressions: { parameters: [{ name: 'k' }], reaction: [1], secretion: [] } };
+        expect(() => deserializeState(serializeState(state as never, field))).toThrow('expressions');
+    });
+
+    it('rejects other versions', () => {
+        const bytes = new Uint8Array(serializeState(savedState(), field));
+        // the version is the first thing in the header
+        const digit = 12 + '{"version":'.length;
+        expect(String.fromCharCode(bytes[digit])).toBe('6');
+        bytes[digit] = '5'.charCodeAt(0);
+        expect(() => deserializeState(bytes.buffer)).toThrow('version 5');
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { Scenario } from "../src/scenario";
+import { applyParameters, expandSweep, parseSweep, resultsToCsv, validateSweepPoints } from "../src/sweep";
+
+const scenario: Scenario = {
+    dimensions: { x: 8, y: 8, z: 8 },
+    species: [{ name: 'A', diffusionConstant: 1.0, decayRate: 0.0 }],
+    cellGroups: [{ placement: { type: 'list', positions: [{ x: 1, y: 1, z: 1 }] }, productionRates: [10] }],
+};
+
+describe('expandSweep', () => {
+    it('runs every combination of values, repeated with consecutive seeds', () => {
+        const points = expandSweep({
+            scenario, steps: 10, repeats: 2, seed: 5,
+            parameters: { deltaTime: [0.1, 0.2], 'species.0.decayRate': { from: 0, to: 1, count: 3 } },
+        });
+        expect(points.map((point) => [point.run, point.repeat, point.seed])).toEqual(
+            Array.from({ length: 12 }, (_, i) => [i, i % 2, 5 + i % 2]));
+        expect(points.filter((point) => point.repeat == 0).map((point) => point.parameters)).toEqual([
+            { deltaTime: 0.1, 'species.0.decayRate': 0 },
+            { deltaTime: 0.1, 'species.0.decayRate': 0.5 },
+            { deltaTime: 0.1, 'species.0.decayRate': 1 },
+            { deltaTime: 0.2, 'species.0.decayRate': 0 },
+            { deltaTime: 0.2, 'species.0.decayRate': 0.5 },
+            { deltaTime: 0.2, 'species.0.decayRate': 1 },
+        ]);
+    });
+
+    it('includes the end of a stepped range despite rounding', () => {
+        const points = expandSweep({ scenario, steps: 10, parameters: { deltaTime: { from: 0.1, to: 0.3, step: 0.1 } } });
+        expect(points.map((point) => point.parameters.deltaTime)).toEqual([0.1, 0.2, 0.1 + 2 * 0.1]);
+    });
+});
+
+describe('applyParameters', () => {
+    it('sets the paths in a copy of the scenario', () => {
+        const result = applyParameters(scenario, { 'species.0.decayRate': 0.5, 'cellGroups.0.productionRates.0': 20, deltaTime: 0.1 });
+        expect(result.species![0].decayRate).toBe(0.5);
+        expect(result.cellGroups![0].productionRates).toEqual([20]);
+        expect(result.deltaTime).toBe(0.1);
+        expect(scenario.species![0].decayRate).toBe(0.0);
+    });
+
+    it('rejects paths into objects the scenario does not have', () => {
+        expect(() => applyParameters(scenario, { 'boundaries.x.value': 1 })).toThrow('Parameter boundaries.x.value: the scenario has no boundaries');
+    });
+});
+
+describe('parseSweep', () => {
+    const valid = { scenario: 'scenario.json', steps: 10, parameters: { deltaTime: [0.1] } };
+
+    it('accepts a valid sweep', () => {
+        expect(parseSweep(JSON.stringify(valid))).toEqual(valid);
+    });
+
+    it('rejects missing steps and bad parameter values', () => {
+        const { steps: _, ...withoutSteps } = valid;
+        expect(() => parseSweep(JSON.stringify(withoutSteps))).toThrow('Sweep needs a positive integer number of steps');
+        expect(() => parseSweep(JSON.stringify({ ...valid, repeats: 0 }))).toThrow('Sweep repeats must be a positive integer');
+        expect(() => parseSweep(JSON.stringify({ ...valid, parameters: { deltaTime: [] } }))).toThrow('Parameter deltaTime needs a list of numbers');
+        expect(() => parseSweep(JSON.stringify({ ...valid, parameters: { deltaTime: { from: 0, to: 1 } } })))
+            .toThrow('Parameter deltaTime needs a positive step or a count');
+        expect(() => parseSweep(JSON.stringify({ ...valid, parameters: { 'species..decayRate': [1] } })))
+            .toThrow('Parameter "species..decayRate" is not a dot separated path');
+    });
+
+    it('checks every run against the scenario', () => {
+        expect(() => validateSweepPoints({ ...valid, parameters: { 'dimensions.x': [8, 0] } }, scenario))
+            .toThrow('run 1 {"dimensions.x":0}: Scenario needs positive integer dimensions');
+        expect(() => validateSweepPoints({ ...valid, parameters: { 'dimensions.x': [8, 16] } }, scenario)).not.toThrow();
+    });
+});
+
+describe('resultsToCsv', () => {
+    it('takes the columns of every row and quotes the ones that need it', () => {
+        const csv = resultsToCsv([{ run: 0, 'say "hi", total': 1 }, { run: 1, cells: 3 }]);
+        expect(csv).toBe('run,"say ""hi"", total",cells\n0,1,\n1,,3\n');
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../src/cells";
+import { cellRules } from "../src/behaviour";
+import {
+    VolumeData, cellsToCsv, cellsToVtk, readNrrd, readRaw, readVti, readVtk, volumeToField, writeNrrd, writeRaw, writeVti, writeVtk,
+} from "../src/volumeFiles";
+
+const volume: VolumeData = {
+    dimensions: { x: 3, y: 2, z: 2 },
+    names: ['Morphogen_A', 'B'],
+    field: new Float32Array(3 * 2 * 2 * 2).map((_, i) => i * 0.5 - 1),
+};
+
+function expectSameVolume(read: VolumeData, names = volume.names) {
+    expect(read.dimensions).toEqual(volume.dimensions);
+    expect(read.names).toEqual(names);
+    expect(Array.from(read.field)).toEqual(Array.from(volume.field));
+}
+
+describe('volume files', () => {
+    it('round trips legacy VTK', () => {
+        expectSameVolume(readVtk(writeVtk(volume)));
+    });
+
+    it('round trips VTI', () => {
+        expectSameVolume(readVti(writeVti(volume)));
+    });
+
+    it('escapes names in VTI attributes', () => {
+        const read = readVti(writeVti({ ...volume, names: ['A & "B"', '<C>'] }));
+        expect(read.names).toEqual(['A_&_"B"', '<C>']);
+    });
+
+    it('round trips NRRD', () => {
+        expectSameVolume(readNrrd(writeNrrd(volume)));
+    });
+
+    it('reads NRRD with \\r\\n line endings', () => {
+        const bytes = new Uint8Array(writeNrrd(volume));
+        const headerEnd = bytes.findIndex((byte, i) => byte == 10 && bytes[i + 1] == 10);
+        const header = new TextDecoder().decode(bytes.subarray(0, headerEnd + 2)).replace(/\n/g, '\r\n');
+        const crlf = new Uint8Array([...new TextEncoder().encode(header), ...bytes.subarray(headerEnd + 2)]);
+        expectSameVolume(readNrrd(crlf.buffer));
+    });
+
+    it('rejects NRRD without a blank line after the header', () => {
+        const text = 'NRRD0004\ntype: float\ndimension: 3\nsizes: 3 2 2\nencoding: raw\n';
+        expect(() => readNrrd(new TextEncoder().encode(text).buffer)).toThrow(/no end of header/);
+    });
+
+    it('round trips raw with a JSON header', () => {
+        const { data, header } = writeRaw(volume);
+        expect(JSON.parse(header).shape).toEqual([2, 2, 2, 3]);
+        expectSameVolume(readRaw(data, header));
+    });
+
+    it('reads ASCII legacy VTK', () => {
+        const text = [
+            '# vtk DataFile Version 2.0', 'made elsewhere', 'ASCII', 'DATASET STRUCTURED_POINTS',
+            'DIMENSIONS 2 1 1', 'SPACING 1 1 1', 'ORIGIN 0 0 0', 'POINT_DATA 2',
+            'SCALARS density double', 'LOOKUP_TABLE default', '1.5', '2.5',
+        ].join('\n');
+        const read = readVtk(new TextEncoder().encode(text).buffer);
+        expect(read.names).toEqual(['density']);
+        expect(Array.from(read.field)).toEqual([1.5, 2.5]);
+    });
+
+    it('rejects a legacy VTK DATASET line without a type', () => {
+        const text = ['# vtk DataFile Version 2.0', 'made elsewhere', 'ASCII', 'DATASET', 'DIMENSIONS 2 1 1'].join('\n');
+        expect(() => readVtk(new TextEncoder().encode(text).buffer)).toThrow(/DATASET without a type/);
+    });
+
+    it('reads base64 VTI arrays', () => {
+        const data = new Uint8Array(4 + 2 * 4);
+        new DataView(data.buffer).setUint32(0, 8, true);
+        new DataView(data.buffer).setFloat32(4, 3, true);
+        new DataView(data.buffer).setFloat32(8, 4, true);
+        const text = `<VTKFile type="ImageData" byte_order="LittleEndian"><ImageData WholeExtent="0 1 0 0 0 0">` +
+            `<Piece><PointData><DataArray type="Float32" Name="c" format="binary">${btoa(String.fromCharCode(...data))}</DataArray>` +
+            `</PointData></Piece></ImageData></VTKFile>`;
+        expect(Array.from(readVti(new TextEncoder().encode(text).buffer).field)).toEqual([3, 4]);
+    });
+
+    it('rejects data that does not fit the dimensions', () => {
+        const { data, header } = writeRaw(volume);
+        expect(() => readRaw(data.slice(0, 8), header)).toThrow(/ends early/);
+    });
+
+    it('fills the simulation species in order', () => {
+        const one = volumeToField(volume, 1);
+        expect(Array.from(one)).toEqual(Array.from(volume.field.subarray(0, 12)));
+        const three = volumeToField(volume, 3);
+        expect(Array.from(three.subarray(0, 24))).toEqual(Array.from(volume.field));
+        expect(three.subarray(24).every((value) => value == 0)).toBe(true);
+    });
+});
+
+describe('cell files', () => {
+    const cell = new Cell({ x: 1, y: 2, z: 3 }, [10, 20], [0.5]);
+    cell.rule = cellRules['Negative Feedback'];
+
+    it('writes a CSV row per cell', () => {
+        const lines = cellsToCsv([cell], ['A', 'B']).trim().split('\n');
+        expect(lines[0]).toBe('x,y,z,rule,production A,production B,uptake A,uptake B');
+        expect(lines[1]).toBe('1,2,3,Negative Feedback,10,20,0.5,0');
+    });
+
+    it('writes a VTK vertex per cell with the rates as point data', () => {
+        const text = cellsToVtk([cell], ['A']);
+        expect(text).toContain('POINTS 1 float\n1 2 3\n');
+        expect(text).toContain('VERTICES 1 2\n1 0\n');
+        expect(text).toContain('SCALARS production_A float 1\nLOOKUP_TABLE default\n10\n');
+        expect(text).toContain(`SCALARS rule int 1\nLOOKUP_TABLE default\n${Object.keys(cellRules).indexOf('Negative Feedback')}\n`);
+    });
+});